@@ -6,17 +6,69 @@
  * @description Main server implementation for Model Context Protocol (MCP) Playwright testing
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { createHTTPTransport } from './transports/streamable-http';
 import { GitService } from '../services/git-service';
-import { PlaywrightService } from '../services/playwright-service';
+import { getBrowserOptionsFromConfig, PlaywrightService } from '../services/playwright-service';
 import { TestGeneratorService } from '../services/test-generator-service';
-import { TestExecutionService } from '../services/test-execution-service';
-import { ApiTestingService } from '../services/api-testing-service';
-import { getConfig, projectConfig, browserConfig } from '../utils/config';
+import {
+  RunTestsOptions,
+  TestExecutionService,
+  TestReportSummary,
+} from '../services/test-execution-service';
+import { ApiTestingService, ApiDocFormat } from '../services/api-testing-service';
+import { MockServerService, buildMockResponse } from '../services/mock-server-service';
+import { StorageStateService } from '../services/storage-state-service';
+import { LoadTestService } from '../services/load-test-service';
+import { VisualSnapshotService } from '../services/visual-snapshot-service';
+import { getConfig, projectConfig } from '../utils/config';
+import { evaluateBudgets, getMetricValues, parseBudgets } from '../utils/performance-metrics';
 import fs from 'fs';
+import path from 'path';
+
+// 资源列表中各类测试报告的名称
+const REPORT_TYPE_NAMES: Record<TestReportSummary['type'], string> = {
+  result: 'Test report',
+  error: 'Error report',
+  matrix: 'Browser matrix report',
+};
+
+/**
+ * 执行工具操作，并将结果或错误包装为工具返回值
+ * @param action 工具操作，返回值合并到结果中
+ * @returns 工具返回值
+ */
+async function runBrowserTool(
+  action: () => Promise<Record<string, unknown>>
+): Promise<CallToolResult> {
+  try {
+    const result = await action();
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: true, ...result }),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
 
 /**
  * 创建MCP服务器实例
@@ -57,6 +109,10 @@ export function createPlaywrightMCPServer(
   const testGenerator = new TestGeneratorService();
   const testExecution = new TestExecutionService(playwrightService);
   const apiTesting = new ApiTestingService();
+  const mockServerService = new MockServerService();
+  const storageStates = new StorageStateService(playwrightService, testExecution);
+  const loadTests = new LoadTestService(apiTesting);
+  const visualSnapshots = new VisualSnapshotService();
 
   // 注册工具：克隆Git仓库
   server.tool(
@@ -152,19 +208,60 @@ export function createPlaywrightMCPServer(
         })
         .optional()
         .describe('浏览器视口尺寸'),
+      device: z
+        .string()
+        .optional()
+        .describe('模拟的Playwright内置设备，如 iPhone 13、Pixel 7，包括视口、UA与触屏'),
+      locale: z.string().optional().describe('语言区域，如 zh-CN'),
+      timezoneId: z.string().optional().describe('时区，如 Asia/Shanghai'),
+      geolocation: z
+        .object({
+          latitude: z.number(),
+          longitude: z.number(),
+          accuracy: z.number().optional(),
+        })
+        .optional()
+        .describe('地理位置，设置后自动授予geolocation权限'),
+      permissions: z
+        .array(z.string())
+        .optional()
+        .describe('授予的权限，如 notifications、clipboard-read'),
+      colorScheme: z.enum(['light', 'dark', 'no-preference']).optional().describe('配色方案'),
+      offline: z.boolean().optional().describe('是否模拟离线'),
+      extraHeaders: z.record(z.string()).optional().describe('每个请求附加的HTTP头'),
+      httpCredentials: z
+        .object({ username: z.string(), password: z.string() })
+        .optional()
+        .describe('HTTP基本认证凭据'),
+      storageState: z
+        .string()
+        .optional()
+        .describe('预加载的已保存存储状态名称，过期时重新执行登录套件刷新'),
     },
     async params => {
       try {
         // 优先使用传入的参数，如未传入则使用环境变量中的配置
+        const defaults = getBrowserOptionsFromConfig();
+        const device = params.device ?? defaults.device;
+        const storageState = params.storageState
+          ? await storageStates.resolveStorageState(params.storageState)
+          : undefined;
         await playwrightService.launchBrowser({
-          browserType:
-            (params.browserType as 'chromium' | 'firefox' | 'webkit') || browserConfig.type,
-          headless: (params.headless as boolean | undefined) || browserConfig.headless,
-          slowMo: params.slowMo || browserConfig.slowMo,
-          viewport: (params.viewport as { width: number; height: number } | undefined) || {
-            width: browserConfig.viewportWidth,
-            height: browserConfig.viewportHeight,
-          },
+          // 指定设备时由设备决定默认的浏览器与视口
+          browserType: params.browserType ?? (params.device ? undefined : defaults.browserType),
+          headless: params.headless ?? defaults.headless,
+          slowMo: params.slowMo ?? defaults.slowMo,
+          viewport: params.viewport ?? (device ? undefined : defaults.viewport),
+          device,
+          locale: params.locale ?? defaults.locale,
+          timezoneId: params.timezoneId ?? defaults.timezoneId,
+          geolocation: params.geolocation ?? defaults.geolocation,
+          permissions: params.permissions ?? defaults.permissions,
+          colorScheme: params.colorScheme ?? defaults.colorScheme,
+          offline: params.offline ?? defaults.offline,
+          extraHTTPHeaders: params.extraHeaders ?? defaults.extraHTTPHeaders,
+          httpCredentials: params.httpCredentials ?? defaults.httpCredentials,
+          storageState,
         });
         return {
           content: [
@@ -191,60 +288,344 @@ export function createPlaywrightMCPServer(
     }
   );
 
-  // 注册工具：生成测试用例
+  // 注册工具：在当前页面打开URL
   server.tool(
-    'generate-test-cases',
+    'browser-navigate',
     {
-      requirements: z.string().describe('测试需求描述'),
-      testType: z.enum(['ui', 'api']).describe('测试类型'),
-      projectPath: z.string().optional().describe('项目代码路径'),
-      apiSpec: z.string().optional().describe('API规范文档路径'),
+      url: z.string().describe('要打开的URL'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({ action: 'navigate', value: params.url }),
+      }))
+  );
+
+  // 注册工具：点击当前页面中的元素
+  server.tool(
+    'browser-click',
+    {
+      selector: z.string().describe('元素选择器，支持CSS、text=、role=等Playwright选择器'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({ action: 'click', selector: params.selector }),
+      }))
+  );
+
+  // 注册工具：在当前页面的输入框中填入内容
+  server.tool(
+    'browser-fill',
+    {
+      selector: z.string().describe('输入框选择器'),
+      value: z.string().describe('填入的内容，会先清空输入框'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({
+          action: 'fill',
+          selector: params.selector,
+          value: params.value,
+        }),
+      }))
+  );
+
+  // 注册工具：在当前页面按键
+  server.tool(
+    'browser-press',
+    {
+      key: z.string().describe('按键，如 Enter、Control+A'),
+      selector: z.string().optional().describe('在该元素上按键，不传时发送到页面'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({
+          action: 'press',
+          selector: params.selector,
+          value: params.key,
+        }),
+      }))
+  );
+
+  // 注册工具：鼠标悬停在当前页面的元素上
+  server.tool(
+    'browser-hover',
+    {
+      selector: z.string().describe('元素选择器'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({ action: 'hover', selector: params.selector }),
+      }))
+  );
+
+  // 注册工具：在当前页面的下拉框中选择选项
+  server.tool(
+    'browser-select',
+    {
+      selector: z.string().describe('下拉框选择器'),
+      value: z.string().describe('选项的value或文本'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.runStep({
+          action: 'select',
+          selector: params.selector,
+          value: params.value,
+        }),
+      }))
+  );
+
+  // 注册工具：在当前页面中执行JavaScript
+  server.tool(
+    'browser-evaluate',
+    {
+      expression: z
+        .string()
+        .describe('JavaScript表达式，如 document.title；结果为函数时调用该函数'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        result: await playwrightService.evaluate(params.expression),
+      }))
+  );
+
+  // 注册工具：获取当前页面的无障碍树快照
+  server.tool(
+    'browser-snapshot',
+    {
+      selector: z.string().optional().describe('只获取该元素的快照，不传时为整个页面'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.getActivePageInfo(),
+        snapshot: await playwrightService.getAccessibilitySnapshot(params.selector),
+      }))
+  );
+
+  // 注册工具：获取当前页面的HTML或文本
+  server.tool(
+    'browser-get-content',
+    {
+      format: z.enum(['html', 'text']).optional().describe('返回HTML或可见文本，默认text'),
+      selector: z.string().optional().describe('只获取该元素的内容，不传时为整个页面'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        page: await playwrightService.getActivePageInfo(),
+        content: await playwrightService.getPageContent(params.format || 'text', params.selector),
+      }))
+  );
+
+  // 注册工具：在当前页面的浏览历史中后退
+  server.tool('browser-go-back', {}, () =>
+    runBrowserTool(async () => ({
+      page: await playwrightService.navigateHistory('back'),
+    }))
+  );
+
+  // 注册工具：在当前页面的浏览历史中前进
+  server.tool('browser-go-forward', {}, () =>
+    runBrowserTool(async () => ({
+      page: await playwrightService.navigateHistory('forward'),
+    }))
+  );
+
+  // 注册工具：截取当前页面
+  server.tool(
+    'browser-screenshot',
+    {
+      fullPage: z.boolean().optional().describe('是否截取整个可滚动页面'),
+      path: z.string().optional().describe('截图保存路径，默认保存到screenshots目录'),
     },
     async params => {
       try {
-        // 使用TestGeneratorService生成测试用例
-        let apiSpecContent: string | undefined;
+        const screenshotPath = await playwrightService.captureScreenshot(params.path, {
+          fullPage: params.fullPage,
+        });
 
-        // 如果提供了API规范文档路径，读取其内容
-        if (params.apiSpec) {
-          const apiSpecPath = params.apiSpec;
-          if (fs.existsSync(apiSpecPath)) {
-            apiSpecContent = fs.readFileSync(apiSpecPath, 'utf-8');
-          } else {
-            console.warn(`API规范文档不存在: ${apiSpecPath}`);
-          }
-        }
-        // 否则尝试使用环境变量配置的路径
-        else if (projectConfig.apiDocPath && fs.existsSync(projectConfig.apiDocPath)) {
-          console.log(`使用环境变量配置的API文档路径: ${projectConfig.apiDocPath}`);
-          apiSpecContent = fs.readFileSync(projectConfig.apiDocPath, 'utf-8');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, path: screenshotPath }),
+            },
+            {
+              type: 'image',
+              data: fs.readFileSync(screenshotPath).toString('base64'),
+              mimeType: 'image/png',
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // 注册工具：对当前页面执行无障碍审计
+  server.tool(
+    'a11y-audit',
+    {
+      selector: z.string().optional().describe('只检查该元素及其子元素，不传时检查整个页面'),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe(
+          '检查的axe规则标签，如 wcag2a、wcag2aa、best-practice，默认WCAG 2.1 A/AA与最佳实践'
+        ),
+      minImpact: z
+        .enum(['minor', 'moderate', 'serious', 'critical'])
+        .optional()
+        .describe('只报告不低于该影响级别的违规'),
+    },
+    params =>
+      runBrowserTool(async () => ({
+        audit: await playwrightService.auditAccessibility(params),
+      }))
+  );
+
+  // 注册工具：采集当前页面的性能指标，可同时检查性能预算
+  server.tool(
+    'performance-metrics',
+    {
+      budgets: z
+        .string()
+        .optional()
+        .describe('以逗号分隔的性能预算，如"LCP < 2500ms, totalJS < 500KB"，不传时只返回指标'),
+      includeResources: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('是否返回每个资源的加载时序'),
+    },
+    ({ budgets, includeResources }) =>
+      runBrowserTool(async () => {
+        const budgetList = budgets ? parseBudgets(budgets) : [];
+        const performance = await playwrightService.getPagePerformance();
+        const budgetResults = evaluateBudgets(performance, budgetList);
+        return {
+          passed: budgetResults.every(result => result.passed),
+          metrics: getMetricValues(performance),
+          budgets: budgetResults.length > 0 ? budgetResults : undefined,
+          performance: includeResources ? performance : { ...performance, resources: undefined },
+        };
+      })
+  );
+
+  // 注册工具：截取当前页面并与基线对比
+  server.tool(
+    'visual-snapshot',
+    {
+      name: z.string().describe('快照名称，同一范围、浏览器与视口下唯一'),
+      suiteId: z
+        .string()
+        .optional()
+        .describe('基线所属的测试套件ID，与套件中visualSnapshot步骤共用基线，默认adhoc'),
+      selector: z.string().optional().describe('只截取该元素，不传时截取页面'),
+      mask: z.array(z.string()).optional().describe('截图时遮盖的动态元素选择器'),
+      threshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe('单个像素的颜色差异阈值，默认VISUAL_THRESHOLD'),
+      maxDiffPixelRatio: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe('允许的差异像素比例，默认VISUAL_MAX_DIFF_RATIO'),
+      fullPage: z.boolean().optional().describe('是否截取整个可滚动页面'),
+      update: z.boolean().optional().describe('直接用新截图覆盖基线'),
+    },
+    params =>
+      runBrowserTool(async () => {
+        const page = playwrightService.getPage();
+        if (!page) {
+          throw new Error('Browser page not initialized. Call launchBrowser() first.');
         }
 
-        // 调用generateFromText方法生成测试用例
-        const result = await testGenerator.generateFromText(
-          params.requirements,
-          params.testType as 'ui' | 'api',
-          apiSpecContent
-        );
+        const suiteId = params.suiteId || 'adhoc';
+        const snapshot = await visualSnapshots.check(page, {
+          ...params,
+          suiteId,
+          outputDir: path.join(process.cwd(), 'test-results', 'visual', suiteId),
+        });
+        return { snapshot };
+      })
+  );
 
-        if (!result.success) {
-          throw new Error(result.error || '测试用例生成失败');
+  // 注册工具：接受测试报告中失败的视觉快照作为新基线
+  server.tool(
+    'accept-visual-baselines',
+    {
+      reportId: z.string().describe('包含失败视觉快照的测试报告ID'),
+      names: z.array(z.string()).optional().describe('只接受这些名称的快照，不传时接受全部'),
+    },
+    params =>
+      runBrowserTool(() =>
+        Promise.resolve({
+          snapshots: testExecution.acceptVisualBaselines(params.reportId, params.names),
+        })
+      )
+  );
+
+  // 注册工具：根据当前浏览器会话生成错误报告
+  server.tool('generate-error-report', {}, () =>
+    runBrowserTool(async () => {
+      const reportId = await testExecution.generateErrorReport();
+      return { reportId, report: await testExecution.getReport(reportId) };
+    })
+  );
+
+  // 注册工具：关闭浏览器
+  server.tool('close-browser', {}, () =>
+    runBrowserTool(async () => {
+      await playwrightService.closeBrowser();
+      return {};
+    })
+  );
+
+  // 注册工具：保存浏览器存储状态
+  server.tool(
+    'save-storage-state',
+    {
+      name: z.string().describe('存储状态名称，只能包含字母、数字、下划线、点和连字符'),
+      loginSuiteId: z.string().optional().describe('登录测试套件ID，存储状态过期后用于刷新'),
+      runLoginSuite: z
+        .boolean()
+        .optional()
+        .describe('是否先在全新的浏览器中执行登录套件再保存，默认保存当前浏览器的状态'),
+      ttlSeconds: z.number().int().min(1).optional().describe('有效期（秒），不设置则一直有效'),
+    },
+    async params => {
+      try {
+        const { name, loginSuiteId, ttlSeconds } = params;
+        if (params.runLoginSuite && !loginSuiteId) {
+          throw new Error('loginSuiteId is required when runLoginSuite is true');
         }
 
-        // 获取生成的测试用例
-        const testSuite = await testGenerator.getTestCases(result.testSuiteId!);
+        const storageState =
+          params.runLoginSuite && loginSuiteId
+            ? await storageStates.captureFromLoginSuite(name, loginSuiteId, { ttlSeconds })
+            : await storageStates.captureStorageState(name, { ttlSeconds, loginSuiteId });
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: true,
-                testSuiteId: result.testSuiteId,
-                testSuiteName: result.testSuiteName,
-                testCasesCount: result.testCasesCount,
-                testCases: testSuite.testCases,
-              }),
+              text: JSON.stringify({ success: true, storageState }),
             },
           ],
         };
@@ -265,24 +646,54 @@ export function createPlaywrightMCPServer(
     }
   );
 
-  // 注册工具：执行UI测试
+  // 注册工具：列出已保存的存储状态
+  server.tool('list-storage-states', {}, () => {
+    try {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              storageStates: storageStates.listStorageStates(),
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // 注册工具：删除存储状态
   server.tool(
-    'execute-ui-tests',
+    'delete-storage-state',
     {
-      testSuiteId: z.string().describe('测试套件ID'),
-      baseUrl: z.string().optional().describe('应用基础URL'),
-      timeout: z.number().optional().describe('测试超时（毫秒）'),
+      name: z.string().describe('存储状态名称'),
     },
-    async params => {
+    params => {
       try {
-        // 使用TestExecutionService执行测试
-        const reportId = await testExecution.runTests(params.testSuiteId);
+        storageStates.deleteStorageState(params.name);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, reportId }),
+              text: JSON.stringify({
+                success: true,
+                storageStates: storageStates.listStorageStates(),
+              }),
             },
           ],
         };
@@ -303,24 +714,98 @@ export function createPlaywrightMCPServer(
     }
   );
 
-  // 注册工具：执行API测试
+  // 注册工具：添加浏览器请求拦截规则
   server.tool(
-    'execute-api-tests',
+    'add-route-rule',
     {
-      testSuiteId: z.string().describe('API测试套件ID'),
-      baseUrl: z.string().optional().describe('API基础URL'),
-      headers: z.record(z.string()).optional().describe('请求头'),
+      urlPattern: z.string().describe('URL匹配模式，glob（如**/api/users*）或/正则/'),
+      action: z
+        .enum(['fulfill', 'abort', 'delay', 'modify'])
+        .describe('拦截动作：返回指定响应、中止、延迟或修改请求/响应'),
+      method: z.string().optional().describe('仅拦截指定HTTP方法'),
+      scope: z.enum(['page', 'context']).optional().describe('规则作用范围，默认为浏览器上下文'),
+      delay: z.number().optional().describe('处理前延迟毫秒数，delay动作必填'),
+      times: z.number().optional().describe('最多拦截次数'),
+      response: z
+        .object({
+          status: z.number().optional(),
+          headers: z.record(z.string()).optional(),
+          contentType: z.string().optional(),
+          body: z.any().optional(),
+        })
+        .optional()
+        .describe('fulfill动作返回的响应'),
+      fromSpec: z
+        .object({
+          specId: z.string(),
+          path: z.string().describe('规范中的端点路径，如/users/{id}'),
+          method: z.string().optional(),
+          status: z.number().optional(),
+        })
+        .optional()
+        .describe('fulfill动作使用API规范生成响应'),
+      errorCode: z
+        .enum([
+          'aborted',
+          'accessdenied',
+          'addressunreachable',
+          'blockedbyclient',
+          'blockedbyresponse',
+          'connectionaborted',
+          'connectionclosed',
+          'connectionfailed',
+          'connectionrefused',
+          'connectionreset',
+          'internetdisconnected',
+          'namenotresolved',
+          'timedout',
+          'failed',
+        ])
+        .optional()
+        .describe('abort动作的错误码'),
+      modify: z
+        .object({
+          requestHeaders: z.record(z.string()).optional(),
+          requestBody: z.any().optional(),
+          status: z.number().optional(),
+          responseHeaders: z.record(z.string()).optional(),
+          responseBody: z.any().optional(),
+        })
+        .optional()
+        .describe('modify动作的修改内容'),
     },
     async params => {
       try {
-        // 使用ApiTestingService执行API测试
-        const reportId = await apiTesting.runApiTests(params.testSuiteId);
+        const { fromSpec, ...options } = params;
+
+        if (fromSpec) {
+          const endpoint = apiTesting
+            .getApiSpec(fromSpec.specId)
+            .endpoints.find(
+              candidate =>
+                candidate.path === fromSpec.path &&
+                (!fromSpec.method ||
+                  candidate.method.toUpperCase() === fromSpec.method.toUpperCase())
+            );
+          if (!endpoint) {
+            throw new Error(`Endpoint not found in API specification: ${fromSpec.path}`);
+          }
+
+          const mockResponse = buildMockResponse(endpoint, { status: fromSpec.status });
+          options.response = {
+            status: mockResponse.status,
+            headers: mockResponse.headers,
+            body: mockResponse.body,
+          };
+        }
+
+        const rule = await playwrightService.addRouteRule(options);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, reportId }),
+              text: JSON.stringify({ success: true, rule }),
             },
           ],
         };
@@ -341,30 +826,35 @@ export function createPlaywrightMCPServer(
     }
   );
 
-  // 注册工具：从API规范文档生成测试用例
+  // 注册工具：列出请求拦截规则
+  server.tool('list-route-rules', {}, () => ({
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ success: true, rules: playwrightService.listRouteRules() }),
+      },
+    ],
+  }));
+
+  // 注册工具：清除请求拦截规则
   server.tool(
-    'generate-tests-from-spec',
+    'clear-route-rules',
     {
-      specPath: z.string().describe('API规范文档路径'),
-      format: z.enum(['openapi', 'swagger', 'apifox', 'auto']).optional().describe('API规范格式'),
+      ruleId: z.string().optional().describe('要移除的规则ID，不提供时清除所有规则'),
     },
     async params => {
       try {
-        // 使用ApiTestingService的generateTestsFromSpec方法从规范生成测试用例
-        const testSuiteId = await apiTesting.generateTestsFromSpec(
-          params.specPath,
-          (params.format as 'openapi' | 'swagger' | 'apifox' | 'auto') || 'auto'
-        );
+        if (params.ruleId) {
+          await playwrightService.removeRouteRule(params.ruleId);
+        } else {
+          await playwrightService.clearRouteRules();
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: true,
-                testSuiteId,
-                message: `成功从${params.format || 'auto'}规范生成测试套件`,
-              }),
+              text: JSON.stringify({ success: true, rules: playwrightService.listRouteRules() }),
             },
           ],
         };
@@ -385,118 +875,975 @@ export function createPlaywrightMCPServer(
     }
   );
 
-  // 简化版resource实现
-  // 注册资源：获取测试报告
-  server.resource('test-report', 'test-report', async (uri, _extra) => {
-    try {
-      // 解析URI路径，获取reportId
-      const uriPath = uri.pathname;
-      const pathParts = uriPath.split('/');
-      const reportId = pathParts[pathParts.length - 1];
+  // 注册工具：生成测试用例
+  server.tool(
+    'generate-test-cases',
+    {
+      requirements: z.string().describe('测试需求描述'),
+      testType: z.enum(['ui', 'api']).describe('测试类型'),
+      projectPath: z.string().optional().describe('项目代码路径'),
+      apiSpec: z.string().optional().describe('API规范文档路径'),
+    },
+    async params => {
+      try {
+        // 使用TestGeneratorService生成测试用例
+        let apiSpecContent: string | undefined;
 
-      // 使用TestExecutionService获取测试报告
-      const report = await testExecution.getReport(reportId);
+        // 如果提供了API规范文档路径，读取其内容
+        if (params.apiSpec) {
+          const apiSpecPath = params.apiSpec;
+          if (fs.existsSync(apiSpecPath)) {
+            apiSpecContent = fs.readFileSync(apiSpecPath, 'utf-8');
+          } else {
+            console.warn(`API规范文档不存在: ${apiSpecPath}`);
+          }
+        }
+        // 否则尝试使用环境变量配置的路径
+        else if (projectConfig.apiDocPath && fs.existsSync(projectConfig.apiDocPath)) {
+          console.log(`使用环境变量配置的API文档路径: ${projectConfig.apiDocPath}`);
+          apiSpecContent = fs.readFileSync(projectConfig.apiDocPath, 'utf-8');
+        }
 
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            text: JSON.stringify(report, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      throw new Error(
-        `Failed to get test report: ${error instanceof Error ? error.message : String(error)}`
-      );
+        // 调用generateFromText方法生成测试用例
+        const result = await testGenerator.generateFromText(
+          params.requirements,
+          params.testType as 'ui' | 'api',
+          apiSpecContent
+        );
+
+        if (!result.success) {
+          throw new Error(result.error || '测试用例生成失败');
+        }
+
+        // 获取生成的测试用例
+        const testSuite = await testGenerator.getTestCases(result.testSuiteId!);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                testSuiteId: result.testSuiteId,
+                testSuiteName: result.testSuiteName,
+                testCasesCount: result.testCasesCount,
+                testCases: testSuite.testCases,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
     }
-  });
+  );
 
-  // 注册资源：获取API测试报告
-  server.resource('api-test-report', 'api-test-report', (uri, _extra) => {
-    try {
-      // 解析URI路径，获取reportId
-      const uriPath = uri.pathname;
-      const pathParts = uriPath.split('/');
-      const reportId = pathParts[pathParts.length - 1];
+  // 注册工具：将测试套件导出为 @playwright/test spec 文件
+  server.tool(
+    'export-playwright-spec',
+    {
+      testSuiteIds: z
+        .array(z.string())
+        .optional()
+        .describe('要导出的测试套件ID，不传时导出全部测试套件'),
+      outputDir: z.string().optional().describe('相对项目路径的输出目录，默认tests'),
+      baseUrl: z
+        .string()
+        .optional()
+        .describe('写入test.use的baseURL，包含API步骤的套件默认使用API_URL'),
+    },
+    params => {
+      try {
+        const projectPath = gitService.getProjectPath();
+        if (!projectPath) {
+          throw new Error(
+            'Project path is not set. Use clone-repository or use-local-project first.'
+          );
+        }
 
-      // 使用ApiTestingService获取API测试报告
-      const report = apiTesting.getReport(reportId);
+        const files = testGenerator.exportPlaywrightSpecs(
+          path.resolve(projectPath, params.outputDir || 'tests'),
+          { testSuiteIds: params.testSuiteIds, baseUrl: params.baseUrl }
+        );
 
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            text: JSON.stringify(report, null, 2),
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, files }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // 注册工具：执行UI测试
+  server.tool(
+    'execute-ui-tests',
+    {
+      testSuiteId: z.string().describe('测试套件ID'),
+      baseUrl: z.string().optional().describe('应用基础URL'),
+      timeout: z.number().optional().describe('单个测试用例超时（毫秒），默认TEST_TIMEOUT'),
+      stepTimeout: z.number().optional().describe('单个步骤超时（毫秒），默认TEST_STEP_TIMEOUT'),
+      suiteTimeout: z
+        .number()
+        .optional()
+        .describe('整个测试套件超时（毫秒），默认TEST_SUITE_TIMEOUT，0表示不限制'),
+      retries: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('失败用例的重试次数，默认使用套件配置或TEST_RETRIES'),
+      workers: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          '并行执行的浏览器上下文数量，大于1时每个用例在独立上下文中执行，默认TEST_WORKERS'
+        ),
+      matrix: z
+        .array(
+          z.object({
+            name: z.string().optional().describe('组合名称，默认根据浏览器、设备和视口生成'),
+            browserType: z.enum(['chromium', 'firefox', 'webkit']).optional(),
+            device: z.string().optional().describe('Playwright内置设备名称，如 iPhone 13'),
+            viewport: z.object({ width: z.number(), height: z.number() }).optional(),
+          })
+        )
+        .optional()
+        .describe('浏览器/视口/设备矩阵，设置后对每个组合分别执行测试套件并生成汇总报告'),
+      recordHar: z.boolean().optional().describe('是否将网络流量录制为HAR，可通过har资源获取'),
+      replayHar: z.string().optional().describe('从HAR文件路径或录制过HAR的报告ID回放网络流量'),
+      harNotFound: z
+        .enum(['abort', 'fallback'])
+        .optional()
+        .describe('回放时HAR中没有的请求是中止还是访问网络，默认中止'),
+      storageState: z
+        .string()
+        .optional()
+        .describe('以已保存的存储状态（如登录后的Cookie）重新启动浏览器后执行，过期时自动刷新'),
+      trace: z
+        .enum(['off', 'on', 'retain-on-failure'])
+        .optional()
+        .describe('为每个测试用例录制Playwright跟踪，可通过trace资源获取，默认TEST_TRACE'),
+      video: z
+        .enum(['off', 'on', 'retain-on-failure'])
+        .optional()
+        .describe('为每个测试用例录制视频，可通过video资源获取，默认TEST_VIDEO'),
+    },
+    async params => {
+      try {
+        const runOptions: RunTestsOptions = {
+          storageState: params.storageState
+            ? await storageStates.resolveStorageState(params.storageState)
+            : undefined,
+          recordHar: params.recordHar,
+          replayHar: params.replayHar,
+          harNotFound: params.harNotFound,
+          retries: params.retries,
+          workers: params.workers,
+          trace: params.trace,
+          video: params.video,
+          timeouts: {
+            step: params.stepTimeout,
+            testCase: params.timeout,
+            suite: params.suiteTimeout,
           },
-        ],
-      };
-    } catch (error) {
-      throw new Error(
-        `Failed to get API test report: ${error instanceof Error ? error.message : String(error)}`
-      );
+        };
+
+        // 使用TestExecutionService执行测试，设置矩阵时分别在每个浏览器组合下执行
+        const reportId = params.matrix
+          ? await testExecution.runTestMatrix(params.testSuiteId, params.matrix, runOptions)
+          : await testExecution.runTests(params.testSuiteId, runOptions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, reportId }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
     }
-  });
+  );
 
-  // 注册资源：获取测试用例
-  server.resource('test-case', 'test-case', async (uri, _extra) => {
-    try {
-      // 解析URI路径，获取testSuiteId和testCaseId
-      const uriPath = uri.pathname;
-      const pathParts = uriPath.split('/');
-      // 假设路径格式为 /testSuiteId/testCaseId
-      const testSuiteId = pathParts[pathParts.length - 2];
-      const testCaseId = pathParts[pathParts.length - 1];
-
-      if (!testSuiteId || !testCaseId) {
-        throw new Error('Invalid URI format. Expected /testSuiteId/testCaseId');
+  // 注册工具：执行API测试
+  server.tool(
+    'execute-api-tests',
+    {
+      testSuiteId: z.string().describe('API测试套件ID'),
+      baseUrl: z.string().optional().describe('API基础URL'),
+      headers: z.record(z.string()).optional().describe('请求头'),
+      validateResponses: z.boolean().optional().describe('是否按来源API规范的响应架构校验响应体'),
+      environment: z
+        .record(z.string())
+        .optional()
+        .describe('环境变量，可在测试步骤中以{{name}}引用'),
+      retries: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('失败用例的重试次数，默认使用套件配置或TEST_RETRIES'),
+    },
+    async params => {
+      try {
+        // 使用ApiTestingService执行API测试
+        const reportId = await apiTesting.runApiTests(params.testSuiteId, {
+          validateResponses: params.validateResponses,
+          environment: params.environment,
+          retries: params.retries,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, reportId }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // 注册工具：以设定的并发与速率反复执行API测试套件的请求，统计吞吐量、延迟与错误率
+  server.tool(
+    'load-test-api',
+    {
+      testSuiteId: z.string().describe('API测试套件ID，请求发往API_URL'),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(10)
+        .describe('并发的虚拟用户数，每个虚拟用户依次执行套件中的测试用例'),
+      rate: z.number().positive().optional().describe('每秒最多开始的用例迭代数，不设置则不限速'),
+      duration: z.number().positive().optional().default(30).describe('持续时间（秒）'),
+      rampUp: z
+        .number()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe('爬坡时间（秒），在该时间内逐步启动全部虚拟用户'),
+      iterations: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe('最多执行的用例迭代数，达到后提前结束'),
+      environment: z
+        .record(z.string())
+        .optional()
+        .describe('环境变量，可在测试步骤中以{{name}}引用'),
+      background: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          '是否在后台执行并立即返回报告ID，适合长时间的稳定性测试，通过load-report资源查看进度'
+        ),
+    },
+    ({ testSuiteId, background, ...options }) =>
+      runBrowserTool(async () => {
+        const { reportId, completion } = loadTests.startLoadTest(testSuiteId, options);
+        if (background) {
+          // 后台执行的结果通过load-report资源查看，这里只记录完成状态，并避免未处理的拒绝
+          void completion
+            .then(report =>
+              console.log(`Load test ${reportId} ${report.status}: ${report.iterations} iterations`)
+            )
+            .catch(error => console.error(`Load test ${reportId} failed:`, error));
+          return { reportId, status: 'running' };
+        }
+        return { reportId, report: await completion };
+      })
+  );
+
+  // 注册工具：停止执行中的负载测试
+  server.tool(
+    'stop-load-test',
+    {
+      reportId: z.string().describe('负载测试报告ID'),
+    },
+    ({ reportId }) =>
+      runBrowserTool(() => {
+        loadTests.stopLoadTest(reportId);
+        return Promise.resolve({ reportId });
+      })
+  );
+
+  // 注册工具：从API规范文档生成测试用例
+  server.tool(
+    'generate-tests-from-spec',
+    {
+      specPath: z.string().describe('API规范文档路径'),
+      format: z
+        .enum(['openapi', 'swagger', 'apifox', 'postman', 'auto'])
+        .optional()
+        .describe('API规范格式'),
+      environmentPath: z.string().optional().describe('Postman环境文件路径'),
+    },
+    async params => {
+      try {
+        // 使用ApiTestingService的generateTestsFromSpec方法从规范生成测试用例
+        const testSuiteId = await apiTesting.generateTestsFromSpec(
+          params.specPath,
+          (params.format as ApiDocFormat) || 'auto',
+          { environmentPath: params.environmentPath }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                testSuiteId,
+                message: `成功从${params.format || 'auto'}规范生成测试套件`,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
       }
+    }
+  );
 
-      // 获取测试套件
-      const testSuite = await testGenerator.getTestCases(testSuiteId);
-      // 从测试套件的测试用例数组中找到匹配的测试用例
-      const testCase = testSuite.testCases.find(tc => tc.id === testCaseId);
+  // 注册工具：根据API规范启动模拟服务器
+  server.tool(
+    'start-mock-server',
+    {
+      specId: z.string().optional().describe('已导入的API规范ID'),
+      specPath: z.string().optional().describe('API规范文档路径，未提供specId时使用'),
+      format: z
+        .enum(['openapi', 'swagger', 'apifox', 'postman', 'auto'])
+        .optional()
+        .describe('API规范格式'),
+      port: z.number().optional().describe('监听端口，0表示随机端口'),
+      basePath: z.string().optional().describe('路由路径前缀，默认使用规范中的baseUrl路径'),
+      delay: z.number().optional().describe('响应延迟（毫秒）'),
+      cors: z.boolean().optional().describe('是否启用CORS，默认启用'),
+      useExamples: z.boolean().optional().describe('是否优先使用文档中的示例响应，默认启用'),
+    },
+    async params => {
+      try {
+        if (!params.specId && !params.specPath) {
+          throw new Error('specId or specPath is required');
+        }
+
+        const apiSpec = params.specId
+          ? apiTesting.getApiSpec(params.specId)
+          : await apiTesting.importApiSpec(
+              params.specPath as string,
+              (params.format as ApiDocFormat) || 'auto'
+            );
+
+        const mockServer = await mockServerService.start(apiSpec, {
+          port: params.port,
+          baseUrl: params.basePath,
+          delay: params.delay,
+          cors: params.cors,
+          mockDataOptions: { useExamples: params.useExamples ?? true },
+        });
 
-      if (!testCase) {
-        throw new Error(`Test case not found: ${testCaseId}`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, ...mockServer }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
       }
+    }
+  );
 
+  // 注册工具：停止模拟服务器
+  server.tool(
+    'stop-mock-server',
+    {
+      serverId: z.string().optional().describe('模拟服务器ID，不提供时停止所有模拟服务器'),
+    },
+    async params => {
+      try {
+        if (params.serverId) {
+          await mockServerService.stop(params.serverId);
+        } else {
+          await mockServerService.stopAll();
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, servers: mockServerService.list() }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // 注册工具：列出运行中的模拟服务器
+  server.tool('list-mock-servers', {}, () => ({
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ success: true, servers: mockServerService.list() }),
+      },
+    ],
+  }));
+
+  // 注册资源模板：获取测试报告，可列出test-results目录中的全部报告
+  server.resource(
+    'test-report',
+    new ResourceTemplate('report://{reportId}', {
+      list: () => ({
+        resources: testExecution.listReports().map(report => ({
+          uri: `report://${report.id}`,
+          name: `${REPORT_TYPE_NAMES[report.type]} ${report.id}`,
+          description: report.testSuiteId
+            ? `Suite ${report.testSuiteId}, ${report.passed ? 'passed' : 'failed'}, ${report.timestamp}`
+            : report.timestamp,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        reportId: value =>
+          testExecution
+            .listReports()
+            .map(report => report.id)
+            .filter(id => id.startsWith(value)),
+      },
+    }),
+    { mimeType: 'application/json' },
+    async (uri, { reportId }) => {
+      try {
+        const report = await testExecution.getReport(String(reportId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get test report: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取某次测试执行采集的控制台日志
+  server.resource(
+    'test-report-console-logs',
+    new ResourceTemplate('report://{reportId}/console-logs', { list: undefined }),
+    { mimeType: 'application/json' },
+    async (uri, { reportId }) => {
+      try {
+        const report = await testExecution.getReport(String(reportId));
+        if (!('consoleMessages' in report)) {
+          throw new Error(`Report ${String(reportId)} has no console logs`);
+        }
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(report.consoleMessages, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get console logs: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取某次测试执行采集的网络请求
+  server.resource(
+    'test-report-network-requests',
+    new ResourceTemplate('report://{reportId}/network-requests', { list: undefined }),
+    { mimeType: 'application/json' },
+    async (uri, { reportId }) => {
+      try {
+        const report = await testExecution.getReport(String(reportId));
+        if (!('networkRequests' in report)) {
+          throw new Error(`Report ${String(reportId)} has no network requests`);
+        }
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(report.networkRequests, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get network requests: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取负载测试报告，执行中的测试返回截至当前的统计
+  server.resource(
+    'load-test-report',
+    new ResourceTemplate('load-report://{reportId}', {
+      list: () => ({
+        resources: loadTests.listReports().map(report => ({
+          uri: `load-report://${report.id}`,
+          name: `Load test ${report.testSuiteId}`,
+          description: `${report.status}, ${report.startTime}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { mimeType: 'application/json' },
+    (uri, { reportId }) => {
+      try {
+        const report = loadTests.getReport(String(reportId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get load test report: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取API测试报告
+  server.resource(
+    'api-test-report',
+    new ResourceTemplate('api-report://{reportId}', {
+      list: () => ({
+        resources: apiTesting.listReports().map(report => ({
+          uri: `api-report://${report.id}`,
+          name: `API test report ${report.id}`,
+          description: `Suite ${report.testSuiteId}, ${report.passed ? 'passed' : 'failed'}, ${report.startTime}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        reportId: value =>
+          apiTesting
+            .listReports()
+            .map(report => report.id)
+            .filter(id => id.startsWith(value)),
+      },
+    }),
+    { mimeType: 'application/json' },
+    (uri, { reportId }) => {
+      try {
+        const report = apiTesting.getReport(String(reportId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get API test report: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试执行录制的HAR
+  server.resource(
+    'har',
+    new ResourceTemplate('har://{reportId}', {
+      list: () => ({
+        resources: testExecution
+          .listReports()
+          .filter(report => report.harPath && fs.existsSync(report.harPath))
+          .map(report => ({
+            uri: `har://${report.id}`,
+            name: `HAR ${report.id}`,
+            description: `Recorded by report ${report.id}, ${report.timestamp}`,
+            mimeType: 'application/json',
+          })),
+      }),
+    }),
+    { mimeType: 'application/json' },
+    (uri, { reportId }) => {
+      try {
+        const harPath = testExecution.getHarPath(String(reportId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: fs.readFileSync(harPath, 'utf-8'),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get HAR: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试用例录制的Playwright跟踪，可用 npx playwright show-trace 打开
+  server.resource(
+    'trace',
+    new ResourceTemplate('trace://{reportId}/{testCaseId}', {
+      list: () => ({
+        resources: testExecution.listArtifacts('trace').map(artifact => ({
+          uri: `trace://${artifact.reportId}/${artifact.testCaseId}`,
+          name: `Trace ${artifact.testCaseId}`,
+          description: `Recorded by report ${artifact.reportId}, ${artifact.timestamp}`,
+          mimeType: 'application/zip',
+        })),
+      }),
+    }),
+    { mimeType: 'application/zip' },
+    (uri, { reportId, testCaseId }) => {
+      try {
+        const tracePath = testExecution.getArtifactPath(
+          String(reportId),
+          String(testCaseId),
+          'trace'
+        );
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/zip',
+              blob: fs.readFileSync(tracePath).toString('base64'),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get trace: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试用例录制的视频
+  server.resource(
+    'video',
+    new ResourceTemplate('video://{reportId}/{testCaseId}', {
+      list: () => ({
+        resources: testExecution.listArtifacts('video').map(artifact => ({
+          uri: `video://${artifact.reportId}/${artifact.testCaseId}`,
+          name: `Video ${artifact.testCaseId}`,
+          description: `Recorded by report ${artifact.reportId}, ${artifact.timestamp}`,
+          mimeType: 'video/webm',
+        })),
+      }),
+    }),
+    { mimeType: 'video/webm' },
+    (uri, { reportId, testCaseId }) => {
+      try {
+        const videoPath = testExecution.getArtifactPath(
+          String(reportId),
+          String(testCaseId),
+          'video'
+        );
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'video/webm',
+              blob: fs.readFileSync(videoPath).toString('base64'),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get video: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试套件最近多次执行中各页面的性能指标趋势
+  server.resource(
+    'performance-trend',
+    new ResourceTemplate('performance://{suiteId}', {
+      list: () => ({
+        resources: testExecution.listPerformanceSuites().map(suiteId => ({
+          uri: `performance://${suiteId}`,
+          name: `Performance trend ${suiteId}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { mimeType: 'application/json' },
+    (uri, { suiteId }) => {
+      try {
+        const trend = testExecution.getPerformanceTrend(String(suiteId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(trend, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get performance trend: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试套件，可列出test-suites目录中的全部套件
+  server.resource(
+    'test-suite',
+    new ResourceTemplate('suite://{suiteId}', {
+      list: () => ({
+        resources: testGenerator.listTestSuites().map(testSuite => ({
+          uri: `suite://${testSuite.id}`,
+          name: testSuite.name,
+          description:
+            `${testSuite.testCases.length} test cases. ${testSuite.description || ''}`.trim(),
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        suiteId: value =>
+          testGenerator
+            .listTestSuites()
+            .map(testSuite => testSuite.id)
+            .filter(id => id.startsWith(value)),
+      },
+    }),
+    { mimeType: 'application/json' },
+    async (uri, { suiteId }) => {
+      try {
+        const testSuite = await testGenerator.getTestCases(String(suiteId));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(testSuite, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get test suite: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源模板：获取测试用例，可列出所有套件中的测试用例
+  server.resource(
+    'test-case',
+    new ResourceTemplate('suite://{suiteId}/case/{caseId}', {
+      list: () => ({
+        resources: testGenerator.listTestSuites().flatMap(testSuite =>
+          testSuite.testCases.map(testCase => ({
+            uri: `suite://${testSuite.id}/case/${testCase.id}`,
+            name: testCase.name,
+            description: `${testSuite.name} / ${testCase.name}`,
+            mimeType: 'application/json',
+          }))
+        ),
+      }),
+    }),
+    { mimeType: 'application/json' },
+    async (uri, { suiteId, caseId }) => {
+      try {
+        // 获取测试套件
+        const testSuite = await testGenerator.getTestCases(String(suiteId));
+        // 从测试套件的测试用例数组中找到匹配的测试用例
+        const testCase = testSuite.testCases.find(tc => tc.id === String(caseId));
+
+        if (!testCase) {
+          throw new Error(`Test case not found: ${String(caseId)}`);
+        }
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(testCase, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get test case: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  // 注册资源：获取当前浏览器的控制台日志
+  server.resource('console-logs', 'browser://console-logs', async uri => {
+    try {
+      const logs = await playwrightService.getConsoleLogs();
       return {
         contents: [
           {
             uri: uri.href,
-            text: JSON.stringify(testCase, null, 2),
+            text: JSON.stringify(logs, null, 2),
           },
         ],
       };
     } catch (error) {
       throw new Error(
-        `Failed to get test case: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get console logs: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   });
 
-  // 注册资源：获取控制台日志
-  server.resource('console-logs', 'console-logs', async uri => {
+  // 注册资源：获取当前浏览器打开的页面（包括弹窗和新标签页）
+  server.resource('pages', 'browser://pages', async uri => {
     try {
-      const logs = await playwrightService.getConsoleLogs();
+      const pages = await playwrightService.listPages();
       return {
         contents: [
           {
             uri: uri.href,
-            text: JSON.stringify(logs, null, 2),
+            text: JSON.stringify(pages, null, 2),
           },
         ],
       };
     } catch (error) {
       throw new Error(
-        `Failed to get console logs: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to list pages: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   });
 
-  // 注册资源：获取网络请求
-  server.resource('network-requests', 'network-requests', async uri => {
+  // 注册资源：获取当前浏览器的网络请求
+  server.resource('network-requests', 'browser://network-requests', async uri => {
     try {
       const requests = await playwrightService.getNetworkRequests();
       return {
@@ -0,0 +1,126 @@
+/**
+ * @file API边界与异常用例生成测试
+ */
+import { describe, it, expect } from 'vitest';
+import { generateSchemaTestCases } from './api-case-generator';
+import type { ApiRequestData, ApiSpec } from './api-testing-service';
+import type * as core from '../types/core';
+
+const apiSpec: ApiSpec = {
+  id: 'spec1',
+  title: 'Users',
+  version: '1.0.0',
+  securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+  endpoints: [
+    {
+      path: '/users/{orgId}',
+      method: 'POST',
+      summary: 'Create user',
+      security: ['bearerAuth'],
+      parameters: [
+        { name: 'orgId', in: 'path', required: true, schema: { type: 'integer' }, example: 3 },
+        { name: 'dryRun', in: 'query', required: true, schema: { type: 'boolean' } },
+      ],
+      requestContentType: 'application/json',
+      requestBodyRequired: true,
+      requestSchema: {
+        type: 'object',
+        required: ['name', 'age'],
+        properties: {
+          name: { type: 'string', minLength: 2, maxLength: 5 },
+          age: { type: 'integer', minimum: 18, maximum: 99 },
+          role: { type: 'string', enum: ['admin', 'user'] },
+        },
+      },
+      responseSchemas: { '201': undefined, '400': undefined, '401': undefined },
+    },
+    { path: '/health', method: 'GET', summary: 'Health check' },
+  ],
+};
+
+function requestOf(testCase: core.TestCase): { path: string; data: ApiRequestData } {
+  const [step] = testCase.steps;
+  return {
+    path: step.selector || '',
+    data: JSON.parse(step.value || '{}') as ApiRequestData,
+  };
+}
+
+function caseNamed(testCases: core.TestCase[], title: string): core.TestCase {
+  const testCase = testCases.find(candidate => candidate.name?.endsWith(`: ${title}`));
+  expect(testCase, title).toBeDefined();
+  return testCase as core.TestCase;
+}
+
+describe('API边界与异常用例生成', () => {
+  const testCases = generateSchemaTestCases(apiSpec);
+
+  it('正常请求应当填充路径参数、必填查询参数、认证与合法请求体', () => {
+    const valid = caseNamed(testCases, 'valid request');
+    const { path, data } = requestOf(valid);
+
+    expect(valid.id).toBe('post-users-orgid-1');
+    expect(path).toBe('/users/3?dryRun=true');
+    expect(data).toMatchObject({
+      method: 'POST',
+      headers: { Authorization: 'Bearer {{token}}' },
+      expectedStatus: 201,
+    });
+    expect(data.body).toMatchObject({ name: expect.any(String), age: 18 });
+  });
+
+  it('异常用例应当使用规范中声明的4xx状态码', () => {
+    expect(requestOf(caseNamed(testCases, 'missing authentication')).data).toMatchObject({
+      expectedStatus: 401,
+    });
+    expect(
+      requestOf(caseNamed(testCases, 'missing authentication')).data.headers
+    ).not.toHaveProperty('Authorization');
+
+    const malformed = requestOf(caseNamed(testCases, 'malformed JSON body')).data;
+    expect(malformed.expectedStatus).toBe(400);
+    expect(() => JSON.parse(malformed.rawBody || '')).toThrow();
+
+    expect(requestOf(caseNamed(testCases, 'missing request body')).data.body).toBeUndefined();
+    expect(requestOf(caseNamed(testCases, 'missing required query parameter "dryRun"')).path).toBe(
+      '/users/3'
+    );
+  });
+
+  it('应当为字段生成缺失、类型、长度、范围与枚举用例', () => {
+    const bodyOf = (title: string) =>
+      requestOf(caseNamed(testCases, title)).data.body as Record<string, unknown>;
+
+    expect(bodyOf('missing required field "name"')).not.toHaveProperty('name');
+    expect(bodyOf('wrong type for "age" (expected integer)').age).toBe('not-a-number');
+    expect(bodyOf('"name" shorter than minLength 2').name).toBe('x');
+    expect(bodyOf('"name" longer than maxLength 5').name).toBe('xxxxxx');
+    expect(bodyOf('"age" below minimum 18').age).toBe(17);
+    expect(bodyOf('"age" above maximum 99').age).toBe(100);
+    expect(bodyOf('invalid enum value for "role"').role).toBe('INVALID_ENUM_VALUE');
+
+    // 边界值是合法请求，期望成功状态码
+    const boundary = requestOf(caseNamed(testCases, '"age" at maximum 99')).data;
+    expect(boundary.body).toMatchObject({ age: 99 });
+    expect(boundary.expectedStatus).toBe(201);
+  });
+
+  it('没有声明状态码时应当断言状态码范围', () => {
+    const [health] = testCases.filter(testCase => testCase.id.startsWith('get-health'));
+    const { data } = requestOf(health);
+
+    expect(data.expectedStatus).toBeUndefined();
+    expect(data.assertions).toEqual([
+      { type: 'status', operator: '>=', value: 200 },
+      { type: 'status', operator: '<=', value: 299 },
+    ]);
+  });
+
+  it('应当可以只生成异常用例，且结果确定', () => {
+    const negative = generateSchemaTestCases(apiSpec, { includePositive: false });
+
+    expect(negative.every(testCase => testCase.name?.startsWith('[negative]'))).toBe(true);
+    expect(negative.some(testCase => testCase.id.startsWith('get-health'))).toBe(false);
+    expect(generateSchemaTestCases(apiSpec)).toEqual(testCases);
+  });
+});
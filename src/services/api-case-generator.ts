@@ -0,0 +1,592 @@
+/**
+ * @file API边界与异常用例生成
+ * @description 不依赖LLM，按端点的请求架构确定性地生成正常、边界与异常用例：缺少必填字段、类型错误、
+ * 长度与范围越界、非法枚举值、格式错误的JSON以及缺少认证，期望状态码取自规范中声明的响应
+ */
+
+import type * as core from '../types/core';
+import type { ApiEndpoint, ApiParameter, ApiRequestData, ApiSpec } from './api-testing-service';
+import { SchemaBasedGenerator } from './mock-generators';
+import { pickSuccessStatus } from './parsers/base-parser';
+
+type Schema = Record<string, unknown>;
+
+/**
+ * 生成选项
+ */
+export interface SchemaTestCaseOptions {
+  // 是否为每个端点生成正常请求与边界值用例，默认生成
+  includePositive?: boolean;
+  // 每个端点最多生成的用例数，超出时舍弃靠后的字段级用例
+  maxCasesPerEndpoint?: number;
+}
+
+// 用例类别：positive 为正常请求，boundary 为取边界值的合法请求，negative 为应被拒绝的请求
+type CaseKind = 'positive' | 'boundary' | 'negative';
+
+// 请求体中单个字段的变化
+interface BodyMutation {
+  kind: CaseKind;
+  title: string;
+  path: string[];
+  // 为 true 时删除该字段，否则替换为 value
+  remove?: boolean;
+  value?: unknown;
+}
+
+// 用例的请求，path 已替换路径参数并附加查询参数
+interface CaseRequest {
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  rawBody?: string;
+}
+
+const DEFAULT_MAX_CASES_PER_ENDPOINT = 40;
+// 嵌套对象只检查到该深度，避免大型架构生成过多用例
+const MAX_FIELD_DEPTH = 3;
+// 校验失败通常返回的状态码，按顺序匹配规范中声明的状态码
+const VALIDATION_STATUSES = [400, 422];
+const AUTH_STATUSES = [401, 403];
+const MALFORMED_JSON = '{"malformed": ';
+
+const dataGenerator = new SchemaBasedGenerator({ useExamples: true });
+
+/**
+ * 为API规范中的每个端点生成正常、边界与异常用例
+ * @param apiSpec API规范
+ * @param options 生成选项
+ * @returns 测试用例，ID由方法、路径与序号组成，相同的规范总是得到相同的用例
+ */
+export function generateSchemaTestCases(
+  apiSpec: ApiSpec,
+  options: SchemaTestCaseOptions = {}
+): core.TestCase[] {
+  const maxCases = options.maxCasesPerEndpoint ?? DEFAULT_MAX_CASES_PER_ENDPOINT;
+
+  return apiSpec.endpoints.flatMap(endpoint => {
+    const cases = buildEndpointCases(apiSpec, endpoint).filter(
+      ({ kind }) => options.includePositive !== false || kind === 'negative'
+    );
+    if (cases.length > maxCases) {
+      console.warn(
+        `Generated ${cases.length} cases for ${endpoint.method} ${endpoint.path}, keeping the first ${maxCases}`
+      );
+    }
+
+    const idPrefix = `${endpoint.method}-${endpoint.path}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return cases.slice(0, maxCases).map(({ kind, title, request, expectation }, index) => {
+      const id = `${idPrefix}-${index + 1}`;
+      const method = endpoint.method.toUpperCase();
+      const requestData: ApiRequestData = {
+        method,
+        headers: request.headers,
+        body: request.body,
+        rawBody: request.rawBody,
+        expectedStatus: expectation.expectedStatus,
+        assertions: expectation.assertions,
+      };
+
+      return {
+        id,
+        name: `[${kind}] ${method} ${endpoint.path}: ${title}`,
+        description: `${endpoint.summary || `${method} ${endpoint.path}`} - ${title}`,
+        steps: [
+          {
+            id: `${id}-1`,
+            description: `发送 ${method} 请求到 ${request.path}，期望${expectation.text}`,
+            action: 'request',
+            selector: request.path,
+            value: JSON.stringify(requestData),
+          },
+        ],
+      };
+    });
+  });
+}
+
+/**
+ * 生成单个端点的全部用例，正常请求在前，其次是认证、请求体与参数相关的用例
+ */
+function buildEndpointCases(
+  apiSpec: ApiSpec,
+  endpoint: ApiEndpoint
+): Array<{
+  kind: CaseKind;
+  title: string;
+  request: CaseRequest;
+  expectation: ReturnType<typeof expectStatus>;
+}> {
+  const declared = Object.keys(endpoint.responseSchemas || {});
+  const success = expectSuccess(declared);
+  const rejected = expectStatus(declared, VALIDATION_STATUSES, [400, 499]);
+  const auth = buildAuth(apiSpec, endpoint);
+  const parameters = (endpoint.parameters || []).filter(parameter => parameter.in !== 'cookie');
+  const hasJsonBody =
+    endpoint.requestSchema !== undefined &&
+    (!endpoint.requestContentType || /json/i.test(endpoint.requestContentType));
+  const body = hasJsonBody ? dataGenerator.generate(endpoint.requestSchema) : undefined;
+
+  const request = (
+    overrides: { body?: unknown; omitParameter?: string; withoutAuth?: boolean } = {}
+  ): CaseRequest => {
+    const values = parameters.filter(parameter => parameter.name !== overrides.omitParameter);
+    return buildRequest(endpoint, values, overrides.withoutAuth ? undefined : auth, {
+      body: 'body' in overrides ? overrides.body : body,
+    });
+  };
+
+  const cases: ReturnType<typeof buildEndpointCases> = [
+    { kind: 'positive', title: 'valid request', request: request(), expectation: success },
+  ];
+
+  if (auth) {
+    cases.push({
+      kind: 'negative',
+      title: 'missing authentication',
+      request: request({ withoutAuth: true }),
+      expectation: expectStatus(declared, AUTH_STATUSES, [401, 403]),
+    });
+  }
+
+  if (hasJsonBody) {
+    cases.push({
+      kind: 'negative',
+      title: 'malformed JSON body',
+      request: withRawBody(request({ body: undefined }), MALFORMED_JSON),
+      expectation: rejected,
+    });
+    if (endpoint.requestBodyRequired) {
+      cases.push({
+        kind: 'negative',
+        title: 'missing request body',
+        request: request({ body: undefined }),
+        expectation: rejected,
+      });
+    }
+
+    for (const mutation of collectMutations(endpoint.requestSchema, [], false, 0)) {
+      cases.push({
+        kind: mutation.kind,
+        title: mutation.title,
+        request: request({ body: applyMutation(body, mutation) }),
+        expectation: mutation.kind === 'boundary' ? success : rejected,
+      });
+    }
+  }
+
+  for (const parameter of parameters) {
+    if (parameter.required && parameter.in !== 'path') {
+      cases.push({
+        kind: 'negative',
+        title: `missing required ${parameter.in} parameter "${parameter.name}"`,
+        request: request({ omitParameter: parameter.name }),
+        expectation: rejected,
+      });
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * 收集请求体中各字段的边界与异常变化
+ * @param schema 字段的架构
+ * @param path 字段路径，请求体本身为空数组
+ * @param required 字段是否必填
+ * @param depth 嵌套深度
+ */
+function collectMutations(
+  schema: unknown,
+  path: string[],
+  required: boolean,
+  depth: number
+): BodyMutation[] {
+  const s = normalizeSchema(schema);
+  if (!s) {
+    return [];
+  }
+
+  const label = path.join('.');
+  const type = schemaType(s);
+  const mutations: BodyMutation[] = [];
+  // 有格式或正则约束时，重复字符构造的边界值可能不合法，只生成异常用例
+  const canBuildValid = s.format === undefined && s.pattern === undefined;
+
+  if (path.length > 0) {
+    if (required) {
+      mutations.push({
+        kind: 'negative',
+        title: `missing required field "${label}"`,
+        path,
+        remove: true,
+      });
+    }
+    if (type) {
+      mutations.push({
+        kind: 'negative',
+        title: `wrong type for "${label}" (expected ${type})`,
+        path,
+        value: wrongTypeValue(type),
+      });
+    }
+    if (Array.isArray(s.enum) && s.enum.length > 0) {
+      mutations.push({
+        kind: 'negative',
+        title: `invalid enum value for "${label}"`,
+        path,
+        value: invalidEnumValue(s.enum),
+      });
+      // 枚举字段的长度与范围约束没有意义
+      return mutations;
+    }
+  }
+
+  if (type === 'string') {
+    const { minLength, maxLength } = s;
+    if (typeof minLength === 'number' && minLength > 0) {
+      mutations.push({
+        kind: 'negative',
+        title: `"${label}" shorter than minLength ${minLength}`,
+        path,
+        value: 'x'.repeat(minLength - 1),
+      });
+      if (canBuildValid) {
+        mutations.push({
+          kind: 'boundary',
+          title: `"${label}" at minLength ${minLength}`,
+          path,
+          value: 'x'.repeat(minLength),
+        });
+      }
+    }
+    if (typeof maxLength === 'number') {
+      mutations.push({
+        kind: 'negative',
+        title: `"${label}" longer than maxLength ${maxLength}`,
+        path,
+        value: 'x'.repeat(maxLength + 1),
+      });
+      if (canBuildValid && maxLength > 0) {
+        mutations.push({
+          kind: 'boundary',
+          title: `"${label}" at maxLength ${maxLength}`,
+          path,
+          value: 'x'.repeat(maxLength),
+        });
+      }
+    }
+  } else if (type === 'integer' || type === 'number') {
+    mutations.push(...rangeMutations(s, path, label, type === 'integer' ? 1 : 0.01));
+  } else if (type === 'array') {
+    const item = dataGenerator.generate(s.items);
+    const { minItems, maxItems } = s;
+    if (typeof minItems === 'number' && minItems > 0) {
+      mutations.push({
+        kind: 'negative',
+        title: `"${label || 'body'}" with fewer than minItems ${minItems}`,
+        path,
+        value: Array.from({ length: minItems - 1 }, () => item),
+      });
+    }
+    if (typeof maxItems === 'number') {
+      mutations.push({
+        kind: 'negative',
+        title: `"${label || 'body'}" with more than maxItems ${maxItems}`,
+        path,
+        value: Array.from({ length: maxItems + 1 }, () => item),
+      });
+      if (maxItems > 0) {
+        mutations.push({
+          kind: 'boundary',
+          title: `"${label || 'body'}" at maxItems ${maxItems}`,
+          path,
+          value: Array.from({ length: maxItems }, () => item),
+        });
+      }
+    }
+  } else if (type === 'object' && depth < MAX_FIELD_DEPTH) {
+    const properties = (s.properties || {}) as Record<string, unknown>;
+    const requiredFields = Array.isArray(s.required) ? (s.required as string[]) : [];
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      mutations.push(
+        ...collectMutations(
+          propertySchema,
+          [...path, name],
+          requiredFields.includes(name),
+          depth + 1
+        )
+      );
+    }
+  }
+
+  return mutations;
+}
+
+/**
+ * 生成数值字段的越界与边界值，兼容布尔与数值形式的 exclusiveMinimum/exclusiveMaximum
+ */
+function rangeMutations(s: Schema, path: string[], label: string, step: number): BodyMutation[] {
+  const mutations: BodyMutation[] = [];
+  const round = (value: number) => Number(value.toFixed(2));
+  const bounds: Array<{ name: string; bound: unknown; exclusive: unknown; direction: 1 | -1 }> = [
+    { name: 'minimum', bound: s.minimum, exclusive: s.exclusiveMinimum, direction: -1 },
+    { name: 'maximum', bound: s.maximum, exclusive: s.exclusiveMaximum, direction: 1 },
+  ];
+
+  for (const { name, bound, exclusive, direction } of bounds) {
+    const limit = typeof exclusive === 'number' ? exclusive : bound;
+    if (typeof limit !== 'number') {
+      continue;
+    }
+    const isExclusive = typeof exclusive === 'number' || exclusive === true;
+    mutations.push(
+      {
+        kind: 'negative',
+        title: `"${label}" ${direction < 0 ? 'below' : 'above'} ${name} ${limit}`,
+        path,
+        value: isExclusive ? limit : round(limit + direction * step),
+      },
+      {
+        kind: 'boundary',
+        title: `"${label}" at ${name} ${limit}${isExclusive ? ' (exclusive)' : ''}`,
+        path,
+        value: isExclusive ? round(limit - direction * step) : limit,
+      }
+    );
+  }
+
+  return mutations;
+}
+
+/**
+ * 合并 allOf，oneOf/anyOf 取第一个备选，无法解析的引用返回空
+ */
+function normalizeSchema(schema: unknown): Schema | undefined {
+  if (schema === null || typeof schema !== 'object' || '$ref' in schema) {
+    return undefined;
+  }
+
+  const s = schema as Schema;
+  if (Array.isArray(s.allOf)) {
+    const parts = (s.allOf as unknown[])
+      .map(normalizeSchema)
+      .filter((part): part is Schema => !!part);
+    return parts.reduce<Schema>(
+      (merged, part) => ({
+        ...merged,
+        ...part,
+        properties: { ...(merged.properties as Schema), ...(part.properties as Schema) },
+        required: [
+          ...((merged.required as string[]) || []),
+          ...((part.required as string[]) || []),
+        ],
+      }),
+      { type: 'object' }
+    );
+  }
+  const alternatives = (s.oneOf || s.anyOf) as unknown[] | undefined;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    return normalizeSchema(alternatives[0]);
+  }
+  return s;
+}
+
+function schemaType(s: Schema): string | undefined {
+  if (typeof s.type === 'string') {
+    return s.type;
+  }
+  if (Array.isArray(s.type)) {
+    return (s.type as string[]).find(type => type !== 'null');
+  }
+  if (s.properties) {
+    return 'object';
+  }
+  return s.items ? 'array' : undefined;
+}
+
+/**
+ * 与期望类型不同的值
+ */
+function wrongTypeValue(type: string): unknown {
+  switch (type) {
+    case 'string':
+      return 12345;
+    case 'integer':
+    case 'number':
+      return 'not-a-number';
+    case 'boolean':
+      return 'not-a-boolean';
+    case 'array':
+      return 'not-an-array';
+    default:
+      return 'not-an-object';
+  }
+}
+
+/**
+ * 不在枚举中的值，与枚举值类型相同
+ */
+function invalidEnumValue(values: unknown[]): unknown {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (numbers.length === values.length) {
+    return Math.max(...numbers) + 1;
+  }
+  let candidate = 'INVALID_ENUM_VALUE';
+  while (values.includes(candidate)) {
+    candidate += '_X';
+  }
+  return candidate;
+}
+
+/**
+ * 在请求体的副本上应用字段变化
+ */
+function applyMutation(body: unknown, mutation: BodyMutation): unknown {
+  if (mutation.path.length === 0) {
+    return mutation.value;
+  }
+
+  const copy = JSON.parse(JSON.stringify(body ?? {})) as Record<string, unknown>;
+  let target = copy;
+  for (const key of mutation.path.slice(0, -1)) {
+    if (target[key] === null || typeof target[key] !== 'object') {
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  }
+
+  const field = mutation.path[mutation.path.length - 1];
+  if (mutation.remove) {
+    delete target[field];
+  } else {
+    target[field] = mutation.value;
+  }
+  return copy;
+}
+
+/**
+ * 以原样的请求体替换请求体，并声明为JSON
+ */
+function withRawBody(request: CaseRequest, rawBody: string): CaseRequest {
+  return {
+    ...request,
+    headers: { ...request.headers, 'Content-Type': 'application/json' },
+    rawBody,
+  };
+}
+
+/**
+ * 按端点要求的第一个安全方案生成认证请求头或查询参数，凭据以 {{token}}、{{apiKey}} 等变量表示
+ */
+function buildAuth(
+  apiSpec: ApiSpec,
+  endpoint: ApiEndpoint
+): { headers: Record<string, string>; query: Record<string, string> } | undefined {
+  const [schemeName] = endpoint.security || [];
+  if (!schemeName) {
+    return undefined;
+  }
+
+  const scheme = (apiSpec.securitySchemes?.[schemeName] || {}) as Schema;
+  const type = String(scheme.type || '').toLowerCase();
+  const httpScheme = String(scheme.scheme || '').toLowerCase();
+
+  if (type === 'apikey' && typeof scheme.name === 'string') {
+    if (scheme.in === 'query') {
+      return { headers: {}, query: { [scheme.name]: '{{apiKey}}' } };
+    }
+    if (scheme.in === 'cookie') {
+      return { headers: { Cookie: `${scheme.name}={{apiKey}}` }, query: {} };
+    }
+    return { headers: { [scheme.name]: '{{apiKey}}' }, query: {} };
+  }
+  if (type === 'basic' || (type === 'http' && httpScheme === 'basic')) {
+    return { headers: { Authorization: 'Basic {{basicAuth}}' }, query: {} };
+  }
+  // bearer、oauth2、openIdConnect 以及未声明的方案均使用 Bearer 令牌
+  return { headers: { Authorization: 'Bearer {{token}}' }, query: {} };
+}
+
+/**
+ * 构造请求：替换路径参数，附加必填的查询参数与请求头
+ */
+function buildRequest(
+  endpoint: ApiEndpoint,
+  parameters: ApiParameter[],
+  auth: { headers: Record<string, string>; query: Record<string, string> } | undefined,
+  options: { body?: unknown }
+): CaseRequest {
+  const valueOf = (parameter: ApiParameter) =>
+    String(
+      parameter.example ??
+        dataGenerator.generate(parameter.schema ?? { type: 'string' }, {}) ??
+        parameter.name
+    );
+
+  let path = endpoint.path;
+  const query = new URLSearchParams(auth?.query);
+  const headers: Record<string, string> = { Accept: 'application/json', ...auth?.headers };
+
+  for (const parameter of parameters) {
+    if (parameter.in === 'path') {
+      path = path.replace(`{${parameter.name}}`, encodeURIComponent(valueOf(parameter)));
+    } else if (parameter.required && parameter.in === 'query') {
+      query.set(parameter.name, valueOf(parameter));
+    } else if (parameter.required && parameter.in === 'header') {
+      headers[parameter.name] = valueOf(parameter);
+    }
+  }
+
+  const queryString = query.toString().replace(/%7B%7B(\w+)%7D%7D/g, '{{$1}}');
+  return {
+    path: queryString ? `${path}?${queryString}` : path,
+    headers,
+    body: options.body,
+  };
+}
+
+/**
+ * 正常请求期望规范中的成功状态码
+ */
+function expectSuccess(declared: string[]): ReturnType<typeof expectStatus> {
+  const success = pickSuccessStatus(declared);
+  if (success && /^\d{3}$/.test(success)) {
+    return { expectedStatus: Number(success), text: `状态码 ${success}` };
+  }
+  return rangeExpectation(200, 299);
+}
+
+/**
+ * 按顺序取规范中声明的状态码作为期望，没有声明时断言状态码在范围内
+ * @param declared 规范中声明的状态码
+ * @param preferred 按优先级排列的候选状态码
+ * @param range 没有声明候选状态码时允许的范围
+ */
+function expectStatus(
+  declared: string[],
+  preferred: number[],
+  range: [number, number]
+): { expectedStatus?: number; assertions?: core.ApiAssertion[]; text: string } {
+  const status = preferred.find(code => declared.includes(String(code)));
+  if (status !== undefined) {
+    return { expectedStatus: status, text: `状态码 ${status}` };
+  }
+  return rangeExpectation(range[0], range[1]);
+}
+
+function rangeExpectation(
+  min: number,
+  max: number
+): { assertions: core.ApiAssertion[]; text: string } {
+  return {
+    assertions: [
+      { type: 'status', operator: '>=', value: min },
+      { type: 'status', operator: '<=', value: max },
+    ],
+    text: `状态码在 ${min}-${max} 之间`,
+  };
+}
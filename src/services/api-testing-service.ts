@@ -3,7 +3,21 @@ import * as path from 'path';
 import { randomUUID } from 'crypto';
 import * as core from '../types/core';
 import { TestGeneratorService } from './test-generator-service';
+import { generateSchemaTestCases } from './api-case-generator';
 import { projectConfig, testConfig } from '../utils/config';
+import { evaluateAssertions } from '../utils/api-assertions';
+import { extractVariables, interpolateVariables } from '../utils/api-variables';
+import { countPathParams, matchPathTemplate } from '../utils/path-template';
+import { SchemaViolation, validateJsonSchema } from '../utils/json-schema-validator';
+import type { APITestingOptions } from '../types';
+import {
+  PostmanCollectionResult,
+  PostmanParser,
+  isPostmanCollection,
+  loadPostmanEnvironment,
+  loadSpecDocument,
+  parseApiDocument,
+} from './parsers';
 
 // 导出ApiTestingService中使用的类型
 export type TestType = 'ui' | 'api';
@@ -55,12 +69,18 @@ interface OpenAPIOperation {
 }
 
 // API测试请求数据接口
-interface ApiRequestData {
+export interface ApiRequestData {
   method?: string;
   headers?: Record<string, string>;
   body?: unknown;
+  // 原样发送的请求体，设置后忽略 body，用于发送表单编码或格式错误的JSON等
+  rawBody?: string;
+  // 以 multipart/form-data 发送的表单字段，设置后忽略 body 与 rawBody
+  formData?: Record<string, string>;
   expectedStatus?: number;
   expectedResponse?: unknown;
+  assertions?: core.ApiAssertion[];
+  extract?: core.ApiVariableExtraction[];
 }
 
 // API模拟响应接口
@@ -70,15 +90,35 @@ interface ApiMockResponse {
   response: unknown;
 }
 
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: unknown;
+  example?: unknown;
+}
+
 export interface ApiEndpoint {
   path: string;
   method: string;
   summary: string;
   description?: string;
+  operationId?: string;
+  tags?: string[];
+  parameters?: ApiParameter[];
+  requestContentType?: string;
+  requestBodyRequired?: boolean;
   requestSchema?: unknown;
   responseSchema?: unknown;
+  // 按状态码索引的响应架构
+  responseSchemas?: Record<string, unknown>;
+  // 架构由示例推断而不是规范声明（如Postman集合），不用于契约校验
+  schemasInferred?: boolean;
   requestExamples?: unknown[];
   responseExamples?: unknown[];
+  // 端点要求的安全方案名称
+  security?: string[];
 }
 
 export interface ApiSpec {
@@ -86,6 +126,8 @@ export interface ApiSpec {
   title: string;
   version: string;
   description?: string;
+  baseUrl?: string;
+  securitySchemes?: Record<string, unknown>;
   endpoints: ApiEndpoint[];
 }
 
@@ -100,19 +142,101 @@ export interface ApiTestCaseResult {
   responseBody: unknown;
   duration: number;
   errors?: Error[];
+  // 未通过的断言，包含期望值与实际值
+  failedAssertions?: core.ApiAssertionResult[];
+  // 响应体与API规范中响应架构不一致之处
+  contractViolations?: SchemaViolation[];
+  // 本步骤从响应中提取的变量
+  extractedVariables?: Record<string, unknown>;
+}
+
+// API测试用例的单次执行
+export interface ApiTestCaseAttempt {
+  // 第几次执行，0 为首次执行
+  attempt: number;
+  passed: boolean;
+  duration: number;
+  results: ApiTestCaseResult[];
+}
+
+// API测试用例汇总，重试后通过的用例记为 flaky
+export interface ApiTestCaseSummary {
+  testCaseId: string;
+  status: 'passed' | 'failed' | 'flaky';
+  attempts: ApiTestCaseAttempt[];
 }
 
 export interface ApiTestResult {
   id: string;
   testSuiteId: string;
   passed: boolean;
+  // 各用例最后一次执行的步骤结果
   results: ApiTestCaseResult[];
+  testCases?: ApiTestCaseSummary[];
   startTime: string;
   endTime: string;
   duration: number;
 }
 
-export type ApiDocFormat = 'openapi' | 'swagger' | 'apifox' | 'auto';
+export type ApiDocFormat = 'openapi' | 'swagger' | 'apifox' | 'postman' | 'auto';
+
+/**
+ * 汇总步骤的断言
+ * expectedStatus/expectedResponse 字段会转换为等价的断言，与 assertions 数组一起执行
+ * @param step 测试步骤
+ * @param requestData 步骤中的请求数据
+ * @returns 断言数组
+ */
+export function collectAssertions(
+  step: core.TestCaseStep,
+  requestData: ApiRequestData
+): core.ApiAssertion[] {
+  const assertions: core.ApiAssertion[] = [];
+
+  const expectedStatus = requestData.expectedStatus ?? step.expectedStatus;
+  if (expectedStatus) {
+    assertions.push({ type: 'status', operator: '=', value: expectedStatus });
+  }
+
+  // expectedResponse 通常是描述性文本，只要求响应体非空
+  if (requestData.expectedResponse) {
+    assertions.push({ type: 'body', operator: '!=', value: null });
+  }
+
+  assertions.push(...(step.assertions || []), ...(requestData.assertions || []));
+
+  return assertions;
+}
+
+/**
+ * 按请求数据生成 fetch 的请求头与请求体
+ * JSON 请求体默认使用 application/json；表单返回字段而不是 FormData，
+ * 以便传入 page.evaluate，由调用方构造 FormData 并让 fetch 生成包含 boundary 的 Content-Type
+ * @param requestData 已替换变量的请求数据
+ * @returns 请求头，以及字符串请求体或表单字段
+ */
+export function buildFetchBody(requestData: ApiRequestData): {
+  headers: Record<string, string>;
+  body?: string;
+  formData?: Record<string, string>;
+} {
+  if (requestData.formData) {
+    const headers = Object.fromEntries(
+      Object.entries(requestData.headers || {}).filter(
+        ([name]) => name.toLowerCase() !== 'content-type'
+      )
+    );
+    const formData = Object.fromEntries(
+      Object.entries(requestData.formData).map(([name, value]) => [name, String(value)])
+    );
+    return { headers, formData };
+  }
+
+  return {
+    headers: { 'Content-Type': 'application/json', ...(requestData.headers || {}) },
+    body: requestData.rawBody ?? (requestData.body ? JSON.stringify(requestData.body) : undefined),
+  };
+}
 
 export class ApiTestingService {
   private apiSpecs: Map<string, ApiSpec> = new Map();
@@ -188,8 +312,8 @@ export class ApiTestingService {
       console.log(`从API规范生成测试用例: ${apiSpecPath}`);
       const apiSpec = fs.readFileSync(apiSpecPath, 'utf-8');
 
-      // Parse OpenAPI spec - simple parsing for demo
-      const specObj = JSON.parse(apiSpec) as OpenAPISpec;
+      // 解析JSON或YAML格式的OpenAPI规范
+      const specObj = loadSpecDocument(apiSpec) as OpenAPISpec;
 
       // Build requirements text based on API spec and options
       const requirementsText = this.buildRequirementsFromSpec(
@@ -354,9 +478,14 @@ export class ApiTestingService {
    * 从规范文件生成API测试用例
    * @param specPath 规范文件路径
    * @param format 规范格式
+   * @param options.environmentPath Postman环境文件路径（仅postman格式使用）
    * @returns 测试套件ID
    */
-  async generateTestsFromSpec(specPath: string, format: ApiDocFormat = 'auto'): Promise<string> {
+  async generateTestsFromSpec(
+    specPath: string,
+    format: ApiDocFormat = 'auto',
+    options: { environmentPath?: string } = {}
+  ): Promise<string> {
     try {
       // 检查文件是否存在
       if (!fs.existsSync(specPath)) {
@@ -371,16 +500,25 @@ export class ApiTestingService {
         format = this.detectFormat(fileContent);
       }
 
-      // 解析API规范
-      const apiSpec = await this.parseApiSpec(fileContent, format);
+      let apiSpec: ApiSpec;
+      let generatedTestCases: core.TestCase[];
+
+      if (format === 'postman') {
+        // Postman集合本身就是具体请求，直接映射为测试步骤
+        const collection = this.parsePostmanCollection(fileContent, options.environmentPath);
+        apiSpec = { id: randomUUID(), ...collection.document };
+        generatedTestCases = collection.testCases;
+      } else {
+        // 解析API规范
+        apiSpec = await this.parseApiSpec(fileContent, format);
+        // 从规范生成测试用例
+        generatedTestCases = await this.generateTestCasesFromApiSpec(apiSpec);
+      }
 
       // 保存API规范
       this.apiSpecs.set(apiSpec.id, apiSpec);
       this.saveApiSpec(apiSpec);
 
-      // 从规范生成测试用例
-      const generatedTestCases = await this.generateTestCasesFromApiSpec(apiSpec);
-
       // 创建测试套件
       const testSuiteId = randomUUID();
       const testSuite: core.TestSuite = {
@@ -389,6 +527,12 @@ export class ApiTestingService {
         description: `Generated from API specification: ${apiSpec.title} ${apiSpec.version}`,
         testCases: generatedTestCases,
         createdAt: Date.now(),
+        apiSpecId: apiSpec.id,
+        // 只记录环境文件路径，环境变量在执行时读取，不保存到套件中
+        environmentPath:
+          format === 'postman' && options.environmentPath
+            ? path.resolve(options.environmentPath)
+            : undefined,
       };
 
       // 保存测试套件
@@ -408,26 +552,67 @@ export class ApiTestingService {
     }
   }
 
+  /**
+   * 导入API规范文档并保存，不生成测试用例
+   * @param specPath API规范文档路径
+   * @param format 文档格式
+   * @param options.environmentPath Postman环境文件路径（仅postman格式使用）
+   * @returns 解析后的API规范
+   */
+  async importApiSpec(
+    specPath: string,
+    format: ApiDocFormat = 'auto',
+    options: { environmentPath?: string } = {}
+  ): Promise<ApiSpec> {
+    if (!fs.existsSync(specPath)) {
+      throw new Error(`API specification file not found: ${specPath}`);
+    }
+
+    const fileContent = fs.readFileSync(specPath, 'utf-8');
+    if (format === 'auto') {
+      format = this.detectFormat(fileContent);
+    }
+
+    const apiSpec: ApiSpec =
+      format === 'postman'
+        ? {
+            id: randomUUID(),
+            ...this.parsePostmanCollection(fileContent, options.environmentPath).document,
+          }
+        : await this.parseApiSpec(fileContent, format);
+
+    this.apiSpecs.set(apiSpec.id, apiSpec);
+    this.saveApiSpec(apiSpec);
+
+    return apiSpec;
+  }
+
   /**
    * 运行API测试
    * @param testSuiteId 测试套件ID
+   * @param options.validateResponses 是否按来源API规范校验响应体
+   * @param options.environment 环境变量，可在步骤中以 {{name}} 引用
+   * @param options.retries 失败用例的重试次数，覆盖套件配置
    * @returns 测试结果ID
    */
-  async runApiTests(testSuiteId: string): Promise<string> {
+  async runApiTests(
+    testSuiteId: string,
+    options: Pick<APITestingOptions, 'validateResponses'> &
+      Pick<core.TestExecutionOptions, 'environment' | 'retries'> = {}
+  ): Promise<string> {
     try {
-      // 加载测试套件
-      const testSuitePath = path.join(process.cwd(), 'test-suites', `${testSuiteId}.json`);
-
-      if (!fs.existsSync(testSuitePath)) {
-        throw new Error(`Test suite not found: ${testSuiteId}`);
-      }
-
-      const testSuiteContent = fs.readFileSync(testSuitePath, 'utf-8');
-      const testSuite = JSON.parse(testSuiteContent) as core.TestSuite;
-
-      // 验证是否为API测试套件
-      if (!testSuite.description.includes('API')) {
-        throw new Error(`Test suite is not an API test suite: ${testSuiteId}`);
+      const testSuite = this.loadApiTestSuite(testSuiteId);
+      const environment = this.resolveEnvironment(testSuite, options.environment);
+
+      // 契约校验需要生成该套件的API规范
+      let apiSpec: ApiSpec | undefined;
+      if (options.validateResponses) {
+        apiSpec = testSuite.apiSpecId ? this.apiSpecs.get(testSuite.apiSpecId) : undefined;
+        if (!apiSpec) {
+          console.warn(
+            `No API specification linked to test suite ${testSuiteId}, skipping response validation`
+          );
+        }
       }
 
       // 创建测试结果ID
@@ -437,116 +622,46 @@ export class ApiTestingService {
       // 执行每个测试用例
       const results: ApiTestCaseResult[] = [];
 
+      const testCaseSummaries: ApiTestCaseSummary[] = [];
+
       for (const testCase of testSuite.testCases) {
         console.log(`Running API test case: ${testCase.description}`);
 
-        for (const step of testCase.steps) {
-          // 跳过非API请求步骤
-          if (step.action !== 'request') {
-            continue;
-          }
+        const retries = Math.max(
+          testCase.retries ?? options.retries ?? testSuite.retries ?? testConfig.retries,
+          0
+        );
+        const attempts: ApiTestCaseAttempt[] = [];
 
-          const testStartTime = Date.now();
-          let passed = true;
-          let status = 0;
-          let statusText = '';
-          let requestPayload: unknown = null;
-          let responseBody: unknown = null;
-          const errors: Error[] = [];
-
-          try {
-            // 解析测试数据
-            const requestData = JSON.parse(step.value || '{}') as ApiRequestData;
-            const endpoint = step.selector || '';
-            const method = requestData.method || 'GET';
-
-            // 构建完整URL（使用baseApiUrl）
-            const url = endpoint.startsWith('http') ? endpoint : `${this.baseApiUrl}${endpoint}`;
-
-            // 检查是否有模拟响应
-            const mockKey = `${method}:${endpoint}`;
-            if (this.mockEndpoints.has(mockKey)) {
-              // 使用模拟响应
-              const mockResponse = this.mockEndpoints.get(mockKey) as ApiMockResponse;
-
-              status = mockResponse.statusCode;
-              statusText = mockResponse.statusText || 'OK';
-              responseBody = mockResponse.response;
-              requestPayload = requestData.body || null;
-
-              // 验证状态码
-              if (requestData.expectedStatus && requestData.expectedStatus !== status) {
-                passed = false;
-                errors.push(
-                  new Error(`Expected status ${requestData.expectedStatus}, got ${status}`)
-                );
-              }
-            } else {
-              // 执行实际请求
-              const response = await fetch(url, {
-                method,
-                headers: {
-                  'Content-Type': 'application/json',
-                  ...(requestData.headers || {}),
-                },
-                body: requestData.body ? JSON.stringify(requestData.body) : undefined,
-              });
-
-              status = response.status;
-              statusText = response.statusText;
-              requestPayload = requestData.body || null;
-
-              // 尝试解析响应体
-              try {
-                responseBody = await response.json();
-              } catch (e) {
-                // 如果不是JSON，获取文本
-                const textContent = await response.text();
-                responseBody = textContent || null;
-              }
-
-              // 验证状态码
-              if (requestData.expectedStatus && requestData.expectedStatus !== status) {
-                passed = false;
-                errors.push(
-                  new Error(`Expected status ${requestData.expectedStatus}, got ${status}`)
-                );
-              }
-
-              // 验证响应体（如果提供了期望的响应）
-              if (requestData.expectedResponse) {
-                // 这里应该实现更复杂的响应验证
-                // 目前只是简单检查响应体是否存在
-                if (!responseBody) {
-                  passed = false;
-                  errors.push(new Error('Expected response body, but got empty response'));
-                }
-              }
-            }
-          } catch (error) {
-            passed = false;
-            errors.push(error as Error);
-            console.error(`API test failed: ${(error as Error).message}`);
+        // 失败的用例整体重试，每次重试都使用新的变量作用域
+        for (let attempt = 0; attempt <= retries; attempt++) {
+          if (attempt > 0) {
+            console.log(`Retrying API test case ${testCase.id} (attempt ${attempt + 1})`);
           }
-
-          // 计算持续时间
-          const duration = Date.now() - testStartTime;
-
-          // 记录结果
-          results.push({
-            testCaseId: testCase.id,
-            passed,
-            endpoint: step.selector || '',
-            method:
-              (JSON.parse(step.value || '{"method":"GET"}') as ApiRequestData).method || 'GET',
-            status,
-            statusText,
-            requestPayload,
-            responseBody,
-            duration,
-            errors: errors.length > 0 ? errors : undefined,
+          const attemptStartTime = Date.now();
+          const attemptResults = await this.runApiTestCase(testCase, environment, apiSpec);
+          const attemptPassed = attemptResults.every(result => result.passed);
+
+          attempts.push({
+            attempt,
+            passed: attemptPassed,
+            duration: Date.now() - attemptStartTime,
+            results: attemptResults,
           });
+
+          if (attemptPassed) {
+            break;
+          }
         }
+
+        // 以最后一次尝试的结果作为用例结果
+        const finalAttempt = attempts[attempts.length - 1];
+        results.push(...finalAttempt.results);
+        testCaseSummaries.push({
+          testCaseId: testCase.id,
+          status: finalAttempt.passed ? (attempts.length > 1 ? 'flaky' : 'passed') : 'failed',
+          attempts,
+        });
       }
 
       // 计算总体结果
@@ -559,6 +674,7 @@ export class ApiTestingService {
         testSuiteId,
         passed: allPassed,
         results,
+        testCases: testCaseSummaries,
         startTime: startTime.toISOString(),
         endTime: endTime.toISOString(),
         duration: endTime.getTime() - startTime.getTime(),
@@ -575,6 +691,277 @@ export class ApiTestingService {
     }
   }
 
+  /**
+   * 合并执行时的环境变量：套件关联的Postman环境文件在前，调用方传入的环境变量优先
+   * @param testSuite 测试套件
+   * @param environment 调用方传入的环境变量
+   * @returns 环境变量
+   */
+  resolveEnvironment(
+    testSuite: core.TestSuite,
+    environment: Record<string, string> = {}
+  ): Record<string, string> {
+    if (!testSuite.environmentPath) {
+      return environment;
+    }
+    if (!fs.existsSync(testSuite.environmentPath)) {
+      console.warn(`Postman environment file not found: ${testSuite.environmentPath}`);
+      return environment;
+    }
+
+    return {
+      ...loadPostmanEnvironment(
+        JSON.parse(fs.readFileSync(testSuite.environmentPath, 'utf-8')) as Record<string, unknown>
+      ),
+      ...environment,
+    };
+  }
+
+  /**
+   * 加载API测试套件
+   * @param testSuiteId 测试套件ID
+   * @returns 测试套件
+   * @throws 套件不存在或不是API测试套件时抛出错误
+   */
+  loadApiTestSuite(testSuiteId: string): core.TestSuite {
+    const testSuitePath = path.join(process.cwd(), 'test-suites', `${testSuiteId}.json`);
+
+    if (!fs.existsSync(testSuitePath)) {
+      throw new Error(`Test suite not found: ${testSuiteId}`);
+    }
+
+    const testSuiteContent = fs.readFileSync(testSuitePath, 'utf-8');
+    const testSuite = JSON.parse(testSuiteContent) as core.TestSuite;
+
+    // 验证是否为API测试套件
+    if (!testSuite.description.includes('API')) {
+      throw new Error(`Test suite is not an API test suite: ${testSuiteId}`);
+    }
+
+    return testSuite;
+  }
+
+  /**
+   * 执行单个API测试用例的所有请求步骤
+   * @param testCase 测试用例
+   * @param environment 环境变量，作为用例变量作用域的初始值
+   * @param apiSpec 用于契约校验的API规范
+   * @returns 各步骤的结果，与用例中的 request 步骤一一对应
+   */
+  async runApiTestCase(
+    testCase: core.TestCase,
+    environment: Record<string, string> = {},
+    apiSpec?: ApiSpec
+  ): Promise<ApiTestCaseResult[]> {
+    const results: ApiTestCaseResult[] = [];
+    // 每个测试用例使用独立的变量作用域，以环境变量为初始值
+    const variables: Record<string, unknown> = { ...environment };
+
+    for (const step of testCase.steps) {
+      // 跳过非API请求步骤
+      if (step.action !== 'request') {
+        continue;
+      }
+
+      const testStartTime = Date.now();
+      let passed = true;
+      let status = 0;
+      let statusText = '';
+      let requestPayload: unknown = null;
+      let responseBody: unknown = null;
+      let failedAssertions: core.ApiAssertionResult[] = [];
+      let contractViolations: SchemaViolation[] = [];
+      let extractedVariables: Record<string, unknown> = {};
+      let endpoint = step.selector || '';
+      const errors: Error[] = [];
+
+      try {
+        // 解析测试数据，并替换其中引用的变量
+        const requestData = interpolateVariables(
+          JSON.parse(step.value || '{}') as ApiRequestData,
+          variables
+        );
+        endpoint = String(interpolateVariables(endpoint, variables));
+        const method = requestData.method || 'GET';
+        let responseHeaders: Record<string, string> = {};
+
+        // 构建完整URL（使用baseApiUrl）
+        const url = endpoint.startsWith('http') ? endpoint : `${this.baseApiUrl}${endpoint}`;
+        requestPayload = requestData.formData ?? requestData.rawBody ?? (requestData.body || null);
+
+        // 检查是否有模拟响应
+        const mockKey = `${method}:${endpoint}`;
+        const requestStartTime = Date.now();
+        if (this.mockEndpoints.has(mockKey)) {
+          // 使用模拟响应
+          const mockResponse = this.mockEndpoints.get(mockKey) as ApiMockResponse;
+
+          status = mockResponse.statusCode;
+          statusText = mockResponse.statusText || 'OK';
+          responseBody = mockResponse.response;
+        } else {
+          // 执行实际请求
+          const { headers, body, formData } = buildFetchBody(requestData);
+          const form = new FormData();
+          Object.entries(formData || {}).forEach(([name, value]) => form.append(name, value));
+          const response = await fetch(url, { method, headers, body: formData ? form : body });
+
+          status = response.status;
+          statusText = response.statusText;
+          responseHeaders = Object.fromEntries(response.headers.entries());
+
+          // 尝试解析响应体，如果不是JSON则保留文本
+          const textContent = await response.text();
+          try {
+            responseBody = JSON.parse(textContent) as unknown;
+          } catch (e) {
+            responseBody = textContent || null;
+          }
+        }
+        const responseTime = Date.now() - requestStartTime;
+
+        // 执行断言
+        const assertionResults = evaluateAssertions(
+          collectAssertions(
+            { ...step, assertions: interpolateVariables(step.assertions, variables) },
+            requestData
+          ),
+          {
+            status,
+            headers: responseHeaders,
+            body: responseBody,
+            responseTime,
+          }
+        );
+        failedAssertions = assertionResults.filter(result => !result.passed);
+
+        if (failedAssertions.length > 0) {
+          passed = false;
+          failedAssertions.forEach(result => errors.push(new Error(result.message)));
+        }
+
+        // 按规范中对应状态码的响应架构校验响应体
+        if (apiSpec) {
+          contractViolations = this.validateResponseContract(
+            apiSpec,
+            method,
+            url,
+            status,
+            responseBody
+          );
+          if (contractViolations.length > 0) {
+            passed = false;
+            contractViolations.forEach(violation =>
+              errors.push(
+                new Error(`Contract violation at ${violation.path || '/'}: ${violation.message}`)
+              )
+            );
+          }
+        }
+
+        // 提取变量供后续步骤使用
+        const extraction = extractVariables(
+          [...(step.extract || []), ...(requestData.extract || [])],
+          { status, headers: responseHeaders, body: responseBody, responseTime }
+        );
+        extractedVariables = extraction.variables;
+        Object.assign(variables, extractedVariables);
+        if (extraction.errors.length > 0) {
+          passed = false;
+          extraction.errors.forEach(message => errors.push(new Error(message)));
+        }
+      } catch (error) {
+        passed = false;
+        errors.push(error as Error);
+        console.error(`API test failed: ${(error as Error).message}`);
+      }
+
+      // 计算持续时间
+      const duration = Date.now() - testStartTime;
+
+      // 记录结果
+      results.push({
+        testCaseId: testCase.id,
+        passed,
+        endpoint,
+        method: (JSON.parse(step.value || '{"method":"GET"}') as ApiRequestData).method || 'GET',
+        status,
+        statusText,
+        requestPayload,
+        responseBody,
+        duration,
+        errors: errors.length > 0 ? errors : undefined,
+        failedAssertions: failedAssertions.length > 0 ? failedAssertions : undefined,
+        contractViolations: contractViolations.length > 0 ? contractViolations : undefined,
+        extractedVariables:
+          Object.keys(extractedVariables).length > 0 ? extractedVariables : undefined,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * 按API规范校验响应体
+   * @param apiSpec API规范
+   * @param method HTTP方法
+   * @param url 请求URL
+   * @param status 响应状态码
+   * @param responseBody 响应体
+   * @returns 契约违规列表，找不到端点、响应架构或架构由示例推断时为空
+   */
+  private validateResponseContract(
+    apiSpec: ApiSpec,
+    method: string,
+    url: string,
+    status: number,
+    responseBody: unknown
+  ): SchemaViolation[] {
+    const endpoint = this.findSpecEndpoint(apiSpec, method, url);
+    // 推断的架构只反映单个示例，可选字段、null 和数组元素的差异都会误报
+    if (!endpoint || endpoint.schemasInferred) {
+      return [];
+    }
+
+    const statusCode = String(status);
+    const schemas = endpoint.responseSchemas || {};
+    let schema =
+      schemas[statusCode] ?? schemas[`${statusCode[0]}XX`] ?? schemas[`${statusCode[0]}xx`];
+    if (schema === undefined) {
+      // 早期保存的规范只有成功响应架构
+      schema =
+        schemas.default ?? (status >= 200 && status < 300 ? endpoint.responseSchema : undefined);
+    }
+
+    return schema === undefined ? [] : validateJsonSchema(schema, responseBody);
+  }
+
+  /**
+   * 根据方法和URL查找规范中的端点，支持 {param} 路径参数
+   * @param apiSpec API规范
+   * @param method HTTP方法
+   * @param url 请求URL
+   * @returns 匹配的端点
+   */
+  private findSpecEndpoint(apiSpec: ApiSpec, method: string, url: string): ApiEndpoint | undefined {
+    const pathname = new URL(url, 'http://localhost').pathname;
+    const basePath = apiSpec.baseUrl
+      ? new URL(apiSpec.baseUrl, 'http://localhost').pathname.replace(/\/$/, '')
+      : '';
+    const candidates = [pathname];
+    if (basePath && pathname.startsWith(basePath)) {
+      candidates.push(pathname.slice(basePath.length) || '/');
+    }
+
+    // 无路径参数的端点优先，避免 /users/{id} 抢先匹配 /users/me
+    return apiSpec.endpoints
+      .filter(endpoint => endpoint.method.toUpperCase() === method.toUpperCase())
+      .sort((a, b) => countPathParams(a.path) - countPathParams(b.path))
+      .find(endpoint =>
+        candidates.some(candidate => matchPathTemplate(endpoint.path, candidate) !== null)
+      );
+  }
+
   /**
    * 获取测试报告
    * @param reportId 报告ID
@@ -588,6 +975,19 @@ export class ApiTestingService {
     return report;
   }
 
+  /**
+   * 列出存储目录中的API测试报告，最新的在前
+   * @returns 报告摘要数组
+   */
+  listReports(): Pick<ApiTestResult, 'id' | 'testSuiteId' | 'passed' | 'startTime'>[] {
+    // 重新扫描存储目录，以包含其他进程写入的报告
+    this.loadTestResults();
+
+    return [...this.testResults.values()]
+      .map(({ id, testSuiteId, passed, startTime }) => ({ id, testSuiteId, passed, startTime }))
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
   /**
    * 模拟API端点
    * @param endpoint API端点
@@ -627,7 +1027,7 @@ export class ApiTestingService {
    */
   private detectFormat(content: string): ApiDocFormat {
     try {
-      const json = JSON.parse(content) as OpenAPISpec;
+      const json = loadSpecDocument(content) as OpenAPISpec;
 
       // 检查是否是OpenAPI/Swagger
       if (json.openapi || json.swagger) {
@@ -639,10 +1039,15 @@ export class ApiTestingService {
         return 'apifox';
       }
 
+      // 检查是否是Postman集合
+      if (isPostmanCollection(json as Record<string, unknown>)) {
+        return 'postman';
+      }
+
       // 默认返回OpenAPI
       return 'openapi';
     } catch (error) {
-      // 如果不是有效的JSON，假设为其他格式
+      // 如果不是有效的JSON或YAML，假设为其他格式
       console.warn('Could not determine API specification format:', error);
       return 'openapi';
     }
@@ -650,14 +1055,161 @@ export class ApiTestingService {
 
   /**
    * 解析API规范文件
+   * OpenAPI 3.x / Swagger 2.0 文档使用结构化解析器，LLM仅用于补充描述信息
    * @param content 文件内容
    * @param format 文件格式
    * @returns API规范
    */
   private async parseApiSpec(content: string, format: ApiDocFormat): Promise<ApiSpec> {
     try {
-      // 构建提示
+      const parsedDocument = parseApiDocument(content, format);
+
+      if (parsedDocument) {
+        const apiSpec: ApiSpec = { id: randomUUID(), ...parsedDocument };
+
+        if (this.mcpEnabled && this.mcpClient) {
+          return await this.enrichApiSpec(apiSpec);
+        }
+        return apiSpec;
+      }
+
+      // 无法结构化解析的文档（如Apifox导出）交由LLM或备用方法处理
+      return await this.parseApiSpecUsingLLM(content, format);
+    } catch (error) {
+      console.error('Error parsing API specification:', error);
+      // 出错时返回一个简单的API规范
+      return {
+        id: randomUUID(),
+        title: 'Failed to Parse API',
+        version: '1.0.0',
+        description: 'Failed to parse API specification',
+        endpoints: [],
+      };
+    }
+  }
+
+  /**
+   * 解析Postman集合
+   * @param content 集合文件内容
+   * @param environmentPath Postman环境文件路径
+   * @returns API规范结构及测试用例
+   */
+  private parsePostmanCollection(
+    content: string,
+    environmentPath?: string
+  ): PostmanCollectionResult {
+    let environment: Record<string, string> = {};
+
+    if (environmentPath) {
+      if (!fs.existsSync(environmentPath)) {
+        throw new Error(`Postman environment file not found: ${environmentPath}`);
+      }
+      environment = loadPostmanEnvironment(
+        JSON.parse(fs.readFileSync(environmentPath, 'utf-8')) as Record<string, unknown>
+      );
+    }
+
+    const document = loadSpecDocument(content);
+    if (!isPostmanCollection(document)) {
+      throw new Error('Invalid Postman collection: missing info or item');
+    }
+
+    return new PostmanParser(environment).parseCollection(document);
+  }
+
+  /**
+   * 使用LLM补充API规范中缺失的摘要和描述
+   * 端点结构保持不变，LLM调用失败时返回原始规范
+   * @param apiSpec 结构化解析得到的API规范
+   * @returns 补充后的API规范
+   */
+  private async enrichApiSpec(apiSpec: ApiSpec): Promise<ApiSpec> {
+    const endpointsToEnrich = apiSpec.endpoints.filter(
+      endpoint =>
+        !endpoint.description || endpoint.summary === `${endpoint.method} ${endpoint.path}`
+    );
+
+    if (endpointsToEnrich.length === 0 || !this.mcpClient) {
+      return apiSpec;
+    }
+
+    try {
       const prompt = `
+请为以下API端点补充简洁的摘要(summary)和描述(description)。
+
+API: ${apiSpec.title} ${apiSpec.version}
+${apiSpec.description || ''}
+
+端点列表:
+${endpointsToEnrich
+  .map(
+    endpoint =>
+      `- ${endpoint.method} ${endpoint.path} (operationId: ${endpoint.operationId || 'N/A'}, tags: ${(endpoint.tags || []).join(', ') || 'N/A'})`
+  )
+  .join('\n')}
+
+请使用以下JSON格式输出:
+{
+  "endpoints": [
+    { "method": "HTTP方法", "path": "端点路径", "summary": "端点摘要", "description": "端点描述" }
+  ]
+}
+`;
+
+      const result = await this.mcpClient.callTool({
+        name: 'generate-json-content',
+        arguments: {
+          prompt: prompt,
+          systemPrompt:
+            '你是一个擅长编写API文档的专家。请只返回JSON格式的数据，不要有其他解释或标记。',
+        },
+      });
+
+      if (!result.content || result.content.length === 0) {
+        return apiSpec;
+      }
+
+      const jsonText = (result.content[0].text || '').replace(/```json\s*|\s*```/g, '');
+      const enrichment = JSON.parse(jsonText) as {
+        endpoints?: Array<{
+          method?: string;
+          path?: string;
+          summary?: string;
+          description?: string;
+        }>;
+      };
+
+      for (const item of enrichment.endpoints || []) {
+        const endpoint = endpointsToEnrich.find(
+          candidate =>
+            candidate.path === item.path && candidate.method === (item.method || '').toUpperCase()
+        );
+        if (!endpoint) {
+          continue;
+        }
+        if (item.summary && endpoint.summary === `${endpoint.method} ${endpoint.path}`) {
+          endpoint.summary = item.summary;
+        }
+        if (item.description && !endpoint.description) {
+          endpoint.description = item.description;
+        }
+      }
+    } catch (error) {
+      console.warn('Error enriching API specification using MCP client:', error);
+    }
+
+    return apiSpec;
+  }
+
+  /**
+   * 使用LLM解析API规范文件（无结构化解析器可用时）
+   * @param content 文件内容
+   * @param format 文件格式
+   * @returns API规范
+   */
+  private async parseApiSpecUsingLLM(content: string, format: ApiDocFormat): Promise<ApiSpec> {
+    // 构建提示
+    const prompt = `
 请将以下API规范文档解析为JSON格式的API端点列表。
 
 API文档格式: ${format}
@@ -685,56 +1237,45 @@ ${content.substring(0, 20000)} ${content.length > 20000 ? '... (截断)' : ''}
 }
 `;
 
-      let parsedSpec: Record<string, unknown>;
+    let parsedSpec: Record<string, unknown>;
 
-      // 使用MCP客户端或备用方法解析API规范
-      if (this.mcpEnabled && this.mcpClient) {
-        console.log('使用MCP客户端解析API规范');
+    // 使用MCP客户端或备用方法解析API规范
+    if (this.mcpEnabled && this.mcpClient) {
+      console.log('使用MCP客户端解析API规范');
 
-        // 使用MCP客户端调用LLM
-        const result = await this.mcpClient.callTool({
-          name: 'generate-json-content',
-          arguments: {
-            prompt: prompt,
-            systemPrompt:
-              '你是一个擅长解析API文档的专家，请将API规范文档解析为结构化的JSON对象。只返回JSON格式的数据，不要有其他解释或标记。',
-          },
-        });
+      // 使用MCP客户端调用LLM
+      const result = await this.mcpClient.callTool({
+        name: 'generate-json-content',
+        arguments: {
+          prompt: prompt,
+          systemPrompt:
+            '你是一个擅长解析API文档的专家，请将API规范文档解析为结构化的JSON对象。只返回JSON格式的数据，不要有其他解释或标记。',
+        },
+      });
 
-        if (result.content && result.content.length > 0) {
-          const jsonText = (result.content[0].text || '').replace(/```json\s*|\s*```/g, '');
-          parsedSpec = JSON.parse(jsonText) as Record<string, unknown>;
-        } else {
-          throw new Error('Failed to parse API specification using MCP client');
-        }
+      if (result.content && result.content.length > 0) {
+        const jsonText = (result.content[0].text || '').replace(/```json\s*|\s*```/g, '');
+        parsedSpec = JSON.parse(jsonText) as Record<string, unknown>;
       } else {
-        console.log('MCP客户端未配置，使用备用方法解析API规范');
-
-        // 备用：使用简单的解析逻辑
-        parsedSpec = this.generateFallbackApiSpec(content, format);
+        throw new Error('Failed to parse API specification using MCP client');
       }
+    } else {
+      console.log('MCP客户端未配置，使用备用方法解析API规范');
 
-      // 创建API规范
-      const apiSpec: ApiSpec = {
-        id: randomUUID(),
-        title: (parsedSpec.title as string) || 'Unknown API',
-        version: (parsedSpec.version as string) || '1.0.0',
-        description: parsedSpec.description as string | undefined,
-        endpoints: (parsedSpec.endpoints as ApiEndpoint[]) || [],
-      };
-
-      return apiSpec;
-    } catch (error) {
-      console.error('Error parsing API specification:', error);
-      // 出错时返回一个简单的API规范
-      return {
-        id: randomUUID(),
-        title: 'Failed to Parse API',
-        version: '1.0.0',
-        description: 'Failed to parse API specification',
-        endpoints: [],
-      };
+      // 备用：使用简单的解析逻辑
+      parsedSpec = this.generateFallbackApiSpec(content, format);
     }
+
+    // 创建API规范
+    const apiSpec: ApiSpec = {
+      id: randomUUID(),
+      title: (parsedSpec.title as string) || 'Unknown API',
+      version: (parsedSpec.version as string) || '1.0.0',
+      description: parsedSpec.description as string | undefined,
+      endpoints: (parsedSpec.endpoints as ApiEndpoint[]) || [],
+    };
+
+    return apiSpec;
   }
 
   /**
@@ -778,12 +1319,21 @@ ${apiSpec.endpoints
         "description": "步骤描述",
         "action": "request",
         "selector": "API路径",
-        "value": '{ "method": "GET/POST/PUT/DELETE", "headers": {}, "body": {}, "expectedStatus": 200, "expectedResponse": {} }'
+        "value": '{ "method": "GET/POST/PUT/DELETE", "headers": {}, "body": {}, "expectedStatus": 200, "expectedResponse": {}, "assertions": [{ "type": "jsonPath", "path": "$.data.id", "operator": "=", "value": 1 }] }'
       }
     ]
   }
 ]
 
+assertions 为可选的断言数组，type 可以是 status、header、body、jsonPath、responseTime，
+operator 可以是 =、!=、>、<、>=、<=、contains、matches、startsWith、endsWith。
+header 断言的 path 为请求头名称，jsonPath 断言的 path 为JSONPath表达式。
+
+同一测试用例中的步骤可以传递数据：在 value 中用 extract 从响应提取变量，
+如 "extract": [{ "name": "userId", "type": "jsonPath", "path": "$.id" }]，
+type 可以是 jsonPath、header（path 为请求头名称）、regex（pattern 为正则表达式），
+后续步骤的 API路径、headers 和 body 中可以用 {{userId}} 引用该变量。
+
 为每个端点至少生成1个测试用例，每个测试用例至少包含1个步骤。
 确保测试用例覆盖了API规范中提到的所有端点。
 `;
@@ -807,6 +1357,8 @@ ${apiSpec.endpoints
         if (result.content && result.content.length > 0) {
           const jsonText = (result.content[0].text || '').replace(/```json\s*|\s*```/g, '');
           testCases = JSON.parse(jsonText) as core.TestCase[];
+          // LLM生成的用例侧重业务场景，再补充按请求架构生成的异常用例
+          testCases.push(...generateSchemaTestCases(apiSpec, { includePositive: false }));
         } else {
           throw new Error('Failed to generate test cases using MCP client');
         }
@@ -901,36 +1453,10 @@ ${apiSpec.endpoints
 
   /**
    * 生成备用测试用例（当MCP客户端不可用时）
+   * 按请求架构生成正常、边界与异常用例，不依赖LLM
    */
   private generateFallbackTestCases(apiSpec: ApiSpec): core.TestCase[] {
-    const testCases: core.TestCase[] = [];
-
-    // 为每个端点生成一个测试用例
-    for (const endpoint of apiSpec.endpoints) {
-      const testCase: core.TestCase = {
-        id: randomUUID(),
-        name: `Test ${endpoint.method} ${endpoint.path}`,
-        description: endpoint.summary || `Test for ${endpoint.method} ${endpoint.path}`,
-        steps: [
-          {
-            id: randomUUID(),
-            description: `发送 ${endpoint.method} 请求到 ${endpoint.path}`,
-            action: 'request',
-            selector: `https://api.example.com${endpoint.path}`,
-            value: JSON.stringify({
-              method: endpoint.method,
-              headers: {
-                'Content-Type': 'application/json',
-                Accept: 'application/json',
-              },
-              expectedStatus: 200,
-            }),
-          },
-        ],
-      };
-
-      testCases.push(testCase);
-    }
+    const testCases = generateSchemaTestCases(apiSpec);
 
     // 如果没有端点，添加一个默认测试用例
     if (testCases.length === 0) {
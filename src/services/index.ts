@@ -3,3 +3,5 @@ export * from './playwright-service';
 export { TestGeneratorService } from './test-generator-service';
 export * from './test-execution-service';
 export * from './api-testing-service';
+export * from './storage-state-service';
+export * from './load-test-service';
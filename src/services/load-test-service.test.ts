@@ -0,0 +1,124 @@
+/**
+ * @file 负载测试服务测试
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { LoadTestService } from './load-test-service';
+import { ApiTestingService } from './api-testing-service';
+import type * as core from '../types/core';
+
+// 测试环境中的 crypto 为浏览器 polyfill，没有 randomUUID
+Object.assign(crypto, { randomUUID: () => globalThis.crypto.randomUUID() });
+
+function requestStep(id: string, url: string, expectedStatus = 200): core.TestCaseStep {
+  return {
+    id,
+    description: '',
+    action: 'request',
+    selector: url,
+    value: JSON.stringify({ method: 'GET', expectedStatus }),
+  };
+}
+
+describe('负载测试服务', () => {
+  let storageDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let apiTesting: ApiTestingService;
+  let service: LoadTestService;
+  let orderRequests = 0;
+
+  beforeEach(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'load-test-'));
+    // 本地替身服务器：/orders 每三个请求失败一次
+    orderRequests = 0;
+    server = http.createServer((req, res) => {
+      const failed = req.url?.startsWith('/orders') && ++orderRequests % 3 === 0;
+      res.writeHead(failed ? 500 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: !failed }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    apiTesting = new ApiTestingService(storageDir);
+    service = new LoadTestService(apiTesting, storageDir);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  function useSuite(testCases: core.TestCase[]): void {
+    vi.spyOn(apiTesting, 'loadApiTestSuite').mockReturnValue({
+      id: 'suite1',
+      name: 'Orders API',
+      description: 'API tests',
+      testCases,
+    } as core.TestSuite);
+  }
+
+  it('应当按端点统计请求数、错误率与状态码分布', async () => {
+    useSuite([
+      {
+        id: 'tc1',
+        description: '',
+        steps: [
+          requestStep('s1', `${baseUrl}/users/{{userId}}`),
+          requestStep('s2', `${baseUrl}/orders`),
+        ],
+      } as core.TestCase,
+    ]);
+
+    const { reportId, completion } = service.startLoadTest('suite1', {
+      concurrency: 3,
+      duration: 10,
+      iterations: 6,
+      environment: { userId: '7' },
+    });
+    const report = await completion;
+
+    expect(report).toMatchObject({ id: reportId, status: 'completed', iterations: 6 });
+    expect(report.totals).toMatchObject({ requests: 12, errors: 2 });
+    expect(report.totals?.latency.p99).toBeGreaterThanOrEqual(report.totals?.latency.p50 ?? 0);
+
+    const orders = report.endpoints?.find(endpoint => endpoint.endpoint.endsWith('/orders'));
+    expect(orders).toMatchObject({
+      endpoint: `GET ${baseUrl}/orders`,
+      requests: 6,
+      errors: 2,
+      statusCodes: { '200': 4, '500': 2 },
+    });
+    expect(orders?.errorRate).toBeCloseTo(1 / 3);
+    // 端点按未替换变量的模板分组
+    expect(report.endpoints?.map(endpoint => endpoint.endpoint)).toContain(
+      `GET ${baseUrl}/users/{{userId}}`
+    );
+    expect(service.getReport(reportId)).toEqual(report);
+  });
+
+  it('应当按速率限制迭代，并可提前停止', async () => {
+    useSuite([{ id: 'tc1', description: '', steps: [requestStep('s1', `${baseUrl}/health`)] }]);
+
+    const { reportId, completion } = service.startLoadTest('suite1', {
+      concurrency: 5,
+      duration: 30,
+      rate: 20,
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(service.getReport(reportId).status).toBe('running');
+    service.stopLoadTest(reportId);
+    const report = await completion;
+
+    expect(report.status).toBe('stopped');
+    // 0.3秒内按每秒20次最多开始7次迭代
+    expect(report.iterations).toBeGreaterThan(0);
+    expect(report.iterations).toBeLessThanOrEqual(8);
+    expect(() => service.stopLoadTest(reportId)).toThrow('No running load test');
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @file 负载测试服务
+ * @description 以设定的并发、速率、持续时间与爬坡时间反复执行API测试套件中的请求步骤，
+ * 统计吞吐量、延迟百分位、各端点的错误率与状态码分布，用于快速的容量与稳定性检查
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type * as core from '../types/core';
+import { testConfig } from '../utils/config';
+import {
+  createLoadStatsCollector,
+  LoadStatsCollector,
+  LoadStatsSummary,
+  recordLoadSample,
+  summarizeLoadStats,
+} from '../utils/load-stats';
+import type { ApiTestingService } from './api-testing-service';
+
+// 等待爬坡或限速时检查是否已停止的间隔
+const STOP_CHECK_INTERVAL = 200;
+
+/**
+ * 负载测试选项
+ */
+export interface LoadTestOptions {
+  // 并发的虚拟用户数，每个虚拟用户依次执行套件中的测试用例
+  concurrency?: number;
+  // 每秒最多开始的用例迭代数，不设置则不限速
+  rate?: number;
+  // 持续时间（秒）
+  duration?: number;
+  // 在该时间（秒）内逐步启动全部虚拟用户
+  rampUp?: number;
+  // 最多执行的用例迭代数，达到后提前结束
+  iterations?: number;
+  // 环境变量，可在步骤中以 {{name}} 引用
+  environment?: Record<string, string>;
+}
+
+/**
+ * 负载测试报告
+ * - running: 执行中，统计为截至当前的结果
+ * - completed: 达到持续时间或迭代数后结束
+ * - stopped: 被手动停止
+ * - failed: 执行出错
+ */
+export interface LoadTestReport extends Partial<LoadStatsSummary> {
+  id: string;
+  testSuiteId: string;
+  status: 'running' | 'completed' | 'stopped' | 'failed';
+  options: Required<Omit<LoadTestOptions, 'rate' | 'iterations' | 'environment'>> &
+    Pick<LoadTestOptions, 'rate' | 'iterations'>;
+  // 已完成的用例迭代数
+  iterations: number;
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  error?: string;
+}
+
+// 执行中的负载测试
+interface RunningLoadTest {
+  report: LoadTestReport;
+  collector: LoadStatsCollector;
+  startedAt: number;
+  stopped: boolean;
+}
+
+export class LoadTestService {
+  private apiTesting: ApiTestingService;
+  private storageDir: string;
+  private running: Map<string, RunningLoadTest> = new Map();
+
+  constructor(apiTesting: ApiTestingService, storageDir?: string) {
+    this.apiTesting = apiTesting;
+    this.storageDir =
+      storageDir || testConfig.storageDir || path.join(process.cwd(), 'api-testing');
+  }
+
+  /**
+   * 开始负载测试
+   * @param testSuiteId API测试套件ID
+   * @param options 负载测试选项
+   * @returns 报告ID，以及测试结束后得到最终报告的 Promise
+   */
+  startLoadTest(
+    testSuiteId: string,
+    options: LoadTestOptions = {}
+  ): { reportId: string; completion: Promise<LoadTestReport> } {
+    const testSuite = this.apiTesting.loadApiTestSuite(testSuiteId);
+    const testCases = testSuite.testCases.filter(testCase =>
+      testCase.steps.some(step => step.action === 'request')
+    );
+    if (testCases.length === 0) {
+      throw new Error(`Test suite has no API request steps: ${testSuiteId}`);
+    }
+
+    const run: RunningLoadTest = {
+      report: {
+        id: randomUUID(),
+        testSuiteId,
+        status: 'running',
+        options: {
+          concurrency: Math.max(Math.floor(options.concurrency ?? 10), 1),
+          duration: Math.max(options.duration ?? 30, 0),
+          rampUp: Math.max(options.rampUp ?? 0, 0),
+          rate: options.rate && options.rate > 0 ? options.rate : undefined,
+          iterations: options.iterations,
+        },
+        iterations: 0,
+        startTime: new Date().toISOString(),
+      },
+      collector: createLoadStatsCollector(),
+      startedAt: Date.now(),
+      stopped: false,
+    };
+    this.running.set(run.report.id, run);
+
+    const environment = this.apiTesting.resolveEnvironment(testSuite, options.environment);
+    const completion = this.execute(run, testCases, environment)
+      .then(() => {
+        run.report.status = run.stopped ? 'stopped' : 'completed';
+      })
+      .catch((error: Error) => {
+        run.report.status = 'failed';
+        run.report.error = error.message;
+      })
+      .then(() => {
+        const report = this.snapshot(run);
+        report.endTime = new Date().toISOString();
+        this.running.delete(report.id);
+        try {
+          this.saveReport(report);
+        } catch (error) {
+          // 保存失败不影响返回的报告，避免后台执行时出现未处理的拒绝
+          console.error(`Error saving load test report ${report.id}:`, error);
+        }
+        return report;
+      });
+
+    return { reportId: run.report.id, completion };
+  }
+
+  /**
+   * 停止执行中的负载测试，已开始的迭代执行完后结束
+   * @param reportId 报告ID
+   */
+  stopLoadTest(reportId: string): void {
+    const run = this.running.get(reportId);
+    if (!run) {
+      throw new Error(`No running load test: ${reportId}`);
+    }
+    run.stopped = true;
+  }
+
+  /**
+   * 获取负载测试报告，执行中的测试返回截至当前的统计
+   * @param reportId 报告ID
+   * @returns 负载测试报告
+   */
+  getReport(reportId: string): LoadTestReport {
+    const run = this.running.get(reportId);
+    if (run) {
+      return this.snapshot(run);
+    }
+
+    const reportPath = path.join(this.storageDir, `load_${reportId}.json`);
+    if (!fs.existsSync(reportPath)) {
+      throw new Error(`Load test report not found: ${reportId}`);
+    }
+    return JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as LoadTestReport;
+  }
+
+  /**
+   * 列出执行中与已保存的负载测试，最新的在前
+   * @returns 报告ID、套件ID、状态与开始时间
+   */
+  listReports(): Array<Pick<LoadTestReport, 'id' | 'testSuiteId' | 'status' | 'startTime'>> {
+    const reports = [...this.running.values()].map(run => run.report);
+    if (fs.existsSync(this.storageDir)) {
+      for (const file of fs.readdirSync(this.storageDir)) {
+        if (file.startsWith('load_') && file.endsWith('.json')) {
+          try {
+            reports.push(
+              JSON.parse(
+                fs.readFileSync(path.join(this.storageDir, file), 'utf-8')
+              ) as LoadTestReport
+            );
+          } catch (error) {
+            console.warn(`Error loading load test report ${file}:`, error);
+          }
+        }
+      }
+    }
+
+    return reports
+      .map(({ id, testSuiteId, status, startTime }) => ({ id, testSuiteId, status, startTime }))
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  /**
+   * 启动虚拟用户，直到达到持续时间、迭代数或被停止
+   * @param run 执行中的负载测试
+   * @param testCases 包含请求步骤的测试用例
+   * @param environment 环境变量
+   */
+  private async execute(
+    run: RunningLoadTest,
+    testCases: core.TestCase[],
+    environment?: Record<string, string>
+  ): Promise<void> {
+    const { concurrency, duration, rampUp, rate, iterations } = run.report.options;
+    const deadline = run.startedAt + duration * 1000;
+    let started = 0;
+    let nextSlot = run.startedAt;
+
+    const shouldContinue = () =>
+      !run.stopped && Date.now() < deadline && (iterations === undefined || started < iterations);
+
+    const runVirtualUser = async (index: number): Promise<void> => {
+      // 爬坡期间按序号均匀地启动虚拟用户
+      await this.waitUntil(run, run.startedAt + (rampUp * 1000 * index) / concurrency);
+
+      while (shouldContinue()) {
+        if (rate) {
+          // 每个迭代占用一个时间槽，槽之间间隔 1/rate 秒
+          const slot = Math.max(nextSlot, Date.now());
+          nextSlot = slot + 1000 / rate;
+          await this.waitUntil(run, slot);
+          if (!shouldContinue()) {
+            break;
+          }
+        }
+
+        const testCase = testCases[started % testCases.length];
+        started++;
+        await this.runIteration(run, testCase, environment);
+        run.report.iterations++;
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, (_, index) => runVirtualUser(index)));
+  }
+
+  /**
+   * 执行一次测试用例并记录每个请求
+   * @param run 执行中的负载测试
+   * @param testCase 测试用例
+   * @param environment 环境变量
+   */
+  private async runIteration(
+    run: RunningLoadTest,
+    testCase: core.TestCase,
+    environment?: Record<string, string>
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const results = await this.apiTesting.runApiTestCase(testCase, environment);
+    // 按步骤中未替换变量的端点分组，避免 /users/{{id}} 按每个ID分成不同的端点
+    const endpoints = testCase.steps
+      .filter(step => step.action === 'request')
+      .map(step => step.selector || '');
+
+    let time = startedAt - run.startedAt;
+    results.forEach((result, index) => {
+      time += result.duration;
+      recordLoadSample(run.collector, {
+        endpoint: `${result.method.toUpperCase()} ${endpoints[index] ?? result.endpoint}`,
+        status: result.status,
+        duration: result.duration,
+        failed: !result.passed,
+        error: result.errors?.map(error => error.message).join('; '),
+        time,
+      });
+    });
+  }
+
+  /**
+   * 等待到指定时间，被停止时提前返回
+   */
+  private async waitUntil(run: RunningLoadTest, time: number): Promise<void> {
+    while (!run.stopped && Date.now() < time) {
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.min(time - Date.now(), STOP_CHECK_INTERVAL))
+      );
+    }
+  }
+
+  /**
+   * 以截至当前的统计生成报告
+   */
+  private snapshot(run: RunningLoadTest): LoadTestReport {
+    const elapsed = Date.now() - run.startedAt;
+    return {
+      ...run.report,
+      duration: elapsed,
+      ...summarizeLoadStats(run.collector, elapsed),
+    };
+  }
+
+  /**
+   * 保存负载测试报告
+   */
+  private saveReport(report: LoadTestReport): void {
+    fs.mkdirSync(this.storageDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.storageDir, `load_${report.id}.json`),
+      JSON.stringify(report, null, 2)
+    );
+  }
+}
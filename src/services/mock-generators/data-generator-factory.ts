@@ -0,0 +1,65 @@
+/**
+ * @file 数据生成器工厂
+ */
+
+import type { MockDataOptions } from '../../types';
+import { BaseDataGenerator } from './base-data-generator';
+import { ExampleBasedGenerator } from './example-based-generator';
+import { SchemaBasedGenerator } from './schema-based-generator';
+
+/**
+ * 数据生成器类型
+ */
+export type GeneratorType = 'schema' | 'example';
+
+/**
+ * 数据生成器工厂类
+ * 用于创建不同类型的数据生成器
+ */
+export class DataGeneratorFactory {
+  private static instance: DataGeneratorFactory;
+  private generators: Map<string, BaseDataGenerator> = new Map();
+
+  private constructor() {
+    this.generators.set('schema', new SchemaBasedGenerator());
+    this.generators.set('example', new ExampleBasedGenerator());
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DataGeneratorFactory {
+    if (!DataGeneratorFactory.instance) {
+      DataGeneratorFactory.instance = new DataGeneratorFactory();
+    }
+    return DataGeneratorFactory.instance;
+  }
+
+  /**
+   * 获取指定类型的数据生成器
+   * @param type 生成器类型
+   * @param options 配置选项，传入时创建新实例
+   * @returns 数据生成器实例
+   */
+  public getGenerator(
+    type: GeneratorType = 'schema',
+    options?: MockDataOptions
+  ): BaseDataGenerator {
+    if (options) {
+      return type === 'example'
+        ? new ExampleBasedGenerator(options)
+        : new SchemaBasedGenerator(options);
+    }
+
+    return (this.generators.get(type) || this.generators.get('schema')) as BaseDataGenerator;
+  }
+
+  /**
+   * 注册新的数据生成器
+   * @param type 生成器类型
+   * @param generator 数据生成器实例
+   */
+  public registerGenerator(type: string, generator: BaseDataGenerator): void {
+    this.generators.set(type, generator);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @file 基于示例的数据生成器
+ */
+
+import type { MockDataOptions } from '../../types';
+import { AbstractBaseDataGenerator } from './base-data-generator';
+
+/**
+ * 基于示例的数据生成器
+ * 返回示例数据的副本，并对匹配自定义规则的字段重新生成
+ */
+export class ExampleBasedGenerator extends AbstractBaseDataGenerator {
+  /**
+   * 根据示例生成模拟数据
+   * @param example 示例数据
+   * @param _options 生成选项
+   * @returns 生成的模拟数据
+   */
+  generate(example: unknown, _options?: MockDataOptions): unknown {
+    if (example === undefined) {
+      return null;
+    }
+
+    return this.cloneWithRules(example);
+  }
+
+  private cloneWithRules(value: unknown): unknown {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.cloneWithRules(item));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const customValue = this.findMatchingRule(key, { example: item });
+      result[key] = customValue !== undefined ? customValue : this.cloneWithRules(item);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * @file 模拟数据生成器入口
+ */
+
+export * from './base-data-generator';
+export { SchemaBasedGenerator } from './schema-based-generator';
+export { ExampleBasedGenerator } from './example-based-generator';
+export * from './data-generator-factory';
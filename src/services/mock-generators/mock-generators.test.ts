@@ -0,0 +1,70 @@
+/**
+ * @file 模拟数据生成器测试
+ */
+import { describe, it, expect } from 'vitest';
+import { DataGeneratorFactory, ExampleBasedGenerator, SchemaBasedGenerator } from './index';
+
+describe('SchemaBasedGenerator', () => {
+  const generator = new SchemaBasedGenerator();
+
+  it('应当根据模式生成确定的数据', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 10 },
+        email: { type: 'string', format: 'email' },
+        name: { type: 'string' },
+        status: { type: 'string', enum: ['active', 'disabled'] },
+        price: { type: 'number', example: 9.99 },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+        active: { type: 'boolean' },
+      },
+    };
+
+    expect(generator.generate(schema)).toEqual({
+      id: 10,
+      email: 'user@example.com',
+      name: 'Example Name',
+      status: 'active',
+      price: 9.99,
+      tags: ['string', 'string'],
+      active: true,
+    });
+    expect(generator.generate(schema)).toEqual(generator.generate(schema));
+  });
+
+  it('应当支持组合模式并跳过循环引用', () => {
+    expect(
+      generator.generate({
+        allOf: [
+          { type: 'object', properties: { id: { type: 'integer' } } },
+          { type: 'object', properties: { parent: { $ref: '#/components/schemas/Node' } } },
+        ],
+      })
+    ).toEqual({ id: 1, parent: null });
+    expect(generator.generate({ oneOf: [{ type: 'string', maxLength: 3 }] })).toBe('str');
+  });
+
+  it('自定义规则应当优先于模式', () => {
+    const custom = new SchemaBasedGenerator({
+      rules: [{ fieldPattern: /^code$/, generator: () => 'X-1' }],
+    });
+    expect(custom.generate({ properties: { code: { type: 'string' } } })).toEqual({ code: 'X-1' });
+  });
+});
+
+describe('ExampleBasedGenerator', () => {
+  it('应当返回示例的副本', () => {
+    const example = { items: [{ id: 1 }] };
+    const result = new ExampleBasedGenerator().generate(example);
+
+    expect(result).toEqual(example);
+    expect(result).not.toBe(example);
+  });
+
+  it('工厂应当按类型返回生成器', () => {
+    const factory = DataGeneratorFactory.getInstance();
+    expect(factory.getGenerator('example')).toBeInstanceOf(ExampleBasedGenerator);
+    expect(factory.getGenerator()).toBeInstanceOf(SchemaBasedGenerator);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @file 基于模式的数据生成器
+ * @description 根据JSON Schema生成确定性的模拟数据，相同的模式总是得到相同的结果
+ */
+
+import type { MockDataOptions } from '../../types';
+import { AbstractBaseDataGenerator } from './base-data-generator';
+
+type Schema = Record<string, unknown>;
+
+// 防止自引用模式无限递归
+const MAX_DEPTH = 8;
+
+const FORMAT_VALUES: Record<string, string> = {
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  date: '2025-01-01',
+  'date-time': '2025-01-01T00:00:00.000Z',
+  time: '12:00:00',
+  ipv4: '192.168.0.1',
+  ipv6: '::1',
+  hostname: 'example.com',
+  phone: '13800000000',
+  telephone: '13800000000',
+  password: 'P@ssw0rd',
+  byte: 'c3RyaW5n',
+};
+
+// 按字段名推断字符串内容，按顺序匹配
+const FIELD_NAME_VALUES: Array<[RegExp, string]> = [
+  [/email/i, 'user@example.com'],
+  [/username/i, 'user01'],
+  [/password/i, 'P@ssw0rd'],
+  [/phone|mobile|tel/i, '13800000000'],
+  [/url|uri|link/i, 'https://example.com'],
+  [/uuid|guid/i, '3fa85f64-5717-4562-b3fc-2c963f66afa6'],
+  [/address/i, '1 Example Street'],
+  [/city/i, 'Shanghai'],
+  [/country/i, 'China'],
+  [/zip|postal/i, '200000'],
+  [/name/i, 'Example Name'],
+  [/title/i, 'Example Title'],
+  [/desc|comment|content/i, 'Example description'],
+  [/date|time/i, '2025-01-01T00:00:00.000Z'],
+  [/id$/i, '1'],
+];
+
+/**
+ * 基于模式的数据生成器
+ */
+export class SchemaBasedGenerator extends AbstractBaseDataGenerator {
+  /**
+   * 根据模式生成模拟数据
+   * @param schema 数据模式
+   * @param options 生成选项
+   * @returns 生成的模拟数据
+   */
+  generate(schema: unknown, options?: MockDataOptions): unknown {
+    return this.generateValue(schema, { ...this.defaultOptions, ...options }, '', 0);
+  }
+
+  private generateValue(
+    schema: unknown,
+    options: MockDataOptions,
+    fieldName: string,
+    depth: number
+  ): unknown {
+    if (schema === null || typeof schema !== 'object' || depth > MAX_DEPTH) {
+      return null;
+    }
+
+    const s = schema as Schema;
+
+    // 未解析的循环引用
+    if (typeof s.$ref === 'string') {
+      return null;
+    }
+
+    if (options.useExamples !== false && s.example !== undefined) {
+      return s.example;
+    }
+    if (s.default !== undefined) {
+      return s.default;
+    }
+    if (s.const !== undefined) {
+      return s.const;
+    }
+    if (Array.isArray(s.enum) && s.enum.length > 0) {
+      return s.enum[0] as unknown;
+    }
+
+    if (Array.isArray(s.allOf)) {
+      return (s.allOf as unknown[]).reduce<unknown>((merged, subSchema) => {
+        const value = this.generateValue(subSchema, options, fieldName, depth + 1);
+        return this.isPlainObject(merged) && this.isPlainObject(value)
+          ? { ...merged, ...value }
+          : value;
+      }, undefined);
+    }
+    const alternatives = (s.oneOf || s.anyOf) as unknown[] | undefined;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.generateValue(alternatives[0], options, fieldName, depth + 1);
+    }
+
+    switch (this.determineType(s)) {
+      case 'object':
+        return this.generateObject(s, options, depth);
+      case 'array':
+        return this.generateArray(s, options, fieldName, depth);
+      case 'string':
+        return this.generateString(s, fieldName);
+      case 'integer':
+        return this.generateNumber(s, true);
+      case 'number':
+        return this.generateNumber(s, false);
+      case 'boolean':
+        return true;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 确定模式的类型
+   * @param schema 数据模式
+   * @returns 确定的类型
+   */
+  private determineType(schema: Schema): string {
+    if (typeof schema.type === 'string') {
+      return schema.type;
+    }
+    if (Array.isArray(schema.type)) {
+      return (schema.type as string[]).find(type => type !== 'null') || 'null';
+    }
+    if (schema.properties || schema.additionalProperties) {
+      return 'object';
+    }
+    if (schema.items) {
+      return 'array';
+    }
+    return 'object';
+  }
+
+  private generateObject(
+    schema: Schema,
+    options: MockDataOptions,
+    depth: number
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const properties = (schema.properties || {}) as Record<string, unknown>;
+
+    for (const [propName, propSchema] of Object.entries(properties)) {
+      // 检查是否有自定义规则
+      const customValue = this.findMatchingRule(propName, propSchema);
+      result[propName] =
+        customValue !== undefined
+          ? customValue
+          : this.generateValue(propSchema, options, propName, depth + 1);
+    }
+
+    return result;
+  }
+
+  private generateArray(
+    schema: Schema,
+    options: MockDataOptions,
+    fieldName: string,
+    depth: number
+  ): unknown[] {
+    if (!schema.items) {
+      return [];
+    }
+
+    const count = Math.max(typeof schema.minItems === 'number' ? schema.minItems : 1, 1);
+    return Array.from({ length: count }, () =>
+      this.generateValue(schema.items, options, fieldName, depth + 1)
+    );
+  }
+
+  private generateString(schema: Schema, fieldName: string): string {
+    let value =
+      (typeof schema.format === 'string' && FORMAT_VALUES[schema.format]) ||
+      FIELD_NAME_VALUES.find(([pattern]) => pattern.test(fieldName))?.[1] ||
+      'string';
+
+    const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+    const maxLength = typeof schema.maxLength === 'number' ? schema.maxLength : Infinity;
+    if (value.length < minLength) {
+      value = value.padEnd(minLength, 'x');
+    }
+    if (value.length > maxLength) {
+      value = value.slice(0, maxLength);
+    }
+
+    return value;
+  }
+
+  private generateNumber(schema: Schema, isInteger: boolean): number {
+    const minimum = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+    const maximum = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+
+    let value = minimum ?? (maximum !== undefined ? Math.min(1, maximum) : 1);
+    if (schema.exclusiveMinimum === true && minimum !== undefined) {
+      value = minimum + 1;
+    }
+    if (typeof schema.exclusiveMinimum === 'number') {
+      value = Math.max(value, schema.exclusiveMinimum + 1);
+    }
+
+    return isInteger ? Math.ceil(value) : value;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
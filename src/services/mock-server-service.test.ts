@@ -0,0 +1,126 @@
+/**
+ * @file 模拟服务器服务测试
+ */
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { buildMockResponse, matchMockRoute, MockServerService } from './mock-server-service';
+import type { ApiSpec } from './api-testing-service';
+
+// 测试环境中的 crypto 为浏览器 polyfill，没有 randomUUID
+Object.assign(crypto, { randomUUID: () => globalThis.crypto.randomUUID() });
+
+const apiSpec: ApiSpec = {
+  id: 'spec1',
+  title: 'Users',
+  version: '1.0.0',
+  endpoints: [
+    {
+      path: '/users/{id}',
+      method: 'GET',
+      summary: 'Get user',
+      responseSchemas: {
+        '200': {
+          type: 'object',
+          properties: { id: { type: 'integer' }, name: { type: 'string' } },
+        },
+        '404': { type: 'object', properties: { message: { type: 'string' } } },
+      },
+    },
+    {
+      path: '/users/me',
+      method: 'GET',
+      summary: 'Current user',
+      responseExamples: [{ id: 7, name: 'Me' }],
+    },
+    { path: '/users/{id}', method: 'DELETE', summary: 'Delete user' },
+  ],
+};
+
+describe('模拟服务器路由', () => {
+  it('静态路径应当优先于路径参数', () => {
+    expect(matchMockRoute(apiSpec, 'GET', '/users/me').endpoint?.summary).toBe('Current user');
+
+    const match = matchMockRoute(apiSpec, 'get', '/users/42');
+    expect(match.endpoint?.summary).toBe('Get user');
+    expect(match.pathParams).toEqual({ id: '42' });
+  });
+
+  it('方法不匹配时应当返回允许的方法', () => {
+    const match = matchMockRoute(apiSpec, 'PUT', '/users/42');
+    expect(match.endpoint).toBeUndefined();
+    expect(match.allowedMethods).toEqual(['GET', 'DELETE']);
+    expect(matchMockRoute(apiSpec, 'GET', '/orders').allowedMethods).toEqual([]);
+  });
+});
+
+describe('模拟响应', () => {
+  it('应当优先使用示例响应', () => {
+    expect(buildMockResponse(apiSpec.endpoints[1])).toEqual({
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: { id: 7, name: 'Me' },
+    });
+  });
+
+  it('应当按架构生成数据并填入路径参数', () => {
+    const response = buildMockResponse(apiSpec.endpoints[0], { pathParams: { id: '42' } });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 42, name: 'Example Name' });
+  });
+
+  it('应当返回请求的已声明状态码', () => {
+    const response = buildMockResponse(apiSpec.endpoints[0], { status: 404 });
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({ message: 'string' });
+  });
+
+  it('应当按范围和 default 声明的架构生成响应', () => {
+    const endpoint = {
+      path: '/orders',
+      method: 'GET',
+      summary: 'List orders',
+      responseSchemas: {
+        '200': { type: 'array', items: { type: 'integer' } },
+        '4XX': { type: 'object', properties: { error: { type: 'string' } } },
+        default: { type: 'object', properties: { message: { type: 'string' } } },
+      },
+    };
+
+    expect(buildMockResponse(endpoint, { status: 404 })).toEqual({
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+      body: { error: 'string' },
+    });
+    expect(buildMockResponse(endpoint, { status: 503 }).body).toEqual({ message: 'string' });
+  });
+
+  it('没有响应架构时应当返回空响应体', () => {
+    expect(buildMockResponse(apiSpec.endpoints[2])).toEqual({
+      status: 200,
+      headers: {},
+      body: null,
+    });
+  });
+});
+
+describe('模拟服务器', () => {
+  it('应当拒绝无效或未声明的 x-mock-status', async () => {
+    const service = new MockServerService();
+    const info = await service.start(apiSpec, { port: 0, host: '127.0.0.1' });
+    const request = (status: string) =>
+      fetch(`${info.url}/users/42`, { headers: { 'X-Mock-Status': status } });
+
+    try {
+      expect((await request('404')).status).toBe(404);
+      for (const status of ['5', '10000', '201', 'abc']) {
+        const response = await request(status);
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { error: string }).error).toContain('200, 404');
+      }
+      // 服务器仍然可用
+      expect((await fetch(`${info.url}/users/42`)).status).toBe(200);
+    } finally {
+      await service.stopAll();
+    }
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * @file 模拟服务器服务
+ * @description 根据ApiSpec启动本地HTTP模拟服务器，供被测前端或其他服务在后端就绪前访问
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { MockDataOptions, MockServerConfig } from '../types';
+import type { ApiEndpoint, ApiSpec } from './api-testing-service';
+import { pickSuccessStatus } from './parsers';
+import { ExampleBasedGenerator, SchemaBasedGenerator } from './mock-generators';
+import { countPathParams, matchPathTemplate } from '../utils/path-template';
+import { projectConfig } from '../utils/config';
+
+/**
+ * 模拟服务器启动选项
+ * baseUrl 为路由挂载的路径前缀，默认取ApiSpec中baseUrl的路径部分
+ */
+export type MockServerOptions = Partial<MockServerConfig> & {
+  host?: string;
+  mockDataOptions?: MockDataOptions;
+};
+
+/**
+ * 运行中的模拟服务器信息
+ */
+export interface MockServerInfo {
+  id: string;
+  specId: string;
+  url: string;
+  port: number;
+  basePath: string;
+  cors: boolean;
+  delay: number;
+  routes: string[];
+  startedAt: string;
+  requestCount: number;
+}
+
+/**
+ * 模拟响应
+ */
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface RunningMockServer {
+  info: MockServerInfo;
+  server: http.Server;
+}
+
+// 可通过该请求头指定返回规范中的某个状态码
+const MOCK_STATUS_HEADER = 'x-mock-status';
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+/**
+ * 将状态码键（200、2XX、default）转换为实际状态码
+ */
+function toStatusCode(key: string): number {
+  if (/^\d{3}$/.test(key)) {
+    return Number(key);
+  }
+  if (/^\dXX$/i.test(key)) {
+    return Number(key[0]) * 100;
+  }
+  return 200;
+}
+
+/**
+ * 查找状态码对应的声明键，依次匹配精确状态码、2XX 等范围和 default
+ * @param status 状态码
+ * @param declaredStatuses 规范中声明的状态码键
+ */
+function findStatusKey(status: number, declaredStatuses: string[]): string | undefined {
+  return (
+    declaredStatuses.find(key => key === String(status)) ??
+    declaredStatuses.find(key => /^\dXX$/i.test(key) && key[0] === String(status)[0]) ??
+    declaredStatuses.find(key => key.toLowerCase() === 'default')
+  );
+}
+
+/**
+ * 判断请求指定的状态码是否有效：必须是100-599的整数，且在规范中声明（2XX 等范围或 default 也算声明）
+ * @param status 请求指定的状态码
+ * @param declaredStatuses 规范中声明的状态码键
+ */
+function isDeclaredStatus(status: number, declaredStatuses: string[]): boolean {
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    return false;
+  }
+  return findStatusKey(status, declaredStatuses) !== undefined;
+}
+
+/**
+ * 根据路径参数修正响应中的同名字段，使 GET /users/42 返回 id 为 42 的数据
+ */
+function applyPathParams(body: unknown, params: Record<string, string>): unknown {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return body;
+  }
+
+  const result = { ...(body as Record<string, unknown>) };
+  for (const [name, value] of Object.entries(params)) {
+    if (name in result) {
+      result[name] =
+        typeof result[name] === 'number' && !isNaN(Number(value)) ? Number(value) : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 为端点生成模拟响应
+ * 成功响应优先使用文档中的示例，否则按响应架构生成数据
+ * @param endpoint API端点
+ * @param options.status 期望的状态码，需在规范中声明
+ * @param options.pathParams 请求中的路径参数
+ * @param options.mockDataOptions 数据生成选项
+ * @returns 模拟响应
+ */
+export function buildMockResponse(
+  endpoint: ApiEndpoint,
+  options: {
+    status?: number;
+    pathParams?: Record<string, string>;
+    mockDataOptions?: MockDataOptions;
+  } = {}
+): MockResponse {
+  const schemas = endpoint.responseSchemas || {};
+  const declaredStatuses = Object.keys(schemas);
+  const successKey = pickSuccessStatus(declaredStatuses);
+
+  const statusKey =
+    options.status !== undefined ? findStatusKey(options.status, declaredStatuses) : successKey;
+  const status = options.status ?? (statusKey ? toStatusCode(statusKey) : 200);
+  const isSuccess = status >= 200 && status < 300;
+  const mockDataOptions = { useExamples: true, ...options.mockDataOptions };
+
+  let body: unknown = null;
+  // 文档中的响应示例只对应成功状态码
+  if (
+    isSuccess &&
+    statusKey === successKey &&
+    mockDataOptions.useExamples &&
+    endpoint.responseExamples?.length
+  ) {
+    body = new ExampleBasedGenerator(mockDataOptions).generate(endpoint.responseExamples[0]);
+  } else {
+    const schema =
+      (statusKey ? schemas[statusKey] : undefined) ??
+      (isSuccess ? endpoint.responseSchema : undefined);
+    if (schema !== undefined) {
+      body = new SchemaBasedGenerator(mockDataOptions).generate(schema);
+    }
+  }
+
+  return {
+    status,
+    headers: body === null ? {} : { 'Content-Type': 'application/json' },
+    body: applyPathParams(body, options.pathParams || {}),
+  };
+}
+
+/**
+ * 查找与请求匹配的端点，静态路径优先于参数路径
+ * @param apiSpec API规范
+ * @param method HTTP方法
+ * @param pathname 去除前缀后的请求路径
+ * @returns 匹配的端点与路径参数；路径匹配但方法不匹配时 endpoint 为 undefined 且 allowedMethods 非空
+ */
+export function matchMockRoute(
+  apiSpec: ApiSpec,
+  method: string,
+  pathname: string
+): { endpoint?: ApiEndpoint; pathParams: Record<string, string>; allowedMethods: string[] } {
+  const candidates = [...apiSpec.endpoints].sort(
+    (a, b) => countPathParams(a.path) - countPathParams(b.path)
+  );
+  const allowedMethods: string[] = [];
+
+  for (const endpoint of candidates) {
+    const pathParams = matchPathTemplate(endpoint.path, pathname);
+    if (!pathParams) {
+      continue;
+    }
+    if (endpoint.method.toUpperCase() === method.toUpperCase()) {
+      return { endpoint, pathParams, allowedMethods: [] };
+    }
+    allowedMethods.push(endpoint.method.toUpperCase());
+  }
+
+  return { pathParams: {}, allowedMethods };
+}
+
+/**
+ * 模拟服务器服务
+ */
+export class MockServerService {
+  private servers: Map<string, RunningMockServer> = new Map();
+
+  /**
+   * 启动模拟服务器
+   * @param apiSpec API规范
+   * @param options 服务器配置
+   * @returns 服务器信息
+   */
+  async start(apiSpec: ApiSpec, options: MockServerOptions = {}): Promise<MockServerInfo> {
+    if (options.type === 'msw') {
+      throw new Error('Mock server type "msw" is not supported, use "simple"');
+    }
+
+    const host = options.host || 'localhost';
+    const basePath = this.resolveBasePath(options.baseUrl ?? apiSpec.baseUrl);
+    const info: MockServerInfo = {
+      id: randomUUID(),
+      specId: apiSpec.id,
+      url: '',
+      port: options.port ?? projectConfig.mockPort,
+      basePath,
+      cors: options.cors ?? true,
+      delay: options.delay ?? 0,
+      routes: apiSpec.endpoints.map(
+        endpoint => `${endpoint.method.toUpperCase()} ${basePath}${endpoint.path}`
+      ),
+      startedAt: new Date().toISOString(),
+      requestCount: 0,
+    };
+
+    const server = http.createServer((req, res) => {
+      info.requestCount++;
+      try {
+        this.handleRequest(apiSpec, info, options.mockDataOptions, req, res);
+      } catch (error) {
+        // 请求处理中的异常不能抛出监听器，否则会终止整个进程
+        this.sendServerError(res, error as Error);
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(info.port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // 端口为0时由系统分配
+    const address = server.address();
+    if (address && typeof address === 'object') {
+      info.port = address.port;
+    }
+    info.url = `http://${host}:${info.port}${basePath}`;
+
+    this.servers.set(info.id, { info, server });
+    console.log(`Mock server for ${apiSpec.title} running at ${info.url}`);
+
+    return info;
+  }
+
+  /**
+   * 停止模拟服务器
+   * @param serverId 服务器ID
+   */
+  async stop(serverId: string): Promise<void> {
+    const running = this.servers.get(serverId);
+    if (!running) {
+      throw new Error(`Mock server not found: ${serverId}`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      running.server.close(error => (error ? reject(error) : resolve()));
+      running.server.closeAllConnections();
+    });
+    this.servers.delete(serverId);
+  }
+
+  /**
+   * 停止所有模拟服务器
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.servers.keys()].map(serverId => this.stop(serverId)));
+  }
+
+  /**
+   * 列出运行中的模拟服务器
+   * @returns 服务器信息数组
+   */
+  list(): MockServerInfo[] {
+    return [...this.servers.values()].map(running => running.info);
+  }
+
+  private resolveBasePath(baseUrl: string | undefined): string {
+    if (!baseUrl) {
+      return '';
+    }
+    return new URL(baseUrl, 'http://localhost').pathname.replace(/\/$/, '');
+  }
+
+  private handleRequest(
+    apiSpec: ApiSpec,
+    info: MockServerInfo,
+    mockDataOptions: MockDataOptions | undefined,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    const method = (req.method || 'GET').toUpperCase();
+    const headers: Record<string, string> = info.cors ? { ...CORS_HEADERS } : {};
+
+    const send = (response: MockResponse): void => {
+      const payload = response.body === null ? undefined : JSON.stringify(response.body);
+      setTimeout(() => {
+        try {
+          res.writeHead(response.status, { ...headers, ...response.headers });
+          res.end(method === 'HEAD' ? undefined : payload);
+        } catch (error) {
+          this.sendServerError(res, error as Error);
+        }
+      }, info.delay);
+    };
+
+    // CORS预检请求
+    if (method === 'OPTIONS' && info.cors) {
+      res.writeHead(204, headers);
+      res.end();
+      return;
+    }
+
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (info.basePath && pathname !== info.basePath && !pathname.startsWith(`${info.basePath}/`)) {
+      send(this.errorResponse(404, `No mock route for ${method} ${pathname}`));
+      return;
+    }
+
+    const routePath = pathname.slice(info.basePath.length) || '/';
+    const match = matchMockRoute(apiSpec, method === 'HEAD' ? 'GET' : method, routePath);
+
+    if (!match.endpoint) {
+      if (match.allowedMethods.length > 0) {
+        headers.Allow = match.allowedMethods.join(', ');
+        send(this.errorResponse(405, `Method ${method} not allowed for ${pathname}`));
+      } else {
+        send(this.errorResponse(404, `No mock route for ${method} ${pathname}`));
+      }
+      return;
+    }
+
+    const requestedStatus = req.headers[MOCK_STATUS_HEADER];
+    let status: number | undefined;
+    if (requestedStatus !== undefined) {
+      status = Number(requestedStatus);
+      const declaredStatuses = Object.keys(match.endpoint.responseSchemas || {});
+      if (!isDeclaredStatus(status, declaredStatuses)) {
+        send(
+          this.errorResponse(
+            400,
+            `Invalid ${MOCK_STATUS_HEADER}: ${String(requestedStatus)}, declared statuses: ${
+              declaredStatuses.join(', ') || 'none'
+            }`
+          )
+        );
+        return;
+      }
+    }
+
+    send(
+      buildMockResponse(match.endpoint, {
+        status,
+        pathParams: match.pathParams,
+        mockDataOptions,
+      })
+    );
+  }
+
+  /**
+   * 返回500，响应头已发送时直接断开连接
+   */
+  private sendServerError(res: http.ServerResponse, error: Error): void {
+    console.error('Error handling mock request:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error.message }));
+  }
+
+  private errorResponse(status: number, message: string): MockResponse {
+    return { status, headers: { 'Content-Type': 'application/json' }, body: { error: message } };
+  }
+}
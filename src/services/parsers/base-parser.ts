@@ -0,0 +1,86 @@
+/**
+ * @file API文档解析器基础定义
+ * @description 解析器接口、公共类型以及JSON/YAML文档加载
+ */
+
+import { parse as parseYaml } from 'yaml';
+import type { ApiEndpoint } from '../api-testing-service';
+
+/**
+ * 结构化解析后的API文档
+ */
+export interface ParsedApiDocument {
+  title: string;
+  version: string;
+  description?: string;
+  baseUrl?: string;
+  securitySchemes?: Record<string, unknown>;
+  endpoints: ApiEndpoint[];
+}
+
+/**
+ * API文档解析器接口
+ */
+export interface ApiDocumentParser {
+  /**
+   * 判断是否能够解析该文档
+   * @param document 已加载的文档对象
+   */
+  canParse(document: Record<string, unknown>): boolean;
+
+  /**
+   * 解析文档
+   * @param document 已加载的文档对象
+   * @returns 解析后的API文档
+   */
+  parse(document: Record<string, unknown>): ParsedApiDocument;
+}
+
+/**
+ * 支持解析的HTTP方法
+ */
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+
+/**
+ * 加载JSON或YAML格式的规范文档
+ * @param content 文档内容
+ * @returns 文档对象
+ */
+export function loadSpecDocument(content: string): Record<string, unknown> {
+  const trimmed = content.trim();
+  let document: unknown;
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    document = JSON.parse(trimmed);
+  } else {
+    document = parseYaml(trimmed);
+  }
+
+  if (document === null || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('API specification must be a JSON or YAML object');
+  }
+
+  return document as Record<string, unknown>;
+}
+
+/**
+ * 从内容类型映射中选择JSON优先的媒体类型
+ * @param content 媒体类型映射
+ * @returns 选中的媒体类型
+ */
+export function pickMediaType(content: Record<string, unknown> | undefined): string | undefined {
+  const mediaTypes = Object.keys(content || {});
+  return mediaTypes.find(type => type.includes('json')) || mediaTypes[0];
+}
+
+/**
+ * 选择主要的成功状态码（优先2xx，其次default）
+ * @param statusCodes 状态码列表
+ * @returns 状态码
+ */
+export function pickSuccessStatus(statusCodes: string[]): string | undefined {
+  return (
+    statusCodes.filter(code => /^2\d\d$|^2XX$/i.test(code)).sort()[0] ||
+    statusCodes.find(code => code === 'default')
+  );
+}
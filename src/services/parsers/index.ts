@@ -0,0 +1,45 @@
+/**
+ * @file API文档解析器入口
+ * @description 根据文档内容选择合适的解析器
+ */
+
+import type { ApiDocFormat } from '../api-testing-service';
+import { ApiDocumentParser, ParsedApiDocument, loadSpecDocument } from './base-parser';
+import { OpenApiV2Parser } from './openapi-v2-parser';
+import { OpenApiV3Parser } from './openapi-v3-parser';
+import { PostmanParser } from './postman-parser';
+
+export * from './base-parser';
+export * from './ref-resolver';
+export { OpenApiV2Parser } from './openapi-v2-parser';
+export { OpenApiV3Parser } from './openapi-v3-parser';
+export * from './postman-parser';
+
+/**
+ * 结构化解析API规范文档
+ * @param content JSON或YAML文档内容
+ * @param format 文档格式，仅用于错误提示；实际解析器由文档内容决定
+ * @param options.environment Postman环境变量
+ * @returns 解析后的文档，无法识别时返回null
+ */
+export function parseApiDocument(
+  content: string,
+  format: ApiDocFormat = 'auto',
+  options: { environment?: Record<string, string> } = {}
+): ParsedApiDocument | null {
+  const parsers: ApiDocumentParser[] = [
+    new OpenApiV3Parser(),
+    new OpenApiV2Parser(),
+    new PostmanParser(options.environment),
+  ];
+
+  const document = loadSpecDocument(content);
+  const parser = parsers.find(candidate => candidate.canParse(document));
+
+  if (!parser) {
+    console.warn(`没有可用于${format}格式文档的结构化解析器`);
+    return null;
+  }
+
+  return parser.parse(document);
+}
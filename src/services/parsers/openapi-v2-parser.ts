@@ -0,0 +1,233 @@
+/**
+ * @file Swagger 2.0 解析器
+ * @description 将Swagger 2.0文档结构化解析为ApiEndpoint列表
+ */
+
+import type { ApiEndpoint, ApiParameter } from '../api-testing-service';
+import {
+  ApiDocumentParser,
+  HTTP_METHODS,
+  ParsedApiDocument,
+  pickSuccessStatus,
+} from './base-parser';
+import { resolveRefs } from './ref-resolver';
+
+interface SwaggerParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'body' | 'formData';
+  required?: boolean;
+  description?: string;
+  schema?: unknown;
+  type?: string;
+  default?: unknown;
+  'x-example'?: unknown;
+  [key: string]: unknown;
+}
+
+interface SwaggerOperation {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: string[];
+  consumes?: string[];
+  parameters?: SwaggerParameter[];
+  responses?: Record<
+    string,
+    { description?: string; schema?: unknown; examples?: Record<string, unknown> }
+  >;
+  security?: Array<Record<string, string[]>>;
+}
+
+interface SwaggerDocument {
+  swagger: string;
+  info?: { title?: string; version?: string; description?: string };
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  paths?: Record<string, Record<string, unknown>>;
+  securityDefinitions?: Record<string, unknown>;
+  security?: Array<Record<string, string[]>>;
+}
+
+// 非body参数上可直接映射为JSON Schema的字段
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'enum',
+  'default',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+];
+
+/**
+ * Swagger 2.0 格式解析器
+ */
+export class OpenApiV2Parser implements ApiDocumentParser {
+  canParse(document: Record<string, unknown>): boolean {
+    return typeof document.swagger === 'string' && document.swagger.startsWith('2');
+  }
+
+  parse(document: Record<string, unknown>): ParsedApiDocument {
+    const doc = resolveRefs<SwaggerDocument>(document, document);
+
+    return {
+      title: doc.info?.title || 'Unknown API',
+      version: doc.info?.version || '1.0.0',
+      description: doc.info?.description,
+      baseUrl: this.extractBaseUrl(doc),
+      securitySchemes: doc.securityDefinitions,
+      endpoints: this.extractEndpoints(doc),
+    };
+  }
+
+  /**
+   * 由 schemes/host/basePath 组合基础URL
+   */
+  private extractBaseUrl(doc: SwaggerDocument): string | undefined {
+    if (!doc.host) {
+      return doc.basePath;
+    }
+
+    const scheme = doc.schemes?.[0] || 'https';
+    return `${scheme}://${doc.host}${doc.basePath || ''}`;
+  }
+
+  /**
+   * 提取所有端点
+   */
+  private extractEndpoints(doc: SwaggerDocument): ApiEndpoint[] {
+    const endpoints: ApiEndpoint[] = [];
+
+    for (const [path, pathItem] of Object.entries(doc.paths || {})) {
+      const pathParameters = (pathItem.parameters as SwaggerParameter[] | undefined) || [];
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method] as SwaggerOperation | undefined;
+        if (!operation) {
+          continue;
+        }
+
+        const allParameters = this.mergeParameters(pathParameters, operation.parameters || []);
+        const bodyParameter = allParameters.find(param => param.in === 'body');
+        const formParameters = allParameters.filter(param => param.in === 'formData');
+        const consumes = operation.consumes || doc.consumes || [];
+
+        const responseSchemas: Record<string, unknown> = {};
+        for (const [statusCode, response] of Object.entries(operation.responses || {})) {
+          responseSchemas[statusCode] = response.schema;
+        }
+        const successStatus = pickSuccessStatus(Object.keys(operation.responses || {}));
+        const successExamples = successStatus
+          ? operation.responses?.[successStatus]?.examples
+          : undefined;
+
+        let requestSchema: unknown;
+        let requestContentType: string | undefined;
+        if (bodyParameter) {
+          requestSchema = bodyParameter.schema;
+          requestContentType = consumes.find(type => type.includes('json')) || 'application/json';
+        } else if (formParameters.length > 0) {
+          requestSchema = this.buildFormSchema(formParameters);
+          requestContentType =
+            consumes.find(type => type.includes('form')) || 'application/x-www-form-urlencoded';
+        }
+
+        const security = operation.security || doc.security;
+
+        endpoints.push({
+          path,
+          method: method.toUpperCase(),
+          summary: operation.summary || `${method.toUpperCase()} ${path}`,
+          description: operation.description,
+          operationId: operation.operationId,
+          tags: operation.tags,
+          parameters: allParameters
+            .filter(param => param.in !== 'body' && param.in !== 'formData')
+            .map(param => this.toApiParameter(param)),
+          requestContentType,
+          requestBodyRequired: bodyParameter?.required ?? (formParameters.length > 0 || undefined),
+          requestSchema,
+          responseSchema: successStatus ? responseSchemas[successStatus] : undefined,
+          responseSchemas,
+          requestExamples:
+            bodyParameter?.['x-example'] !== undefined ? [bodyParameter['x-example']] : [],
+          responseExamples: successExamples ? Object.values(successExamples) : [],
+          security: security
+            ? security.flatMap(requirement => Object.keys(requirement))
+            : undefined,
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * 合并路径级与操作级参数
+   */
+  private mergeParameters(
+    pathParameters: SwaggerParameter[],
+    operationParameters: SwaggerParameter[]
+  ): SwaggerParameter[] {
+    const merged = new Map<string, SwaggerParameter>();
+    for (const param of [...pathParameters, ...operationParameters]) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+    return Array.from(merged.values());
+  }
+
+  /**
+   * 将非body参数的类型字段转换为JSON Schema
+   */
+  private toSchema(param: SwaggerParameter): Record<string, unknown> {
+    const schema: Record<string, unknown> = {};
+    for (const keyword of SCHEMA_KEYWORDS) {
+      if (param[keyword] !== undefined) {
+        schema[keyword] = param[keyword];
+      }
+    }
+    return schema;
+  }
+
+  private toApiParameter(param: SwaggerParameter): ApiParameter {
+    return {
+      name: param.name,
+      in: param.in as ApiParameter['in'],
+      required: param.in === 'path' ? true : param.required,
+      description: param.description,
+      schema: this.toSchema(param),
+      example: param['x-example'] ?? param.default,
+    };
+  }
+
+  /**
+   * 将formData参数组合为对象架构
+   */
+  private buildFormSchema(formParameters: SwaggerParameter[]): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+
+    for (const param of formParameters) {
+      properties[param.name] = this.toSchema(param);
+      if (param.required) {
+        required.push(param.name);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+}
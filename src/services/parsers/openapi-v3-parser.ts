@@ -0,0 +1,206 @@
+/**
+ * @file OpenAPI 3.x 解析器
+ * @description 将OpenAPI 3.x文档结构化解析为ApiEndpoint列表
+ */
+
+import type { ApiEndpoint, ApiParameter } from '../api-testing-service';
+import {
+  ApiDocumentParser,
+  HTTP_METHODS,
+  ParsedApiDocument,
+  pickMediaType,
+  pickSuccessStatus,
+} from './base-parser';
+import { resolveRefs } from './ref-resolver';
+
+interface OpenApiV3MediaType {
+  schema?: unknown;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+}
+
+interface OpenApiV3Parameter {
+  name: string;
+  in: ApiParameter['in'];
+  required?: boolean;
+  description?: string;
+  schema?: { example?: unknown; default?: unknown };
+  example?: unknown;
+}
+
+interface OpenApiV3Operation {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: string[];
+  parameters?: OpenApiV3Parameter[];
+  requestBody?: {
+    required?: boolean;
+    content?: Record<string, OpenApiV3MediaType>;
+  };
+  responses?: Record<
+    string,
+    { description?: string; content?: Record<string, OpenApiV3MediaType> }
+  >;
+  security?: Array<Record<string, string[]>>;
+}
+
+interface OpenApiV3Document {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default: string }> }>;
+  paths?: Record<string, Record<string, unknown>>;
+  components?: { securitySchemes?: Record<string, unknown> };
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * OpenAPI 3.x 格式解析器
+ */
+export class OpenApiV3Parser implements ApiDocumentParser {
+  canParse(document: Record<string, unknown>): boolean {
+    return typeof document.openapi === 'string' && document.openapi.startsWith('3');
+  }
+
+  parse(document: Record<string, unknown>): ParsedApiDocument {
+    // 先整体展开 $ref，后续遍历时无需再关心引用
+    const doc = resolveRefs<OpenApiV3Document>(document, document);
+
+    return {
+      title: doc.info?.title || 'Unknown API',
+      version: doc.info?.version || '1.0.0',
+      description: doc.info?.description,
+      baseUrl: this.extractBaseUrl(doc),
+      securitySchemes: doc.components?.securitySchemes,
+      endpoints: this.extractEndpoints(doc),
+    };
+  }
+
+  /**
+   * 提取基础URL（替换服务器变量为默认值）
+   */
+  private extractBaseUrl(doc: OpenApiV3Document): string | undefined {
+    const server = doc.servers?.[0];
+    if (!server) {
+      return undefined;
+    }
+
+    let baseUrl = server.url;
+    for (const [name, variable] of Object.entries(server.variables || {})) {
+      baseUrl = baseUrl.replace(new RegExp(`{${name}}`, 'g'), variable.default);
+    }
+    return baseUrl;
+  }
+
+  /**
+   * 提取所有端点
+   */
+  private extractEndpoints(doc: OpenApiV3Document): ApiEndpoint[] {
+    const endpoints: ApiEndpoint[] = [];
+
+    for (const [path, pathItem] of Object.entries(doc.paths || {})) {
+      const pathParameters = (pathItem.parameters as OpenApiV3Parameter[] | undefined) || [];
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method] as OpenApiV3Operation | undefined;
+        if (!operation) {
+          continue;
+        }
+
+        const responseSchemas = this.extractResponseSchemas(operation);
+        const successStatus = pickSuccessStatus(Object.keys(operation.responses || {}));
+        const requestMediaType = pickMediaType(operation.requestBody?.content);
+        const requestContent = requestMediaType
+          ? operation.requestBody?.content?.[requestMediaType]
+          : undefined;
+        const security = operation.security || doc.security;
+
+        endpoints.push({
+          path,
+          method: method.toUpperCase(),
+          summary: operation.summary || `${method.toUpperCase()} ${path}`,
+          description: operation.description,
+          operationId: operation.operationId,
+          tags: operation.tags,
+          parameters: this.mergeParameters(pathParameters, operation.parameters || []),
+          requestContentType: requestMediaType,
+          requestBodyRequired: operation.requestBody?.required,
+          requestSchema: requestContent?.schema,
+          responseSchema: successStatus ? responseSchemas[successStatus] : undefined,
+          responseSchemas,
+          requestExamples: this.extractExamples(requestContent),
+          responseExamples: successStatus
+            ? this.extractExamples(this.pickResponseContent(operation, successStatus))
+            : [],
+          security: security
+            ? security.flatMap(requirement => Object.keys(requirement))
+            : undefined,
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * 合并路径级与操作级参数（操作级覆盖同名同位置参数）
+   */
+  private mergeParameters(
+    pathParameters: OpenApiV3Parameter[],
+    operationParameters: OpenApiV3Parameter[]
+  ): ApiParameter[] {
+    const merged = new Map<string, ApiParameter>();
+
+    for (const param of [...pathParameters, ...operationParameters]) {
+      merged.set(`${param.in}:${param.name}`, {
+        name: param.name,
+        in: param.in,
+        required: param.in === 'path' ? true : param.required,
+        description: param.description,
+        schema: param.schema,
+        example: param.example ?? param.schema?.example ?? param.schema?.default,
+      });
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * 提取按状态码索引的响应架构
+   */
+  private extractResponseSchemas(operation: OpenApiV3Operation): Record<string, unknown> {
+    const schemas: Record<string, unknown> = {};
+
+    for (const statusCode of Object.keys(operation.responses || {})) {
+      schemas[statusCode] = this.pickResponseContent(operation, statusCode)?.schema;
+    }
+
+    return schemas;
+  }
+
+  private pickResponseContent(
+    operation: OpenApiV3Operation,
+    statusCode: string
+  ): OpenApiV3MediaType | undefined {
+    const content = operation.responses?.[statusCode]?.content;
+    const mediaType = pickMediaType(content);
+    return mediaType ? content?.[mediaType] : undefined;
+  }
+
+  /**
+   * 提取媒体类型中的示例
+   */
+  private extractExamples(mediaType: OpenApiV3MediaType | undefined): unknown[] {
+    if (!mediaType) {
+      return [];
+    }
+
+    if (mediaType.examples) {
+      return Object.values(mediaType.examples)
+        .map(example => example.value)
+        .filter(value => value !== undefined);
+    }
+
+    return mediaType.example !== undefined ? [mediaType.example] : [];
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * @file API文档解析器测试
+ */
+import { describe, it, expect } from 'vitest';
+import { parseApiDocument, resolveRefs } from './index';
+
+const openApiV3Yaml = `
+openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 2.1.0
+servers:
+  - url: https://{env}.example.com/v1
+    variables:
+      env:
+        default: api
+security:
+  - bearerAuth: []
+paths:
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        schema:
+          type: integer
+    get:
+      summary: Get a pet
+      parameters:
+        - name: X-Trace-Id
+          in: header
+          schema:
+            type: string
+        - name: fields
+          in: query
+          schema:
+            type: string
+            default: name
+      responses:
+        '200':
+          description: ok
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+              example:
+                id: 1
+                name: Rex
+        '404':
+          description: not found
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Error'
+  /pets:
+    post:
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Pet'
+      responses:
+        '201':
+          description: created
+components:
+  securitySchemes:
+    bearerAuth:
+      type: http
+      scheme: bearer
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+        parent:
+          $ref: '#/components/schemas/Pet'
+    Error:
+      type: object
+      properties:
+        message:
+          type: string
+`;
+
+const swaggerJson = JSON.stringify({
+  swagger: '2.0',
+  info: { title: 'Legacy API', version: '1.0' },
+  host: 'legacy.example.com',
+  basePath: '/api',
+  schemes: ['http'],
+  paths: {
+    '/users': {
+      post: {
+        parameters: [
+          { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/User' } },
+          { name: 'dryRun', in: 'query', type: 'boolean' },
+        ],
+        responses: {
+          '201': { description: 'created', schema: { $ref: '#/definitions/User' } },
+          '400': { description: 'bad request' },
+        },
+      },
+    },
+    '/login': {
+      post: {
+        consumes: ['application/x-www-form-urlencoded'],
+        parameters: [
+          { name: 'username', in: 'formData', type: 'string', required: true },
+          { name: 'password', in: 'formData', type: 'string', minLength: 8 },
+        ],
+        responses: { '200': { description: 'ok' } },
+      },
+    },
+  },
+  definitions: {
+    User: { type: 'object', properties: { email: { type: 'string', format: 'email' } } },
+  },
+});
+
+describe('API文档解析器', () => {
+  describe('OpenAPI 3.x', () => {
+    const parsed = parseApiDocument(openApiV3Yaml)!;
+
+    it('应当解析YAML文档的基本信息和服务器地址', () => {
+      expect(parsed.title).toBe('Pet Store');
+      expect(parsed.version).toBe('2.1.0');
+      expect(parsed.baseUrl).toBe('https://api.example.com/v1');
+      expect(parsed.securitySchemes).toHaveProperty('bearerAuth');
+      expect(parsed.endpoints).toHaveLength(2);
+    });
+
+    it('应当合并路径级和操作级参数', () => {
+      const endpoint = parsed.endpoints.find(e => e.method === 'GET')!;
+      expect(endpoint.parameters).toEqual([
+        expect.objectContaining({ name: 'petId', in: 'path', required: true }),
+        expect.objectContaining({ name: 'X-Trace-Id', in: 'header' }),
+        expect.objectContaining({ name: 'fields', in: 'query', example: 'name' }),
+      ]);
+      expect(endpoint.security).toEqual(['bearerAuth']);
+    });
+
+    it('应当解析引用并按状态码提取响应架构', () => {
+      const endpoint = parsed.endpoints.find(e => e.method === 'GET')!;
+      expect(endpoint.responseSchema).toMatchObject({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+      });
+      expect(endpoint.responseSchemas?.['404']).toMatchObject({
+        properties: { message: { type: 'string' } },
+      });
+      expect(endpoint.responseExamples).toEqual([{ id: 1, name: 'Rex' }]);
+    });
+
+    it('应当提取请求体架构', () => {
+      const endpoint = parsed.endpoints.find(e => e.method === 'POST')!;
+      expect(endpoint.requestContentType).toBe('application/json');
+      expect(endpoint.requestBodyRequired).toBe(true);
+      expect(endpoint.requestSchema).toMatchObject({ required: ['name'] });
+      expect(endpoint.summary).toBe('POST /pets');
+    });
+  });
+
+  describe('Swagger 2.0', () => {
+    const parsed = parseApiDocument(swaggerJson)!;
+
+    it('应当组合基础URL', () => {
+      expect(parsed.baseUrl).toBe('http://legacy.example.com/api');
+    });
+
+    it('应当将body参数转换为请求体架构', () => {
+      const endpoint = parsed.endpoints.find(e => e.path === '/users')!;
+      expect(endpoint.requestSchema).toEqual({
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } },
+      });
+      expect(endpoint.parameters).toEqual([
+        expect.objectContaining({ name: 'dryRun', in: 'query', schema: { type: 'boolean' } }),
+      ]);
+      expect(Object.keys(endpoint.responseSchemas || {})).toEqual(['201', '400']);
+    });
+
+    it('应当将formData参数组合为对象架构', () => {
+      const endpoint = parsed.endpoints.find(e => e.path === '/login')!;
+      expect(endpoint.requestContentType).toBe('application/x-www-form-urlencoded');
+      expect(endpoint.requestSchema).toEqual({
+        type: 'object',
+        properties: {
+          username: { type: 'string' },
+          password: { type: 'string', minLength: 8 },
+        },
+        required: ['username'],
+      });
+    });
+  });
+
+  it('无法识别的文档应当返回null', () => {
+    expect(parseApiDocument('{"info": {"title": "x"}}')).toBeNull();
+  });
+
+  it('循环引用应当保留为$ref', () => {
+    const doc = {
+      definitions: {
+        Node: { type: 'object', properties: { next: { $ref: '#/definitions/Node' } } },
+      },
+    };
+    const resolved = resolveRefs<{ properties: { next: unknown } }>(
+      { $ref: '#/definitions/Node' },
+      doc
+    );
+    expect(resolved.properties.next).toEqual({ $ref: '#/definitions/Node' });
+  });
+});
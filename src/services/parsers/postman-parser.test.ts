@@ -0,0 +1,200 @@
+/**
+ * @file Postman集合解析器测试
+ */
+import { describe, it, expect } from 'vitest';
+import { PostmanParser, isPostmanCollection, loadPostmanEnvironment } from './postman-parser';
+
+const collection = {
+  info: {
+    _postman_id: 'abc',
+    name: 'Shop API',
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  variable: [
+    { key: 'baseUrl', value: 'https://collection.example.com' },
+    { key: 'token', value: 'collection-token' },
+  ],
+  item: [
+    {
+      name: 'Orders',
+      variable: [{ key: 'baseUrl', value: 'https://folder.example.com' }],
+      item: [
+        {
+          name: 'Create order',
+          request: {
+            method: 'POST',
+            header: [
+              { key: 'X-Client', value: 'qa' },
+              { key: 'X-Disabled', value: 'x', disabled: true },
+            ],
+            url: {
+              raw: '{{baseUrl}}/orders?notify=true',
+              host: ['{{baseUrl}}'],
+              path: ['orders'],
+              query: [{ key: 'notify', value: 'true' }],
+            },
+            body: { mode: 'raw', raw: '{"sku": "{{sku}}", "qty": 1}' },
+          },
+          response: [
+            { name: 'Created', code: 201, body: '{"id": 42, "status": "new"}' },
+            { name: 'Invalid', code: 400, body: '{"error": "bad"}' },
+          ],
+        },
+        {
+          name: 'Get order',
+          request: {
+            method: 'GET',
+            auth: { type: 'noauth' },
+            url: {
+              raw: '{{baseUrl}}/orders/:orderId',
+              path: ['orders', ':orderId'],
+              variable: [{ key: 'orderId', value: '42' }],
+            },
+          },
+        },
+      ],
+    },
+    {
+      name: 'Login',
+      request: {
+        method: 'POST',
+        auth: {
+          type: 'apikey',
+          apikey: [
+            { key: 'key', value: 'api_key' },
+            { key: 'value', value: 'secret' },
+            { key: 'in', value: 'query' },
+          ],
+        },
+        url: '{{baseUrl}}/login',
+        body: {
+          mode: 'urlencoded',
+          urlencoded: [
+            { key: 'user', value: 'alice smith' },
+            { key: 'password', value: '{{password}}' },
+          ],
+        },
+      },
+    },
+    {
+      name: 'Upload avatar',
+      request: {
+        method: 'POST',
+        auth: {
+          type: 'basic',
+          basic: [
+            { key: 'username', value: 'alice' },
+            { key: 'password', value: '{{password}}' },
+          ],
+        },
+        header: [{ key: 'Content-Type', value: 'multipart/form-data' }],
+        url: '{{baseUrl}}/avatar',
+        body: {
+          mode: 'formdata',
+          formdata: [
+            { key: 'title', value: 'me' },
+            { key: 'file', type: 'file', src: '/tmp/avatar.png' },
+          ],
+        },
+      },
+    },
+  ],
+};
+
+const parseSteps = (value: string | undefined): Record<string, unknown> =>
+  JSON.parse(value || '{}') as Record<string, unknown>;
+
+describe('PostmanParser', () => {
+  it('应当识别Postman集合', () => {
+    expect(isPostmanCollection(collection)).toBe(true);
+    expect(isPostmanCollection({ openapi: '3.0.0', info: {} })).toBe(false);
+  });
+
+  it('应当读取启用的环境变量', () => {
+    expect(
+      loadPostmanEnvironment({
+        values: [
+          { key: 'a', value: '1', enabled: true },
+          { key: 'b', value: '2', enabled: false },
+        ],
+      })
+    ).toEqual({ a: '1' });
+  });
+
+  const result = new PostmanParser({
+    baseUrl: 'https://env.example.com',
+    sku: 'SKU-1',
+    password: 'hunter2',
+  }).parseCollection(collection);
+
+  it('文件夹应当映射为包含多个请求步骤的测试用例', () => {
+    expect(result.testCases.map(testCase => testCase.name)).toEqual([
+      'Orders',
+      'Login',
+      'Upload avatar',
+    ]);
+    expect(result.testCases.map(testCase => testCase.id)).toEqual(['tc1', 'tc2', 'tc3']);
+    expect(result.testCases[0].steps).toHaveLength(2);
+    expect(result.document.endpoints.map(e => `${e.method} ${e.path}`)).toEqual([
+      'POST /orders',
+      'GET /orders/{orderId}',
+      'POST /login',
+      'POST /avatar',
+    ]);
+  });
+
+  it('应当替换集合变量并继承集合认证，环境变量保留为占位符', () => {
+    const step = result.testCases[0].steps[0];
+    // 环境中的 baseUrl 优先于文件夹变量，且不写入测试用例和规范
+    expect(step.selector).toBe('{{baseUrl}}/orders?notify=true');
+    expect(result.document.baseUrl).toBe('https://collection.example.com');
+    expect(JSON.stringify(result.testCases)).not.toContain('SKU-1');
+
+    const requestData = parseSteps(step.value);
+    expect(requestData.headers).toEqual({
+      'X-Client': 'qa',
+      Authorization: 'Bearer collection-token',
+      'Content-Type': 'application/json',
+    });
+    expect(requestData.body).toEqual({ sku: '{{sku}}', qty: 1 });
+  });
+
+  it('保存的示例响应应当作为期望结果', () => {
+    const requestData = parseSteps(result.testCases[0].steps[0].value);
+    expect(requestData.expectedStatus).toBe(201);
+    expect(requestData.expectedResponse).toEqual({ id: 42, status: 'new' });
+
+    const endpoint = result.document.endpoints[0];
+    expect(Object.keys(endpoint.responseSchemas || {})).toEqual(['201', '400']);
+    // 示例推断的架构不作为响应契约
+    expect(endpoint.schemasInferred).toBe(true);
+    expect(endpoint.responseSchema).toEqual({
+      type: 'object',
+      properties: { id: { type: 'integer' }, status: { type: 'string' } },
+    });
+  });
+
+  it('应当替换路径参数并支持noauth', () => {
+    const step = result.testCases[0].steps[1];
+    expect(step.selector).toBe('{{baseUrl}}/orders/42');
+    expect(parseSteps(step.value).headers).toEqual({});
+  });
+
+  it('apikey认证应当添加到查询参数，urlencoded请求体应当编码为字符串', () => {
+    const step = result.testCases[1].steps[0];
+    expect(step.selector).toBe('{{baseUrl}}/login?api_key=secret');
+    expect(parseSteps(step.value)).toMatchObject({
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      rawBody: 'user=alice+smith&password={{password}}',
+    });
+    expect(parseSteps(step.value)).not.toHaveProperty('body');
+  });
+
+  it('formdata请求体应当以表单发送，不设置Content-Type', () => {
+    const requestData = parseSteps(result.testCases[2].steps[0].value);
+    expect(requestData.formData).toEqual({ title: 'me' });
+    // 引用环境变量的Basic认证凭据改为执行时提供
+    expect(requestData.headers).toEqual({ Authorization: 'Basic {{basicAuth}}' });
+  });
+});
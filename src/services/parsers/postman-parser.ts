@@ -0,0 +1,585 @@
+/**
+ * @file Postman Collection v2.1 解析器
+ * @description 将Postman集合解析为ApiEndpoint列表，并把集合中的请求直接映射为测试用例
+ */
+
+import * as core from '../../types/core';
+import type { ApiEndpoint, ApiParameter, ApiRequestData } from '../api-testing-service';
+import { ApiDocumentParser, ParsedApiDocument } from './base-parser';
+
+const PLACEHOLDER_PATTERN = /\{\{[^{}]+\}\}/;
+
+type PostmanDescription = string | { content?: string };
+
+interface PostmanKeyValue {
+  key: string;
+  value?: string;
+  type?: string;
+  disabled?: boolean;
+  enabled?: boolean;
+  description?: PostmanDescription;
+}
+
+interface PostmanAuth {
+  type: string;
+  [type: string]: PostmanKeyValue[] | string | undefined;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  host?: string[] | string;
+  path?: string[] | string;
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[];
+  description?: PostmanDescription;
+  auth?: PostmanAuth;
+  body?: {
+    mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+    raw?: string;
+    urlencoded?: PostmanKeyValue[];
+    formdata?: PostmanKeyValue[];
+    graphql?: { query?: string; variables?: string };
+  };
+}
+
+interface PostmanResponse {
+  name?: string;
+  code?: number;
+  status?: string;
+  header?: PostmanKeyValue[];
+  body?: string;
+}
+
+interface PostmanItem {
+  name?: string;
+  description?: PostmanDescription;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: PostmanResponse[];
+  auth?: PostmanAuth;
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanCollection extends PostmanItem {
+  info: { name?: string; description?: PostmanDescription; schema?: string; version?: string };
+  item: PostmanItem[];
+}
+
+/**
+ * 展开后的单个请求（已替换变量并应用认证）
+ */
+interface ResolvedPostmanRequest {
+  name: string;
+  description?: string;
+  method: string;
+  url: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyMode?: NonNullable<PostmanRequest['body']>['mode'];
+  contentType?: string;
+  authType?: string;
+  parameters: ApiParameter[];
+  examples: Array<{ status: number; body: unknown }>;
+}
+
+/**
+ * 集合解析结果：API规范结构 + 由请求映射的测试用例
+ */
+export interface PostmanCollectionResult {
+  document: ParsedApiDocument;
+  testCases: core.TestCase[];
+}
+
+/**
+ * 判断文档是否为Postman集合
+ * @param document 已加载的文档对象
+ */
+export function isPostmanCollection(document: Record<string, unknown>): boolean {
+  const info = document.info as { _postman_id?: string; schema?: string } | undefined;
+  return (
+    !!info &&
+    Array.isArray(document.item) &&
+    (!!info._postman_id || (info.schema || '').includes('getpostman.com'))
+  );
+}
+
+/**
+ * 从Postman环境文件中读取启用的变量
+ * @param environment Postman环境对象
+ * @returns 变量映射
+ */
+export function loadPostmanEnvironment(
+  environment: Record<string, unknown>
+): Record<string, string> {
+  const values = (environment.values as PostmanKeyValue[] | undefined) || [];
+  const variables: Record<string, string> = {};
+
+  for (const entry of values) {
+    if (entry.enabled !== false && !entry.disabled) {
+      variables[entry.key] = entry.value ?? '';
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * 按 application/x-www-form-urlencoded 编码，保留 {{name}} 占位符以便执行时替换
+ * @param fields 字段
+ */
+function encodeForm(fields: Record<string, string>): string {
+  return new URLSearchParams(fields)
+    .toString()
+    .replace(/%7B%7B(.+?)%7D%7D/g, (_, name: string) => `{{${decodeURIComponent(name)}}}`);
+}
+
+/**
+ * Postman Collection v2.1 解析器
+ */
+export class PostmanParser implements ApiDocumentParser {
+  /**
+   * @param environment 环境变量，优先级高于集合与文件夹变量
+   * 环境变量不会写入解析结果，引用处保留 {{name}} 占位符，执行时再由环境提供，避免密钥保存到测试套件中
+   */
+  constructor(private environment: Record<string, string> = {}) {}
+
+  canParse(document: Record<string, unknown>): boolean {
+    return isPostmanCollection(document);
+  }
+
+  parse(document: Record<string, unknown>): ParsedApiDocument {
+    return this.parseCollection(document).document;
+  }
+
+  /**
+   * 解析集合，生成API规范及测试用例
+   * 每个文件夹映射为一个测试用例（按顺序执行其中的请求），根级请求各自映射为一个测试用例
+   * @param document 已加载的集合对象
+   */
+  parseCollection(document: Record<string, unknown>): PostmanCollectionResult {
+    const collection = document as unknown as PostmanCollection;
+    const variables = this.toVariables(collection.variable);
+
+    const endpoints: ApiEndpoint[] = [];
+    const testCases: core.TestCase[] = [];
+    const rootRequests: ResolvedPostmanRequest[] = [];
+
+    const walk = (
+      items: PostmanItem[],
+      folderPath: string[],
+      inheritedAuth: PostmanAuth | undefined,
+      scope: Record<string, string>
+    ): ResolvedPostmanRequest[] => {
+      const requests: ResolvedPostmanRequest[] = [];
+
+      for (const item of items) {
+        if (item.item) {
+          const folderScope = { ...scope, ...this.toVariables(item.variable) };
+          const folderRequests = walk(
+            item.item,
+            [...folderPath, item.name || 'Folder'],
+            item.auth || inheritedAuth,
+            folderScope
+          );
+          if (folderRequests.length > 0) {
+            testCases.push(
+              this.toTestCase(
+                testCases.length + 1,
+                [...folderPath, item.name || 'Folder'].join(' / '),
+                this.describe(item.description),
+                folderRequests
+              )
+            );
+          }
+        } else if (item.request) {
+          const resolved = this.resolveRequest(item, inheritedAuth, scope);
+          endpoints.push(this.toEndpoint(resolved));
+          requests.push(resolved);
+        }
+      }
+
+      return requests;
+    };
+
+    rootRequests.push(...walk(collection.item, [], collection.auth, variables));
+    for (const request of rootRequests) {
+      testCases.push(
+        this.toTestCase(testCases.length + 1, request.name, request.description, [request])
+      );
+    }
+
+    return {
+      document: {
+        title: collection.info.name || 'Postman Collection',
+        version: collection.info.version || '1.0.0',
+        description: this.describe(collection.info.description),
+        // 只使用集合变量，规范不随导入时使用的环境变化
+        baseUrl: variables.baseUrl || variables.base_url,
+        endpoints,
+      },
+      testCases,
+    };
+  }
+
+  /**
+   * 解析单个请求：替换变量、合并认证、提取请求体和示例响应
+   */
+  private resolveRequest(
+    item: PostmanItem,
+    inheritedAuth: PostmanAuth | undefined,
+    variables: Record<string, string>
+  ): ResolvedPostmanRequest {
+    const request: PostmanRequest =
+      typeof item.request === 'string' ? { url: item.request } : item.request || {};
+    const substitute = (value: string): string => this.substitute(value, variables);
+
+    const headers: Record<string, string> = {};
+    for (const header of request.header || []) {
+      if (!header.disabled) {
+        headers[header.key] = substitute(header.value ?? '');
+      }
+    }
+
+    const { url, path, parameters } = this.resolveUrl(request.url, substitute);
+    let finalUrl = url;
+
+    // 请求级认证优先，其次继承文件夹/集合认证；noauth表示显式关闭
+    const auth = request.auth || inheritedAuth;
+    if (auth && auth.type !== 'noauth') {
+      const authParams = this.toVariables(auth[auth.type] as PostmanKeyValue[] | undefined);
+      const param = (key: string): string => substitute(authParams[key] ?? '');
+
+      switch (auth.type) {
+        case 'bearer':
+          headers.Authorization = `Bearer ${param('token')}`;
+          break;
+        case 'basic': {
+          const credentials = `${param('username')}:${param('password')}`;
+          if (PLACEHOLDER_PATTERN.test(credentials)) {
+            // 凭据引用了环境变量，无法在导入时编码，改为执行时提供 basicAuth 变量
+            console.warn(
+              `Basic认证凭据引用了变量，请在执行时通过 basicAuth 变量提供Base64编码的 用户名:密码`
+            );
+            headers.Authorization = 'Basic {{basicAuth}}';
+          } else {
+            headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+          }
+          break;
+        }
+        case 'apikey': {
+          const key = param('key') || 'X-API-Key';
+          if (authParams.in === 'query') {
+            finalUrl += `${finalUrl.includes('?') ? '&' : '?'}${encodeForm({
+              [key]: param('value'),
+            })}`;
+          } else {
+            headers[key] = param('value');
+          }
+          break;
+        }
+        default:
+          console.warn(`不支持的Postman认证类型: ${auth.type}`);
+      }
+    }
+
+    const { body, contentType } = this.resolveBody(request.body, substitute);
+    if (request.body?.mode === 'formdata') {
+      // multipart 的 Content-Type 需要包含 boundary，由发送请求时根据表单生成
+      for (const key of Object.keys(headers)) {
+        if (key.toLowerCase() === 'content-type') {
+          delete headers[key];
+        }
+      }
+    } else if (
+      contentType &&
+      !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')
+    ) {
+      headers['Content-Type'] = contentType;
+    }
+
+    const examples = (item.response || []).map(response => ({
+      status: response.code || 200,
+      body: this.parseJson(substitute(response.body || '')),
+    }));
+
+    return {
+      name: item.name || `${request.method || 'GET'} ${path}`,
+      description: this.describe(item.description) || this.describe(request.description),
+      method: (request.method || 'GET').toUpperCase(),
+      url: finalUrl,
+      path,
+      headers,
+      body,
+      bodyMode: body !== undefined ? request.body?.mode : undefined,
+      contentType,
+      authType: auth && auth.type !== 'noauth' ? auth.type : undefined,
+      parameters: [
+        ...parameters,
+        ...Object.keys(headers).map(name => ({ name, in: 'header' as const })),
+      ],
+      examples,
+    };
+  }
+
+  /**
+   * 解析URL：替换变量和路径参数，并提取OpenAPI风格的路径
+   */
+  private resolveUrl(
+    url: string | PostmanUrl | undefined,
+    substitute: (value: string) => string
+  ): { url: string; path: string; parameters: ApiParameter[] } {
+    if (!url) {
+      return { url: '', path: '/', parameters: [] };
+    }
+
+    const urlObject: PostmanUrl = typeof url === 'string' ? { raw: url } : url;
+    const parameters: ApiParameter[] = [];
+    let raw = urlObject.raw || '';
+
+    for (const variable of urlObject.variable || []) {
+      parameters.push({
+        name: variable.key,
+        in: 'path',
+        required: true,
+        description: this.describe(variable.description),
+        example: variable.value,
+      });
+      raw = raw.replace(new RegExp(`:${variable.key}(?=/|\\?|#|$)`), variable.value ?? '');
+    }
+
+    for (const query of urlObject.query || []) {
+      parameters.push({
+        name: query.key,
+        in: 'query',
+        description: this.describe(query.description),
+        example: query.value,
+      });
+    }
+
+    // 路径部分：优先使用结构化path，否则从raw中截取
+    let pathSegments: string[];
+    if (urlObject.path) {
+      pathSegments = Array.isArray(urlObject.path) ? urlObject.path : urlObject.path.split('/');
+    } else {
+      const withoutQuery = (urlObject.raw || '').split('?')[0];
+      const withoutHost = withoutQuery.replace(/^(https?:\/\/)?[^/]*/, '');
+      pathSegments = withoutHost.split('/');
+    }
+    const path =
+      '/' +
+      pathSegments
+        .filter(segment => segment.length > 0)
+        .map(segment => substitute(segment).replace(/^:(.+)$/, '{$1}'))
+        .join('/');
+
+    return { url: substitute(raw), path, parameters };
+  }
+
+  /**
+   * 解析请求体
+   */
+  private resolveBody(
+    body: PostmanRequest['body'],
+    substitute: (value: string) => string
+  ): { body?: unknown; contentType?: string } {
+    if (!body || !body.mode) {
+      return {};
+    }
+
+    const toObject = (entries: PostmanKeyValue[] = []): Record<string, string> => {
+      const result: Record<string, string> = {};
+      for (const entry of entries) {
+        if (entry.disabled) {
+          continue;
+        }
+        if (entry.type === 'file') {
+          console.warn(`不支持导入Postman表单中的文件字段: ${entry.key}`);
+          continue;
+        }
+        result[entry.key] = substitute(entry.value ?? '');
+      }
+      return result;
+    };
+
+    switch (body.mode) {
+      case 'raw': {
+        const raw = substitute(body.raw || '');
+        const parsed = this.parseJson(raw);
+        return typeof parsed === 'string'
+          ? { body: parsed, contentType: 'text/plain' }
+          : { body: parsed, contentType: 'application/json' };
+      }
+      case 'urlencoded':
+        return {
+          body: toObject(body.urlencoded),
+          contentType: 'application/x-www-form-urlencoded',
+        };
+      case 'formdata':
+        return { body: toObject(body.formdata), contentType: 'multipart/form-data' };
+      case 'graphql':
+        return {
+          body: {
+            query: substitute(body.graphql?.query || ''),
+            variables: this.parseJson(substitute(body.graphql?.variables || '{}')),
+          },
+          contentType: 'application/json',
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * 将解析后的请求映射为API端点
+   */
+  private toEndpoint(request: ResolvedPostmanRequest): ApiEndpoint {
+    const successExample = request.examples.find(
+      example => example.status >= 200 && example.status < 300
+    );
+    const responseSchemas: Record<string, unknown> = {};
+    for (const example of request.examples) {
+      responseSchemas[String(example.status)] = this.inferSchema(example.body);
+    }
+
+    return {
+      path: request.path,
+      method: request.method,
+      summary: request.name,
+      description: request.description,
+      parameters: request.parameters,
+      requestContentType: request.contentType,
+      requestSchema: request.body !== undefined ? this.inferSchema(request.body) : undefined,
+      responseSchema: successExample ? responseSchemas[String(successExample.status)] : undefined,
+      responseSchemas,
+      schemasInferred: true,
+      requestExamples: request.body !== undefined ? [request.body] : [],
+      responseExamples: successExample ? [successExample.body] : [],
+      security: request.authType ? [request.authType] : undefined,
+    };
+  }
+
+  /**
+   * 将一组请求映射为测试用例，每个请求为一个request步骤
+   * 用例ID按集合顺序编号，同一集合多次导入得到相同的结果
+   */
+  private toTestCase(
+    index: number,
+    name: string,
+    description: string | undefined,
+    requests: ResolvedPostmanRequest[]
+  ): core.TestCase {
+    return {
+      id: `tc${index}`,
+      name,
+      description: description || name,
+      steps: requests.map((request, stepIndex) => {
+        // 保存的示例响应作为期望结果，优先使用成功响应
+        const example =
+          request.examples.find(candidate => candidate.status >= 200 && candidate.status < 300) ||
+          request.examples[0];
+
+        return {
+          id: `step${stepIndex + 1}`,
+          description: request.name,
+          action: 'request',
+          selector: request.url,
+          value: JSON.stringify({
+            method: request.method,
+            headers: request.headers,
+            ...this.toRequestBody(request),
+            expectedStatus: example?.status,
+            expectedResponse: example?.body,
+          }),
+        };
+      }),
+    };
+  }
+
+  /**
+   * 按请求体模式生成请求数据中的请求体字段
+   * urlencoded 编码为字符串原样发送，formdata 以表单发送
+   */
+  private toRequestBody(
+    request: ResolvedPostmanRequest
+  ): Pick<ApiRequestData, 'body' | 'rawBody' | 'formData'> {
+    switch (request.bodyMode) {
+      case 'urlencoded':
+        return { rawBody: encodeForm(request.body as Record<string, string>) };
+      case 'formdata':
+        return { formData: request.body as Record<string, string> };
+      default:
+        return { body: request.body };
+    }
+  }
+
+  /**
+   * 从示例值推断JSON Schema
+   */
+  private inferSchema(value: unknown): Record<string, unknown> {
+    if (value === null || value === undefined) {
+      return { type: 'null' };
+    }
+
+    if (Array.isArray(value)) {
+      return { type: 'array', items: value.length > 0 ? this.inferSchema(value[0]) : {} };
+    }
+
+    if (typeof value === 'object') {
+      const properties: Record<string, unknown> = {};
+      for (const [key, propValue] of Object.entries(value as Record<string, unknown>)) {
+        properties[key] = this.inferSchema(propValue);
+      }
+      return { type: 'object', properties };
+    }
+
+    if (typeof value === 'number') {
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    }
+
+    return { type: typeof value };
+  }
+
+  /**
+   * 替换 {{变量}}，未定义的变量和环境变量保持原样
+   */
+  private substitute(value: string, variables: Record<string, string>): string {
+    return value.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, name: string) =>
+      variables[name] !== undefined && !(name in this.environment) ? variables[name] : match
+    );
+  }
+
+  private toVariables(entries: PostmanKeyValue[] | undefined): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const entry of entries || []) {
+      if (!entry.disabled && entry.key) {
+        variables[entry.key] = entry.value === undefined ? '' : String(entry.value);
+      }
+    }
+    return variables;
+  }
+
+  private describe(description: PostmanDescription | undefined): string | undefined {
+    if (!description) {
+      return undefined;
+    }
+    return typeof description === 'string' ? description : description.content;
+  }
+
+  private parseJson(text: string): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch (error) {
+      return text;
+    }
+  }
+}
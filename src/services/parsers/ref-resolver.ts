@@ -0,0 +1,89 @@
+/**
+ * @file $ref 解析工具
+ * @description 解析OpenAPI/Swagger文档内部的 $ref 引用，返回内联后的对象
+ */
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * 根据JSON Pointer（如 #/components/schemas/User）在文档中查找目标
+ * @param root 文档根对象
+ * @param ref 引用字符串
+ * @returns 引用指向的值，未找到时返回undefined
+ */
+export function resolvePointer(root: unknown, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    // 仅支持文档内部引用，外部文件引用保持原样
+    return undefined;
+  }
+
+  const segments = ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as JsonObject)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * 递归解析对象中的所有 $ref 引用
+ * 循环引用会保留为 { $ref } 以避免无限展开
+ * @param value 需要解析的值
+ * @param root 文档根对象
+ * @returns 解析后的新对象（不修改原文档）
+ */
+export function resolveRefs<T = unknown>(value: unknown, root: unknown): T {
+  return resolveValue(value, root, []) as T;
+}
+
+function resolveValue(value: unknown, root: unknown, stack: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValue(item, root, stack));
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const obj = value as JsonObject;
+
+  if (typeof obj.$ref === 'string') {
+    const ref = obj.$ref;
+
+    if (stack.includes(ref)) {
+      return { $ref: ref };
+    }
+
+    const target = resolvePointer(root, ref);
+    if (target === undefined) {
+      console.warn(`无法解析引用: ${ref}`);
+      return { ...obj };
+    }
+
+    // $ref 的兄弟属性（如description）覆盖在解析结果之上
+    const { $ref: _ref, ...siblings } = obj;
+    const resolved = resolveValue(target, root, [...stack, ref]);
+    if (resolved !== null && typeof resolved === 'object' && !Array.isArray(resolved)) {
+      return {
+        ...(resolved as JsonObject),
+        ...(resolveValue(siblings, root, stack) as JsonObject),
+      };
+    }
+    return resolved;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, child] of Object.entries(obj)) {
+    result[key] = resolveValue(child, root, stack);
+  }
+  return result;
+}
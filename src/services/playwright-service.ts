@@ -2,15 +2,41 @@ import {
   chromium,
   firefox,
   webkit,
+  devices,
   Browser,
   BrowserContext,
   Page,
   ConsoleMessage,
   Request,
   Response,
+  Route,
+  Video,
 } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { createHar } from '../utils/har';
+import { browserConfig } from '../utils/config';
+import {
+  A11yAuditOptions,
+  A11yAuditResult,
+  A11yViolation,
+  runA11yAudit,
+} from '../utils/a11y-audit';
+import {
+  collectPagePerformance,
+  installPerformanceObservers,
+  PagePerformance,
+} from '../utils/performance-metrics';
+import { executeUiStep, findPage, UiStep } from './ui-step-registry';
+
+// 超过该大小的响应体不保存，避免长时间运行时占用过多内存
+const MAX_RESPONSE_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 浏览器上下文的存储状态，包含Cookie与各来源的localStorage
+ */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
 
 export interface BrowserOptions {
   browserType?: 'chromium' | 'firefox' | 'webkit';
@@ -21,6 +47,61 @@ export interface BrowserOptions {
     height: number;
   };
   userAgent?: string;
+  // 模拟的Playwright内置设备，如 iPhone 13；viewport 与 userAgent 优先于设备配置
+  device?: string;
+  // 语言区域，如 zh-CN，影响 navigator.language 与 Accept-Language
+  locale?: string;
+  // 时区，如 Asia/Shanghai
+  timezoneId?: string;
+  // 设置后自动授予 geolocation 权限
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  };
+  // 授予所有来源的权限，如 notifications、clipboard-read
+  permissions?: string[];
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  // 模拟离线网络
+  offline?: boolean;
+  // 每个请求附加的HTTP头
+  extraHTTPHeaders?: Record<string, string>;
+  // HTTP基本认证凭据
+  httpCredentials?: {
+    username: string;
+    password: string;
+  };
+  // 预加载的存储状态，如登录后保存的Cookie
+  storageState?: StorageState;
+}
+
+/**
+ * 根据环境变量生成浏览器选项，作为启动参数未指定时的默认值
+ * 配置了设备时不设置视口，由设备决定
+ * @returns 浏览器选项
+ */
+export function getBrowserOptionsFromConfig(): BrowserOptions {
+  const device = browserConfig.device;
+  const extraHTTPHeaders = browserConfig.extraHeaders;
+  const permissions = browserConfig.permissions;
+
+  return {
+    browserType: browserConfig.type,
+    headless: browserConfig.headless,
+    slowMo: browserConfig.slowMo,
+    viewport: device
+      ? undefined
+      : { width: browserConfig.viewportWidth, height: browserConfig.viewportHeight },
+    device,
+    locale: browserConfig.locale,
+    timezoneId: browserConfig.timezone,
+    geolocation: browserConfig.geolocation,
+    permissions: permissions.length > 0 ? permissions : undefined,
+    colorScheme: browserConfig.colorScheme,
+    offline: browserConfig.offline || undefined,
+    extraHTTPHeaders: Object.keys(extraHTTPHeaders).length > 0 ? extraHTTPHeaders : undefined,
+    httpCredentials: browserConfig.httpCredentials,
+  };
 }
 
 export interface NetworkRequest {
@@ -32,6 +113,14 @@ export interface NetworkRequest {
   requestId?: string;
   type?: string;
   response?: NetworkResponse;
+  // 请求各阶段耗时，请求完成后填充
+  timing?: ReturnType<Request['timing']>;
+  // 请求失败原因
+  failure?: string;
+  // 发出请求的页面ID
+  pageId?: string;
+  // 并行执行时请求所属的测试用例
+  testCaseId?: string;
 }
 
 export interface NetworkResponse {
@@ -41,6 +130,8 @@ export interface NetworkResponse {
   mimeType?: string;
   timestamp?: number;
   body?: string;
+  // 二进制响应体以base64保存
+  encoding?: 'base64';
 }
 
 export interface ConsoleMessageData {
@@ -49,14 +140,140 @@ export interface ConsoleMessageData {
   location?: { url: string; lineNumber: number; columnNumber: number };
   timestamp: string;
   stack?: string;
+  // 输出消息的页面ID
+  pageId?: string;
+  // 并行执行时消息所属的测试用例
+  testCaseId?: string;
+}
+
+// 一组页面的控制台与网络采集结果
+interface PageCapture {
+  consoleLogs: ConsoleMessageData[];
+  networkRequests: NetworkRequest[];
+  // 按Request对象关联请求记录，避免相同URL的并发请求互相覆盖
+  requestRecords: WeakMap<Request, NetworkRequest>;
+}
+
+/**
+ * 浏览器上下文中的页面信息
+ */
+export interface PageInfo {
+  id: string;
+  // 按打开顺序的序号，从0开始
+  index: number;
+  url: string;
+  title: string;
+  // 是否为当前操作的页面
+  active: boolean;
+}
+
+/**
+ * 独立的浏览器上下文，与主页面及其他上下文不共享Cookie、存储和采集结果
+ */
+export interface IsolatedContext {
+  context: BrowserContext;
+  // 当前操作的页面，关闭后回到上下文中最后打开的页面
+  page: Page;
+  // 仅包含该上下文的控制台消息
+  consoleLogs: ConsoleMessageData[];
+  // 仅包含该上下文的网络请求
+  networkRequests: NetworkRequest[];
+  // 首个页面的录像，未开启录制时为空；上下文关闭后才能保存
+  video: Video | null;
+  close(): Promise<void>;
+}
+
+/**
+ * 独立浏览器上下文选项
+ */
+export interface IsolatedContextOptions {
+  // 录像保存目录，设置后录制上下文中每个页面的视频
+  recordVideoDir?: string;
+}
+
+export type RouteAbortErrorCode =
+  | 'aborted'
+  | 'accessdenied'
+  | 'addressunreachable'
+  | 'blockedbyclient'
+  | 'blockedbyresponse'
+  | 'connectionaborted'
+  | 'connectionclosed'
+  | 'connectionfailed'
+  | 'connectionrefused'
+  | 'connectionreset'
+  | 'internetdisconnected'
+  | 'namenotresolved'
+  | 'timedout'
+  | 'failed';
+
+/**
+ * 请求拦截规则
+ * - fulfill: 直接返回指定响应
+ * - abort: 以指定错误中止请求
+ * - delay: 延迟后继续请求
+ * - modify: 修改请求头/请求体，或在真实响应基础上修改状态码、响应头和响应体
+ */
+export interface RouteRuleOptions {
+  // glob 模式（如 **/api/users*），或以 / 包围的正则表达式
+  urlPattern: string;
+  action: 'fulfill' | 'abort' | 'delay' | 'modify';
+  // 仅拦截指定方法的请求
+  method?: string;
+  // 注册在当前页面还是整个浏览器上下文，默认为上下文
+  scope?: 'page' | 'context';
+  // 处理前的延迟（毫秒），delay 动作必填
+  delay?: number;
+  // 最多拦截次数，不设置则一直生效
+  times?: number;
+  response?: {
+    status?: number;
+    headers?: Record<string, string>;
+    contentType?: string;
+    body?: unknown;
+  };
+  errorCode?: RouteAbortErrorCode;
+  modify?: {
+    requestHeaders?: Record<string, string>;
+    requestBody?: unknown;
+    status?: number;
+    responseHeaders?: Record<string, string>;
+    responseBody?: unknown;
+  };
+}
+
+export interface RouteRule extends RouteRuleOptions {
+  id: string;
+  scope: 'page' | 'context';
+  hitCount: number;
+  createdAt: string;
+}
+
+interface ActiveRoute {
+  rule: RouteRule;
+  url: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+  // 注册了该规则的页面或上下文，移除时从这些目标上注销，而不是当前页面
+  targets: Array<Page | BrowserContext>;
 }
 
 export class PlaywrightService {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
-  private consoleLogs: ConsoleMessageData[] = [];
-  private networkRequests: NetworkRequest[] = [];
+  private capture: PageCapture = this.createCapture();
+  private routes: Map<string, ActiveRoute> = new Map();
+  private harReplayPath: string | null = null;
+  // 页面ID，按创建顺序编号
+  private pageIds: WeakMap<Page, string> = new WeakMap();
+  private pageCount = 0;
+  // 本次会话中审计发现的无障碍违规，包括测试步骤中的审计
+  private a11yViolations: A11yViolation[] = [];
+  private harReplayOptions: Parameters<BrowserContext['routeFromHAR']>[1] = {};
+  // 创建主上下文时使用的选项，独立上下文沿用
+  private contextOptions: Parameters<Browser['newContext']>[0] = {};
+  // 当前浏览器启动时的选项，重新启动时沿用
+  private launchOptions: BrowserOptions | null = null;
 
   constructor() {}
 
@@ -69,8 +286,11 @@ export class PlaywrightService {
     await this.closeBrowser();
 
     try {
+      // 设备配置包含视口、UA、触屏等模拟参数，以及推荐的浏览器类型
+      const device = options.device ? this.getDeviceDescriptor(options.device) : undefined;
+
       // 设置默认选项
-      const browserType = options.browserType || 'chromium';
+      const browserType = options.browserType || device?.defaultBrowserType || 'chromium';
       const headless = options.headless !== undefined ? options.headless : false;
       const slowMo = options.slowMo || 0;
 
@@ -96,20 +316,32 @@ export class PlaywrightService {
       }
 
       // 创建浏览器上下文
-      this.context = await this.browser.newContext({
-        viewport: options.viewport,
-        userAgent: options.userAgent,
-      });
+      this.contextOptions = {
+        viewport: options.viewport ?? device?.viewport,
+        userAgent: options.userAgent ?? device?.userAgent,
+        deviceScaleFactor: device?.deviceScaleFactor,
+        isMobile: device?.isMobile,
+        hasTouch: device?.hasTouch,
+        locale: options.locale,
+        timezoneId: options.timezoneId,
+        geolocation: options.geolocation,
+        // 地理位置只有在授予权限后才能被页面读取
+        permissions: options.geolocation
+          ? [...new Set([...(options.permissions || []), 'geolocation'])]
+          : options.permissions,
+        colorScheme: options.colorScheme,
+        offline: options.offline,
+        extraHTTPHeaders: options.extraHTTPHeaders,
+        httpCredentials: options.httpCredentials,
+        storageState: options.storageState,
+      };
+      this.context = await this.newTrackedContext(this.capture, (page, remaining) =>
+        this.handleActivePageClosed(page, remaining)
+      );
 
       // 创建页面
       this.page = await this.context.newPage();
-
-      // 监听控制台消息
-      this.page.on('console', this.handleConsoleMessage.bind(this));
-
-      // 监听网络请求
-      this.page.on('request', this.handleNetworkRequest.bind(this));
-      this.page.on('response', this.handleNetworkResponse.bind(this));
+      this.launchOptions = options;
 
       console.log(`Browser (${browserType}) launched successfully`);
     } catch (error) {
@@ -118,6 +350,92 @@ export class PlaywrightService {
     }
   }
 
+  /**
+   * 重置页面状态，用于重试测试用例
+   * 关闭当前浏览器上下文及其所有页面（包括弹窗），以相同选项重新创建上下文后打开新页面，
+   * Cookie与存储恢复为启动时预加载的存储状态；拦截规则与HAR回放重新注册到新上下文和新页面
+   * @returns 新页面
+   */
+  async resetPage(): Promise<Page> {
+    if (!this.context) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+
+    // 先清空当前页面，避免关闭旧页面时回退到其他旧页面
+    const previous = this.context;
+    this.page = null;
+    await previous.close();
+    for (const active of this.routes.values()) {
+      active.targets = active.targets.filter(
+        target => target !== previous && !('context' in target && target.context() === previous)
+      );
+    }
+
+    this.context = await this.newTrackedContext(this.capture, (page, remaining) =>
+      this.handleActivePageClosed(page, remaining)
+    );
+    this.page = await this.context.newPage();
+    for (const active of this.routes.values()) {
+      await this.registerRoute(active, active.rule.scope === 'page' ? this.page : this.context);
+    }
+
+    return this.page;
+  }
+
+  /**
+   * 创建独立的浏览器上下文，用于并行执行测试用例
+   * 沿用主上下文的视口与UA设置，生效的拦截规则与HAR回放同样应用到新上下文；
+   * 其控制台与网络采集结果不计入主页面
+   * @param options 独立上下文选项，如录像目录
+   * @returns 独立上下文，使用完毕后需调用 close()
+   */
+  async createIsolatedContext(options: IsolatedContextOptions = {}): Promise<IsolatedContext> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+
+    const capture = this.createCapture();
+    const context = await this.newTrackedContext(
+      capture,
+      (page, remaining) => {
+        if (isolated.page === page && remaining.length > 0) {
+          isolated.page = remaining[remaining.length - 1];
+        }
+      },
+      options.recordVideoDir
+        ? {
+            recordVideo: {
+              dir: options.recordVideoDir,
+              size: this.contextOptions?.viewport ?? undefined,
+            },
+          }
+        : {}
+    );
+    for (const active of this.routes.values()) {
+      await this.registerRoute(active, context);
+    }
+    const page = await context.newPage();
+
+    let closed = false;
+    const isolated: IsolatedContext = {
+      context,
+      page,
+      consoleLogs: capture.consoleLogs,
+      networkRequests: capture.networkRequests,
+      video: page.video(),
+      close: async () => {
+        if (!closed) {
+          closed = true;
+          for (const active of this.routes.values()) {
+            active.targets = active.targets.filter(target => target !== context);
+          }
+          await context.close();
+        }
+      },
+    };
+    return isolated;
+  }
+
   /**
    * 关闭浏览器
    */
@@ -125,9 +443,12 @@ export class PlaywrightService {
     try {
       if (this.browser) {
         await this.browser.close();
+        this.routes.clear();
+        this.harReplayPath = null;
         this.browser = null;
         this.context = null;
         this.page = null;
+        this.launchOptions = null;
         console.log('Browser closed successfully');
       }
     } catch (error) {
@@ -136,12 +457,21 @@ export class PlaywrightService {
     }
   }
 
+  /**
+   * 获取重新启动浏览器时使用的选项
+   * 浏览器运行中时沿用其启动选项（浏览器类型、设备、语言等），否则使用配置中的选项
+   * @returns 不包含存储状态的浏览器选项
+   */
+  getRelaunchOptions(): BrowserOptions {
+    return { ...(this.launchOptions ?? getBrowserOptionsFromConfig()), storageState: undefined };
+  }
+
   /**
    * 获取控制台日志
    * @returns 控制台消息数组
    */
   async getConsoleLogs(): Promise<ConsoleMessageData[]> {
-    return this.consoleLogs;
+    return this.capture.consoleLogs;
   }
 
   /**
@@ -149,21 +479,132 @@ export class PlaywrightService {
    * @returns 网络请求数组
    */
   async getNetworkRequests(): Promise<NetworkRequest[]> {
-    return this.networkRequests;
+    return this.capture.networkRequests;
   }
 
   /**
    * 清除控制台日志
    */
   clearConsoleLogs(): void {
-    this.consoleLogs = [];
+    this.capture.consoleLogs = [];
   }
 
   /**
    * 清除网络请求
    */
   clearNetworkRequests(): void {
-    this.networkRequests = [];
+    this.capture.networkRequests = [];
+    this.capture.requestRecords = new WeakMap();
+  }
+
+  /**
+   * 对当前页面执行无障碍审计，违规记录计入本次会话
+   * @param options 审计选项
+   * @returns 审计结果
+   */
+  async auditAccessibility(options: A11yAuditOptions = {}): Promise<A11yAuditResult> {
+    const result = await runA11yAudit(this.getActivePage(), options);
+    this.recordA11yViolations(result.violations);
+    return result;
+  }
+
+  /**
+   * 记录无障碍违规，用于生成错误报告
+   * @param violations 违规记录
+   */
+  recordA11yViolations(violations: A11yViolation[]): void {
+    this.a11yViolations.push(...violations);
+  }
+
+  /**
+   * 获取本次会话记录的无障碍违规
+   * @returns 违规记录数组
+   */
+  getA11yViolations(): A11yViolation[] {
+    return this.a11yViolations;
+  }
+
+  /**
+   * 清除无障碍违规记录
+   */
+  clearA11yViolations(): void {
+    this.a11yViolations = [];
+  }
+
+  /**
+   * 采集当前页面的导航时序、Web Vitals、长任务与资源时序
+   * @returns 性能指标
+   */
+  async getPagePerformance(): Promise<PagePerformance> {
+    const page = this.getActivePage();
+    const performance = await collectPagePerformance(page);
+    if (!performance) {
+      throw new Error(`Performance metrics are not available for ${page.url()}`);
+    }
+    return performance;
+  }
+
+  /**
+   * 将已采集的网络请求导出为HAR文件
+   * @param outputPath 输出路径
+   * @param requests 要导出的请求，默认为主页面采集的请求
+   * @returns HAR文件路径
+   */
+  exportHar(outputPath: string, requests: NetworkRequest[] = this.capture.networkRequests): string {
+    const dir = path.dirname(outputPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(outputPath, JSON.stringify(createHar(requests), null, 2));
+    console.log(`HAR saved to ${outputPath}`);
+
+    return outputPath;
+  }
+
+  /**
+   * 使用HAR文件回放网络请求
+   * @param harPath HAR文件路径
+   * @param options.notFound HAR中没有匹配条目时中止请求（abort）还是继续访问网络（fallback）
+   * @param options.url 只回放匹配该glob或/正则/的请求
+   */
+  async startHarReplay(
+    harPath: string,
+    options: { notFound?: 'abort' | 'fallback'; url?: string } = {}
+  ): Promise<void> {
+    if (!this.context) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+    if (!fs.existsSync(harPath)) {
+      throw new Error(`HAR file not found: ${harPath}`);
+    }
+
+    await this.stopHarReplay();
+    this.harReplayOptions = {
+      notFound: options.notFound || 'abort',
+      url: options.url ? this.toRoutePattern(options.url) : undefined,
+    };
+    await this.context.routeFromHAR(harPath, this.harReplayOptions);
+    this.harReplayPath = harPath;
+    console.log(`Replaying network traffic from ${harPath}`);
+  }
+
+  /**
+   * 停止HAR回放
+   * routeFromHAR没有对应的移除方法，因此移除上下文的全部路由后重新注册拦截规则
+   */
+  async stopHarReplay(): Promise<void> {
+    if (!this.harReplayPath || !this.context) {
+      return;
+    }
+
+    await this.context.unrouteAll({ behavior: 'ignoreErrors' });
+    for (const active of this.routes.values()) {
+      if (active.rule.scope === 'context') {
+        await this.registerRoute(active, this.context);
+      }
+    }
+    this.harReplayPath = null;
   }
 
   /**
@@ -174,6 +615,76 @@ export class PlaywrightService {
     return this.page;
   }
 
+  /**
+   * 获取主浏览器上下文当前的存储状态
+   * @returns Cookie与各来源的localStorage
+   */
+  async getStorageState(): Promise<StorageState> {
+    if (!this.context) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+    return this.context.storageState();
+  }
+
+  /**
+   * 获取页面ID
+   * @param page 页面
+   * @returns 页面ID，不是由本服务创建的浏览器中的页面返回undefined
+   */
+  getPageId(page: Page): string | undefined {
+    return this.pageIds.get(page);
+  }
+
+  /**
+   * 列出主浏览器上下文中打开的页面
+   * @returns 页面信息数组，按打开顺序排列
+   */
+  async listPages(): Promise<PageInfo[]> {
+    if (!this.context) {
+      return [];
+    }
+
+    return Promise.all(
+      this.context.pages().map(async (page, index) => ({
+        id: this.pageIds.get(page) || '',
+        index,
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        active: page === this.page,
+      }))
+    );
+  }
+
+  /**
+   * 切换当前操作的页面
+   * @param target 页面ID、序号（从0开始）、url=URL模式、title=标题模式，或同时匹配URL与标题的文本
+   * @param timeout 等待页面打开的超时（毫秒）
+   * @returns 切换后的页面
+   */
+  async switchPage(target: string, timeout?: number): Promise<Page> {
+    if (!this.context) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+
+    const page =
+      this.context.pages().find(candidate => this.pageIds.get(candidate) === target) ??
+      (await findPage(this.context, target, timeout));
+    await page.bringToFront();
+    this.page = page;
+    return page;
+  }
+
+  /**
+   * 设置当前操作的页面，用于执行切换页面的步骤后同步状态
+   * @param page 主浏览器上下文中的页面
+   */
+  setActivePage(page: Page): void {
+    if (page.context() !== this.context) {
+      throw new Error('Page does not belong to the current browser context');
+    }
+    this.page = page;
+  }
+
   /**
    * 获取Context对象
    * @returns BrowserContext对象或null
@@ -190,12 +701,97 @@ export class PlaywrightService {
     return this.browser;
   }
 
+  /**
+   * 获取当前操作页面的信息
+   * @returns 页面信息
+   */
+  async getActivePageInfo(): Promise<PageInfo> {
+    const page = (await this.listPages()).find(candidate => candidate.active);
+    if (!page) {
+      throw new Error('Browser page not initialized. Call launchBrowser() first.');
+    }
+    return page;
+  }
+
+  /**
+   * 在当前页面上执行单个UI步骤，步骤切换页面后当前页面随之切换
+   * @param step UI步骤，动作与测试套件中的步骤相同
+   * @returns 执行后当前页面的信息
+   */
+  async runStep(step: Pick<UiStep, 'action' | 'selector' | 'value'>): Promise<PageInfo> {
+    const page = this.getActivePage();
+    const switchedPage = await executeUiStep(page, {
+      id: step.action,
+      description: step.action,
+      ...step,
+    });
+    if (switchedPage) {
+      this.setActivePage(switchedPage);
+    }
+    return this.getActivePageInfo();
+  }
+
+  /**
+   * 在当前页面的浏览历史中后退或前进
+   * @param direction 后退或前进
+   * @returns 导航后当前页面的信息
+   */
+  async navigateHistory(direction: 'back' | 'forward'): Promise<PageInfo> {
+    const page = this.getActivePage();
+    const response = direction === 'back' ? await page.goBack() : await page.goForward();
+    if (!response) {
+      console.log(`No ${direction} history entry to navigate to`);
+    }
+    return this.getActivePageInfo();
+  }
+
+  /**
+   * 在当前页面中执行JavaScript
+   * @param expression JavaScript表达式，结果为函数时调用该函数
+   * @returns 可序列化的执行结果
+   */
+  evaluate(expression: string): Promise<unknown> {
+    return this.getActivePage().evaluate(expression);
+  }
+
+  /**
+   * 获取当前页面或元素的无障碍树快照
+   * @param selector 元素选择器，不传时为整个页面
+   * @returns YAML格式的ARIA快照，包含角色、名称与状态
+   */
+  getAccessibilitySnapshot(selector?: string): Promise<string> {
+    return this.getActivePage()
+      .locator(selector || 'body')
+      .ariaSnapshot();
+  }
+
+  /**
+   * 获取当前页面或元素的内容
+   * @param format html 返回HTML，text 返回可见文本
+   * @param selector 元素选择器，不传时为整个页面
+   * @returns 页面内容
+   */
+  getPageContent(format: 'html' | 'text', selector?: string): Promise<string> {
+    const page = this.getActivePage();
+    if (format === 'html') {
+      return selector ? page.locator(selector).first().innerHTML() : page.content();
+    }
+    return page
+      .locator(selector || 'body')
+      .first()
+      .innerText();
+  }
+
   /**
    * 捕获页面截图
    * @param outputPath 输出路径
+   * @param options.fullPage 是否截取整个可滚动页面
    * @returns 截图路径
    */
-  async captureScreenshot(outputPath?: string): Promise<string> {
+  async captureScreenshot(
+    outputPath?: string,
+    options: { fullPage?: boolean } = {}
+  ): Promise<string> {
     if (!this.page) {
       throw new Error('Browser page not initialized. Call launchBrowser() first.');
     }
@@ -214,7 +810,7 @@ export class PlaywrightService {
       }
 
       // 捕获截图
-      await this.page.screenshot({ path: outputPath });
+      await this.page.screenshot({ path: outputPath, fullPage: options.fullPage });
       console.log(`Screenshot saved to ${outputPath}`);
 
       return outputPath;
@@ -224,11 +820,293 @@ export class PlaywrightService {
     }
   }
 
+  /**
+   * 添加请求拦截规则
+   * @param options 规则选项
+   * @returns 创建的规则
+   */
+  async addRouteRule(options: RouteRuleOptions): Promise<RouteRule> {
+    const scope = options.scope || 'context';
+    const target = scope === 'page' ? this.page : this.context;
+    if (!target) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+    if (options.action === 'delay' && !options.delay) {
+      throw new Error('delay action requires a delay in milliseconds');
+    }
+
+    const rule: RouteRule = {
+      ...options,
+      id: randomUUID(),
+      scope,
+      hitCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+    const url = this.toRoutePattern(options.urlPattern);
+    const handler = (route: Route): Promise<void> => this.handleRoute(rule, route);
+
+    const active: ActiveRoute = { rule, url, handler, targets: [] };
+    await this.registerRoute(active, target);
+    this.routes.set(rule.id, active);
+    console.log(`Route rule added: ${rule.action} ${rule.urlPattern}`);
+
+    return rule;
+  }
+
+  /**
+   * 列出当前生效的拦截规则
+   * @returns 规则数组
+   */
+  listRouteRules(): RouteRule[] {
+    return [...this.routes.values()].map(active => active.rule);
+  }
+
+  /**
+   * 移除拦截规则
+   * @param ruleId 规则ID
+   */
+  async removeRouteRule(ruleId: string): Promise<void> {
+    const active = this.routes.get(ruleId);
+    if (!active) {
+      throw new Error(`Route rule not found: ${ruleId}`);
+    }
+
+    for (const target of active.targets) {
+      try {
+        await target.unroute(active.url, active.handler);
+      } catch (error) {
+        // 页面或上下文已关闭时拦截已随之失效
+        console.warn(`Failed to unroute rule ${ruleId}:`, error);
+      }
+    }
+    this.routes.delete(ruleId);
+  }
+
+  /**
+   * 在页面或上下文上注册拦截规则，并记录注册目标
+   */
+  private async registerRoute(active: ActiveRoute, target: Page | BrowserContext): Promise<void> {
+    await target.route(active.url, active.handler);
+    if (!active.targets.includes(target)) {
+      active.targets.push(target);
+    }
+  }
+
+  /**
+   * 清除所有拦截规则
+   */
+  async clearRouteRules(): Promise<void> {
+    for (const ruleId of [...this.routes.keys()]) {
+      await this.removeRouteRule(ruleId);
+    }
+  }
+
+  /**
+   * 获取Playwright内置设备配置
+   * @param name 设备名称
+   */
+  private getDeviceDescriptor(name: string): (typeof devices)[string] {
+    const descriptor = devices[name];
+    if (!descriptor) {
+      throw new Error(`Unknown device: ${name}`);
+    }
+    return descriptor;
+  }
+
+  /**
+   * 将规则中的URL模式转换为Playwright可用的匹配条件
+   * @param urlPattern glob 或 /正则/ 字符串
+   */
+  private toRoutePattern(urlPattern: string): string | RegExp {
+    const literal = /^\/(.+)\/([gimsuy]*)$/.exec(urlPattern);
+    return literal ? new RegExp(literal[1], literal[2]) : urlPattern;
+  }
+
+  /**
+   * 按规则处理被拦截的请求
+   * @param rule 拦截规则
+   * @param route 路由对象
+   */
+  private async handleRoute(rule: RouteRule, route: Route): Promise<void> {
+    const request = route.request();
+    const exhausted = rule.times !== undefined && rule.hitCount >= rule.times;
+    if (exhausted || (rule.method && request.method() !== rule.method.toUpperCase())) {
+      await route.fallback();
+      return;
+    }
+
+    rule.hitCount++;
+    console.log(`[Route] ${rule.action} ${request.method()} ${request.url()}`);
+
+    if (rule.delay) {
+      await new Promise(resolve => setTimeout(resolve, rule.delay));
+    }
+
+    switch (rule.action) {
+      case 'fulfill': {
+        const response = rule.response || {};
+        await route.fulfill({
+          status: response.status ?? 200,
+          headers: response.headers,
+          contentType:
+            response.contentType ??
+            (typeof response.body === 'string' ? undefined : 'application/json'),
+          body: this.serializeBody(response.body),
+        });
+        break;
+      }
+      case 'abort':
+        await route.abort(rule.errorCode || 'failed');
+        break;
+      case 'delay':
+        await route.fallback();
+        break;
+      case 'modify': {
+        const modify = rule.modify || {};
+        const overrides = {
+          headers: modify.requestHeaders
+            ? { ...request.headers(), ...modify.requestHeaders }
+            : undefined,
+          postData:
+            modify.requestBody !== undefined ? this.serializeBody(modify.requestBody) : undefined,
+        };
+
+        // 只修改请求时交由后续处理器或网络继续
+        if (
+          modify.status === undefined &&
+          !modify.responseHeaders &&
+          modify.responseBody === undefined
+        ) {
+          await route.fallback(overrides);
+          break;
+        }
+
+        const response = await route.fetch(overrides);
+        await route.fulfill({
+          response,
+          status: modify.status,
+          headers: modify.responseHeaders
+            ? { ...response.headers(), ...modify.responseHeaders }
+            : undefined,
+          body:
+            modify.responseBody !== undefined ? this.serializeBody(modify.responseBody) : undefined,
+        });
+        break;
+      }
+    }
+  }
+
+  private serializeBody(body: unknown): string | undefined {
+    if (body === undefined || body === null) {
+      return undefined;
+    }
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  private createCapture(): PageCapture {
+    return { consoleLogs: [], networkRequests: [], requestRecords: new WeakMap() };
+  }
+
+  /**
+   * 获取当前操作的页面
+   * @throws 浏览器未启动时抛出错误
+   */
+  private getActivePage(): Page {
+    if (!this.page) {
+      throw new Error('Browser page not initialized. Call launchBrowser() first.');
+    }
+    return this.page;
+  }
+
+  /**
+   * 按启动选项创建浏览器上下文，应用正在进行的HAR回放并跟踪其中的页面
+   * @param capture 采集结果的存放位置
+   * @param onClose 页面关闭时的回调
+   * @param extraOptions 仅用于该上下文的附加选项
+   */
+  private async newTrackedContext(
+    capture: PageCapture,
+    onClose: (page: Page, remaining: Page[]) => void,
+    extraOptions: Parameters<Browser['newContext']>[0] = {}
+  ): Promise<BrowserContext> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call launchBrowser() first.');
+    }
+
+    const context = await this.browser.newContext({ ...this.contextOptions, ...extraOptions });
+    if (this.harReplayPath) {
+      await context.routeFromHAR(this.harReplayPath, this.harReplayOptions);
+    }
+    // 在每个文档加载前注册性能观察器，LCP、CLS 等指标只能在页面中记录
+    await context.addInitScript(installPerformanceObservers);
+    // 跟踪上下文中的所有页面，包括弹窗和 target=_blank 打开的标签页
+    this.trackPages(context, capture, onClose);
+    return context;
+  }
+
+  /**
+   * 当前页面关闭后切换到主上下文中最后打开的页面
+   */
+  private handleActivePageClosed(page: Page, remaining: Page[]): void {
+    if (this.page === page) {
+      this.page = remaining[remaining.length - 1] ?? null;
+    }
+  }
+
+  /**
+   * 跟踪浏览器上下文中新打开的页面，为每个页面分配ID并注册监听
+   * @param context 浏览器上下文
+   * @param capture 采集结果的存放位置
+   * @param onClose 页面关闭时的回调，参数为关闭的页面与仍打开的页面
+   */
+  private trackPages(
+    context: BrowserContext,
+    capture: PageCapture,
+    onClose: (page: Page, remaining: Page[]) => void
+  ): void {
+    context.on('page', page => {
+      const pageId = `page-${++this.pageCount}`;
+      this.pageIds.set(page, pageId);
+      this.attachPageListeners(page, capture, pageId);
+      page.on('close', () =>
+        onClose(
+          page,
+          context.pages().filter(open => open !== page)
+        )
+      );
+
+      console.log(`[Page] ${pageId} opened`);
+    });
+  }
+
+  /**
+   * 为页面注册控制台与网络监听
+   * @param page 页面
+   * @param capture 采集结果的存放位置
+   * @param pageId 页面ID，用于标记采集的事件
+   */
+  private attachPageListeners(page: Page, capture: PageCapture, pageId: string): void {
+    // 监听控制台消息
+    page.on('console', message => this.handleConsoleMessage(capture, message, pageId));
+
+    // 监听网络请求
+    page.on('request', request => this.handleNetworkRequest(capture, request, pageId));
+    page.on('response', response => this.handleNetworkResponse(capture, response));
+    page.on('requestfinished', request => this.handleRequestFinished(capture, request));
+    page.on('requestfailed', request => this.handleRequestFailed(capture, request));
+  }
+
   /**
    * 处理控制台消息
+   * @param capture 采集结果
    * @param message 控制台消息
+   * @param pageId 页面ID
    */
-  private handleConsoleMessage(message: ConsoleMessage): void {
+  private handleConsoleMessage(
+    capture: PageCapture,
+    message: ConsoleMessage,
+    pageId: string
+  ): void {
     const location = message.location();
 
     const consoleMessage: ConsoleMessageData = {
@@ -241,9 +1119,10 @@ export class PlaywrightService {
       },
       timestamp: new Date().toISOString(),
       stack: message.type() === 'error' ? message.text() : undefined,
+      pageId,
     };
 
-    this.consoleLogs.push(consoleMessage);
+    capture.consoleLogs.push(consoleMessage);
 
     // 打印到控制台
     console.log(`[Browser Console] [${consoleMessage.type}]: ${consoleMessage.text}`);
@@ -251,9 +1130,11 @@ export class PlaywrightService {
 
   /**
    * 处理网络请求
+   * @param capture 采集结果
    * @param request 请求对象
+   * @param pageId 页面ID
    */
-  private handleNetworkRequest(request: Request): void {
+  private handleNetworkRequest(capture: PageCapture, request: Request, pageId: string): void {
     const requestId = `${request.method()}-${request.url()}-${Date.now()}`;
 
     const networkRequest: NetworkRequest = {
@@ -264,25 +1145,48 @@ export class PlaywrightService {
       timestamp: Date.now(),
       requestId: requestId,
       type: request.resourceType(),
+      pageId,
     };
 
-    this.networkRequests.push(networkRequest);
+    capture.networkRequests.push(networkRequest);
+    capture.requestRecords.set(request, networkRequest);
 
     // 打印到控制台
     console.log(`[Network Request] ${networkRequest.method} ${networkRequest.url}`);
   }
 
+  /**
+   * 记录请求完成时的耗时信息
+   * @param capture 采集结果
+   * @param request 请求对象
+   */
+  private handleRequestFinished(capture: PageCapture, request: Request): void {
+    const networkRequest = capture.requestRecords.get(request);
+    if (networkRequest) {
+      networkRequest.timing = request.timing();
+    }
+  }
+
+  /**
+   * 记录请求失败原因
+   * @param capture 采集结果
+   * @param request 请求对象
+   */
+  private handleRequestFailed(capture: PageCapture, request: Request): void {
+    const networkRequest = capture.requestRecords.get(request);
+    if (networkRequest) {
+      networkRequest.timing = request.timing();
+      networkRequest.failure = request.failure()?.errorText;
+    }
+  }
+
   /**
    * 处理网络响应
+   * @param capture 采集结果
    * @param response 响应对象
    */
-  private async handleNetworkResponse(response: Response): Promise<void> {
-    const request = response.request();
-
-    // 尝试根据URL和方法匹配请求
-    const networkRequest = this.networkRequests.find(
-      req => req.url === request.url() && req.method === request.method()
-    );
+  private async handleNetworkResponse(capture: PageCapture, response: Response): Promise<void> {
+    const networkRequest = capture.requestRecords.get(response.request());
 
     if (networkRequest) {
       // 添加响应信息
@@ -294,16 +1198,18 @@ export class PlaywrightService {
         timestamp: Date.now(),
       };
 
-      // 尝试获取响应体（只获取文本和JSON等文本类型的响应）
+      // 获取响应体，文本类型直接保存，其余类型以base64保存
       try {
         const contentType = response.headers()['content-type'] || '';
-        if (
-          contentType.includes('json') ||
-          contentType.includes('text') ||
-          contentType.includes('javascript') ||
-          contentType.includes('xml')
-        ) {
-          networkRequest.response.body = await response.text();
+        const body = await response.body();
+        if (body.length <= MAX_RESPONSE_BODY_SIZE) {
+          const isText =
+            contentType.includes('json') ||
+            contentType.includes('text') ||
+            contentType.includes('javascript') ||
+            contentType.includes('xml');
+          networkRequest.response.body = body.toString(isText ? 'utf-8' : 'base64');
+          networkRequest.response.encoding = isText ? undefined : 'base64';
         }
       } catch (error) {
         console.warn(
@@ -0,0 +1,74 @@
+/**
+ * @file 存储状态服务测试
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageStateService } from './storage-state-service';
+import type { PlaywrightService, StorageState } from './playwright-service';
+import type { TestExecutionService } from './test-execution-service';
+
+const state: StorageState = {
+  cookies: [
+    {
+      name: 'session',
+      value: 'abc',
+      domain: 'example.com',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: false,
+      sameSite: 'Lax',
+    },
+  ],
+  origins: [{ origin: 'https://example.com', localStorage: [{ name: 'token', value: 'xyz' }] }],
+};
+
+describe('存储状态服务', () => {
+  let storageDir: string;
+  let service: StorageStateService;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-states-'));
+    service = new StorageStateService(
+      {} as PlaywrightService,
+      {} as TestExecutionService,
+      storageDir
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('应当保存并列出存储状态，列表中不包含Cookie内容', async () => {
+    const info = service.saveStorageState('admin', state, { loginSuiteId: 'login' });
+    expect(info).toMatchObject({
+      name: 'admin',
+      cookieCount: 1,
+      origins: ['https://example.com'],
+      loginSuiteId: 'login',
+    });
+
+    const [listed] = service.listStorageStates();
+    expect(listed).toMatchObject({ name: 'admin', expired: false });
+    expect(listed).not.toHaveProperty('state');
+    expect(await service.resolveStorageState('admin')).toEqual(state);
+  });
+
+  it('过期且没有登录套件时应当报错', async () => {
+    vi.useFakeTimers();
+    service.saveStorageState('admin', state, { ttlSeconds: 60 });
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(service.listStorageStates()[0].expired).toBe(true);
+    await expect(service.resolveStorageState('admin')).rejects.toThrow(/no login suite/);
+  });
+
+  it('应当拒绝不能作为文件名的名称', () => {
+    expect(() => service.saveStorageState('../admin', state)).toThrow(/Invalid storage state/);
+    expect(() => service.deleteStorageState('missing')).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * @file 存储状态服务
+ * @description 保存登录后的浏览器存储状态（Cookie与localStorage），供之后的浏览器与测试执行预加载，
+ * 过期后通过重新执行登录测试套件刷新
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlaywrightService, StorageState } from './playwright-service';
+import type { TestExecutionService } from './test-execution-service';
+
+// 名称用作文件名
+const NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * 已保存的存储状态信息
+ */
+export interface StorageStateInfo {
+  name: string;
+  createdAt: string;
+  // 过期时间，不设置则一直有效
+  expiresAt?: string;
+  // 有效期（秒），刷新时重新计算过期时间
+  ttlSeconds?: number;
+  // 过期后用于刷新的登录测试套件
+  loginSuiteId?: string;
+  cookieCount: number;
+  origins: string[];
+}
+
+interface StoredStorageState extends StorageStateInfo {
+  state: StorageState;
+}
+
+/**
+ * 保存选项
+ */
+export interface SaveStorageStateOptions {
+  ttlSeconds?: number;
+  loginSuiteId?: string;
+}
+
+export class StorageStateService {
+  private playwrightService: PlaywrightService;
+  private testExecution: TestExecutionService;
+  private storageDir: string;
+
+  constructor(
+    playwrightService: PlaywrightService,
+    testExecution: TestExecutionService,
+    storageDir?: string
+  ) {
+    this.playwrightService = playwrightService;
+    this.testExecution = testExecution;
+    this.storageDir = storageDir || path.join(process.cwd(), 'storage-states');
+  }
+
+  /**
+   * 保存当前浏览器上下文的存储状态
+   * @param name 名称
+   * @param options 有效期与刷新所用的登录套件
+   * @returns 存储状态信息
+   */
+  async captureStorageState(
+    name: string,
+    options: SaveStorageStateOptions = {}
+  ): Promise<StorageStateInfo> {
+    const state = await this.playwrightService.getStorageState();
+    return this.saveStorageState(name, state, options);
+  }
+
+  /**
+   * 在全新的浏览器中执行登录测试套件，成功后保存存储状态
+   * @param name 名称
+   * @param loginSuiteId 登录测试套件ID
+   * @param options.ttlSeconds 有效期（秒）
+   * @returns 存储状态信息
+   * @throws 登录套件未通过时抛出错误
+   */
+  async captureFromLoginSuite(
+    name: string,
+    loginSuiteId: string,
+    options: Pick<SaveStorageStateOptions, 'ttlSeconds'> = {}
+  ): Promise<StorageStateInfo> {
+    this.validateName(name);
+
+    // 沿用当前浏览器的启动选项但不预加载任何状态，确保登录流程真实执行；
+    // 在主上下文中顺序执行，之后才能读取其存储状态
+    await this.playwrightService.launchBrowser(this.playwrightService.getRelaunchOptions());
+    const reportId = await this.testExecution.runTests(loginSuiteId, { workers: 1 });
+    const report = await this.testExecution.getReport(reportId);
+    if (!('passed' in report) || !report.passed) {
+      throw new Error(`Login suite ${loginSuiteId} failed, see report ${reportId}`);
+    }
+
+    return this.captureStorageState(name, { ...options, loginSuiteId });
+  }
+
+  /**
+   * 保存存储状态
+   * @param name 名称，只能包含字母、数字、下划线、点和连字符
+   * @param state 存储状态
+   * @param options 有效期与刷新所用的登录套件
+   * @returns 存储状态信息
+   */
+  saveStorageState(
+    name: string,
+    state: StorageState,
+    options: SaveStorageStateOptions = {}
+  ): StorageStateInfo {
+    this.validateName(name);
+
+    const now = Date.now();
+    const stored: StoredStorageState = {
+      name,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: options.ttlSeconds
+        ? new Date(now + options.ttlSeconds * 1000).toISOString()
+        : undefined,
+      ttlSeconds: options.ttlSeconds,
+      loginSuiteId: options.loginSuiteId,
+      cookieCount: state.cookies.length,
+      origins: state.origins.map(origin => origin.origin),
+      state,
+    };
+
+    if (!fs.existsSync(this.storageDir)) {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+    }
+    fs.writeFileSync(this.getFilePath(name), JSON.stringify(stored, null, 2));
+    console.log(`Storage state "${name}" saved with ${stored.cookieCount} cookies`);
+
+    return this.toInfo(stored);
+  }
+
+  /**
+   * 获取可用的存储状态，过期时重新执行登录套件刷新
+   * @param name 名称
+   * @returns 存储状态
+   * @throws 不存在，或已过期且没有可用于刷新的登录套件时抛出错误
+   */
+  async resolveStorageState(name: string): Promise<StorageState> {
+    const stored = this.readStorageState(name);
+    if (!this.isExpired(stored)) {
+      return stored.state;
+    }
+
+    if (!stored.loginSuiteId) {
+      throw new Error(
+        `Storage state "${name}" expired at ${stored.expiresAt} and has no login suite to refresh it`
+      );
+    }
+
+    console.log(`Storage state "${name}" expired, refreshing with suite ${stored.loginSuiteId}`);
+    await this.captureFromLoginSuite(name, stored.loginSuiteId, {
+      ttlSeconds: stored.ttlSeconds,
+    });
+    return this.readStorageState(name).state;
+  }
+
+  /**
+   * 列出已保存的存储状态
+   * @returns 存储状态信息，不包含Cookie内容
+   */
+  listStorageStates(): Array<StorageStateInfo & { expired: boolean }> {
+    if (!fs.existsSync(this.storageDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.storageDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.readStorageState(path.basename(file, '.json')))
+      .map(stored => ({ ...this.toInfo(stored), expired: this.isExpired(stored) }));
+  }
+
+  /**
+   * 删除存储状态
+   * @param name 名称
+   */
+  deleteStorageState(name: string): void {
+    const filePath = this.getFilePath(name);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Storage state not found: ${name}`);
+    }
+    fs.unlinkSync(filePath);
+  }
+
+  private readStorageState(name: string): StoredStorageState {
+    const filePath = this.getFilePath(name);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Storage state not found: ${name}`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StoredStorageState;
+  }
+
+  private isExpired(stored: StorageStateInfo): boolean {
+    return !!stored.expiresAt && Date.parse(stored.expiresAt) <= Date.now();
+  }
+
+  private toInfo(stored: StoredStorageState): StorageStateInfo {
+    return {
+      name: stored.name,
+      createdAt: stored.createdAt,
+      expiresAt: stored.expiresAt,
+      ttlSeconds: stored.ttlSeconds,
+      loginSuiteId: stored.loginSuiteId,
+      cookieCount: stored.cookieCount,
+      origins: stored.origins,
+    };
+  }
+
+  private validateName(name: string): void {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid storage state name "${name}": use letters, digits, underscores, dots or hyphens`
+      );
+    }
+  }
+
+  private getFilePath(name: string): string {
+    this.validateName(name);
+    return path.join(this.storageDir, `${name}.json`);
+  }
+}
@@ -1,8 +1,44 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { randomUUID } from 'crypto';
-import { PlaywrightService } from './playwright-service';
+import type { BrowserContext, Page } from 'playwright';
+import {
+  ConsoleMessageData,
+  getBrowserOptionsFromConfig,
+  IsolatedContext,
+  NetworkRequest,
+  PlaywrightService,
+  StorageState,
+} from './playwright-service';
 import * as core from '../types/core';
+import { ApiRequestData, buildFetchBody, collectAssertions } from './api-testing-service';
+import { evaluateAssertions } from '../utils/api-assertions';
+import { extractVariables, interpolateVariables } from '../utils/api-variables';
+import { isTimeoutError, resolveTimeout, TimeoutError, withTimeout } from '../utils/timeout';
+import { testConfig } from '../utils/config';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { A11yViolation } from '../utils/a11y-audit';
+import {
+  BrowserMatrixCell,
+  compareMatrixResults,
+  getMatrixCellNames,
+  MatrixCaseComparison,
+} from '../utils/browser-matrix';
+import { DEFAULT_STEP_TIMEOUT, executeUiStep, UiStepContext } from './ui-step-registry';
+import { VisualSnapshotResult, VisualSnapshotService } from './visual-snapshot-service';
+import {
+  buildPerformanceTrend,
+  collectPagePerformance,
+  PagePerformance,
+  PerformanceTrend,
+} from '../utils/performance-metrics';
+
+// Playwright 页面操作的默认超时
+const PLAYWRIGHT_DEFAULT_TIMEOUT = 30000;
+// 失败截图不应因页面卡住而再次长时间等待
+const FAILURE_SCREENSHOT_TIMEOUT = 5000;
+// 采集性能指标只读取页面中已有的记录，不应拖慢测试
+const PERFORMANCE_COLLECT_TIMEOUT = 2000;
 
 // 扩展TestCaseStep以适应当前服务的需求
 interface ExtendedTestCaseStep extends core.TestCaseStep {
@@ -11,34 +47,187 @@ interface ExtendedTestCaseStep extends core.TestCaseStep {
   target?: string;
 }
 
+/**
+ * 测试用例执行状态
+ * timedOut 表示超时，skipped 表示因套件超时未执行，flaky 表示失败后重试通过
+ */
+export type TestCaseStatus = 'passed' | 'failed' | 'timedOut' | 'skipped' | 'flaky';
+
+/**
+ * 跟踪与视频的录制方式，retain-on-failure 仅保留未通过的执行
+ */
+export type ArtifactMode = 'off' | 'on' | 'retain-on-failure';
+
+/**
+ * 测试用例的单次执行记录
+ */
+export interface TestAttemptResult {
+  // 第几次重试，首次执行为0
+  attempt: number;
+  status: 'passed' | 'failed' | 'timedOut';
+  startTime: string;
+  duration: number;
+  error?: string;
+  // 本次执行的截图
+  screenshots?: string[];
+  // 本次执行的Playwright跟踪文件，可用 npx playwright show-trace 打开
+  trace?: string;
+  // 本次执行的录像
+  video?: string;
+}
+
 export interface TestCaseResult {
   testCaseId: string;
+  // 最后一次执行是否通过，flaky 用例为 true
   passed: boolean;
+  status: TestCaseStatus;
   duration: number;
   errors?: Error[];
   screenshots?: string[];
+  // 最后一次执行的跟踪文件与录像
+  trace?: string;
+  video?: string;
+  // 每次执行的记录，包括重试
+  attempts?: TestAttemptResult[];
+}
+
+// 单次执行需要的超时限制与调试产物配置
+interface ExecutionLimits {
+  testSuite: core.TestSuite;
+  options: RunTestsOptions;
+  suiteTimeout?: number;
+  suiteDeadline: number;
+  // 测试结果ID，跟踪文件与录像按结果分目录保存
+  resultId: string;
+  trace: ArtifactMode;
+  video: ArtifactMode;
+  // 本次执行中visualSnapshot步骤的结果
+  visualSnapshots: VisualSnapshotResult[];
+  // 各文档的性能指标，以文档的时间原点去重
+  performance: Map<number, PagePerformance>;
+}
+
+interface AttemptOutcome {
+  attempt: TestAttemptResult;
+  errors: Error[];
+}
+
+// 执行测试用例所用的页面
+interface ExecutionSession {
+  getPage(): Promise<Page | null>;
+  // 切换页面的步骤执行后，后续步骤在新页面上执行
+  setPage(page: Page): void;
+  // 重试前重置页面状态
+  reset(): Promise<void>;
+}
+
+// 在独立上下文中执行的测试用例结果与该上下文的采集结果
+interface IsolatedCaseResult {
+  result: TestCaseResult;
+  networkRequests: NetworkRequest[];
+  consoleMessages: ConsoleMessageData[];
 }
 
 export interface TestResults {
   id: string;
   testSuiteId: string;
   passed: boolean;
+  // 套件超时时为 timedOut
+  status?: 'passed' | 'failed' | 'timedOut';
   testCases: TestCaseResult[];
+  // 并行执行时合并各上下文的采集结果，并以 testCaseId 标记所属用例
   networkRequests: any[];
   consoleMessages: any[];
   startTime: string;
   endTime: string;
   duration: number;
+  // 本次执行录制的HAR文件路径
+  harPath?: string;
+  // visualSnapshot 步骤的对比结果，失败的结果包含新截图与差异图路径
+  visualSnapshots?: VisualSnapshotResult[];
+  // 每次导航的性能指标，在每个步骤执行前与测试用例结束时采集
+  performance?: PagePerformance[];
+  // 作为浏览器矩阵的一部分执行时，所属矩阵报告ID与组合名称
+  matrixId?: string;
+  browser?: string;
+}
+
+/**
+ * 浏览器矩阵中单个组合的执行结果
+ */
+export interface MatrixCellResult extends BrowserMatrixCell {
+  name: string;
+  passed: boolean;
+  // 该组合的测试报告ID，浏览器启动失败时为空
+  reportId?: string;
+  status?: TestResults['status'];
+  error?: string;
+}
+
+/**
+ * 浏览器矩阵的汇总报告
+ */
+export interface MatrixReport {
+  id: string;
+  type: 'matrix';
+  testSuiteId: string;
+  // 所有组合的所有用例均通过
+  passed: boolean;
+  cells: MatrixCellResult[];
+  testCases: MatrixCaseComparison[];
+  // 仅在部分组合下失败的用例ID，通常是浏览器或视口相关的问题
+  inconsistentCases: string[];
+  startTime: string;
+  endTime: string;
+  duration: number;
+}
+
+/**
+ * UI测试执行选项
+ */
+export interface RunTestsOptions {
+  // 是否将本次执行的网络流量录制为HAR文件
+  recordHar?: boolean;
+  // 回放的HAR文件路径，或录制过HAR的测试报告ID
+  replayHar?: string;
+  // 回放时HAR中没有匹配条目的请求的处理方式，默认中止
+  harNotFound?: 'abort' | 'fallback';
+  // 超时配置，优先于套件配置与全局配置
+  timeouts?: core.TestTimeouts;
+  // 失败后的重试次数，优先于套件配置与 TEST_RETRIES
+  retries?: number;
+  // 并行执行的浏览器上下文数量，大于1时每个用例使用独立的上下文，默认 TEST_WORKERS
+  workers?: number;
+  // 预加载的存储状态（如已登录的Cookie），设置时以该状态重新启动浏览器
+  storageState?: StorageState;
+  // 是否为每个测试用例录制Playwright跟踪，默认 TEST_TRACE
+  trace?: ArtifactMode;
+  // 是否为每个测试用例录制视频，默认 TEST_VIDEO；录制视频时每个用例在独立的上下文中执行
+  video?: ArtifactMode;
 }
 
 export interface ErrorReport {
   id: string;
   frontendErrors: FrontendError[];
   backendErrors: BackendError[];
+  // 无障碍审计发现的违规，来自 a11y-audit 工具与 audit 步骤
+  accessibilityErrors: AccessibilityError[];
   summary: string;
   timestamp: string;
 }
 
+/**
+ * 测试报告摘要，用于浏览历史报告
+ */
+export interface TestReportSummary {
+  id: string;
+  type: 'result' | 'error' | 'matrix';
+  testSuiteId?: string;
+  passed?: boolean;
+  timestamp: string;
+  harPath?: string;
+}
+
 export interface FrontendError {
   message: string;
   location?: {
@@ -51,6 +240,11 @@ export interface FrontendError {
   screenshot?: string;
 }
 
+/**
+ * 无障碍违规，包含失败元素的选择器与违反的规则
+ */
+export type AccessibilityError = A11yViolation;
+
 export interface BackendError {
   apiEndpoint: string;
   method: string;
@@ -65,6 +259,8 @@ export class TestExecutionService {
   private playwrightService: PlaywrightService;
   private testResults: Map<string, TestResults> = new Map();
   private errorReports: Map<string, ErrorReport> = new Map();
+  private matrixReports: Map<string, MatrixReport> = new Map();
+  private visualSnapshots: VisualSnapshotService = new VisualSnapshotService();
   private storageDir: string;
 
   constructor(playwrightService: PlaywrightService, storageDir?: string) {
@@ -76,12 +272,6 @@ export class TestExecutionService {
       fs.mkdirSync(this.storageDir, { recursive: true });
     }
 
-    // 创建截图目录
-    const screenshotsDir = path.join(this.storageDir, 'screenshots');
-    if (!fs.existsSync(screenshotsDir)) {
-      fs.mkdirSync(screenshotsDir, { recursive: true });
-    }
-
     // 加载现有测试结果
     this.loadTestResults();
   }
@@ -89,9 +279,10 @@ export class TestExecutionService {
   /**
    * 运行测试用例
    * @param testSuiteId 测试套件ID
+   * @param options 执行选项
    * @returns 测试结果ID
    */
-  async runTests(testSuiteId: string): Promise<string> {
+  async runTests(testSuiteId: string, options: RunTestsOptions = {}): Promise<string> {
     try {
       // 加载测试套件
       const testSuitePath = path.join(process.cwd(), 'test-suites', `${testSuiteId}.json`);
@@ -103,210 +294,133 @@ export class TestExecutionService {
       const testSuiteContent = fs.readFileSync(testSuitePath, 'utf-8');
       const testSuite = JSON.parse(testSuiteContent) as core.TestSuite;
 
-      // 确保浏览器已启动
+      // 确保浏览器已启动，需要预加载存储状态时以相同的启动选项重新启动
       const browserIsRunning = !!this.playwrightService.getPage();
-      if (!browserIsRunning) {
-        await this.playwrightService.launchBrowser();
+      if (options.storageState) {
+        await this.playwrightService.launchBrowser({
+          ...this.playwrightService.getRelaunchOptions(),
+          storageState: options.storageState,
+        });
+      } else if (!browserIsRunning) {
+        await this.playwrightService.launchBrowser(getBrowserOptionsFromConfig());
       }
 
       // 清除之前的控制台日志和网络请求
       this.playwrightService.clearConsoleLogs();
       this.playwrightService.clearNetworkRequests();
+      this.playwrightService.clearA11yViolations();
 
       // 创建测试结果ID
       const resultId = randomUUID();
       const startTime = new Date();
 
-      // 执行每个测试用例
-      const testCaseResults: TestCaseResult[] = [];
-
-      for (const testCase of testSuite.testCases) {
-        console.log(`Running test case: ${testCase.description}`);
+      // 从HAR回放网络流量，隔离不稳定的后端
+      if (options.replayHar) {
+        await this.playwrightService.startHarReplay(this.resolveHarPath(options.replayHar), {
+          notFound: options.harNotFound,
+        });
+      }
 
-        const testCaseStartTime = Date.now();
-        let passed = true;
-        const errors: Error[] = [];
-        const screenshots: string[] = [];
+      // 用例与步骤自身的配置优先，其次是工具参数、套件配置，最后是全局配置
+      const suiteTimeout = resolveTimeout(
+        options.timeouts?.suite,
+        testSuite.timeouts?.suite,
+        testConfig.suiteTimeout
+      );
+      const limits: ExecutionLimits = {
+        testSuite,
+        options,
+        suiteTimeout,
+        suiteDeadline: suiteTimeout ? startTime.getTime() + suiteTimeout : Infinity,
+        resultId,
+        trace: options.trace ?? testConfig.trace,
+        video: options.video ?? testConfig.video,
+        visualSnapshots: [],
+        performance: new Map(),
+      };
+      const workers = Math.max(options.workers ?? testConfig.workers, 1);
 
-        try {
-          // 执行测试用例的每个步骤
-          for (const step of testCase.steps) {
-            const extendedStep = step as ExtendedTestCaseStep;
-            console.log(`- Step: ${step.action} ${extendedStep.target || step.selector || ''}`);
-
-            const page = this.playwrightService.getPage();
-            if (!page) {
-              throw new Error('Browser page not initialized');
-            }
-
-            // 根据步骤类型执行不同的操作
-            switch (step.action) {
-              case 'navigate':
-                await page.goto(extendedStep.target || step.selector || '');
-                break;
-
-              case 'click':
-                await page.click(extendedStep.target || step.selector || '');
-                break;
-
-              case 'fill':
-                await page.fill(extendedStep.target || step.selector || '', step.value || '');
-                break;
-
-              case 'check':
-                await page.check(extendedStep.target || step.selector || '');
-                break;
-
-              case 'select':
-                await page.selectOption(
-                  extendedStep.target || step.selector || '',
-                  step.value || ''
-                );
-                break;
-
-              case 'custom':
-                if (extendedStep.customScript || step.value) {
-                  // 执行自定义JavaScript
-                  const script = extendedStep.customScript || step.value || '';
-                  const result = await page.evaluate(script);
-                  if (!result) {
-                    throw new Error(`Custom assertion failed: ${script}`);
-                  }
-                }
-                break;
-
-              case 'request':
-                // API请求测试处理
-                if (step.value) {
-                  try {
-                    const requestData = JSON.parse(step.value);
-
-                    // 使用fetch API执行请求
-                    const response = await page.evaluate(
-                      async ({ url, method, headers, body }) => {
-                        const response = await fetch(url, {
-                          method,
-                          headers,
-                          body: body ? JSON.stringify(body) : undefined,
-                        });
-
-                        return {
-                          status: response.status,
-                          statusText: response.statusText,
-                          headers: Object.fromEntries([...response.headers]),
-                          body: await response.text(),
-                        };
-                      },
-                      {
-                        url: extendedStep.target || step.selector || 'https://example.com', // 提供默认值避免undefined
-                        method: requestData.method,
-                        headers: requestData.headers,
-                        body: requestData.body,
-                      }
-                    );
-
-                    // 验证状态码
-                    if (
-                      requestData.expectedStatus &&
-                      response.status !== requestData.expectedStatus
-                    ) {
-                      throw new Error(
-                        `Expected status ${requestData.expectedStatus}, got ${response.status}`
-                      );
-                    }
-
-                    // 验证响应体（如果期望的响应体存在）
-                    if (requestData.expectedResponse) {
-                      try {
-                        const responseBody = JSON.parse(response.body);
-                        // 这里应该有更复杂的响应体验证逻辑
-                        // 目前只是简单地验证响应体不为空
-                        if (!responseBody) {
-                          throw new Error('Response body is empty');
-                        }
-                      } catch (error) {
-                        throw new Error(`Invalid JSON response: ${response.body}`);
-                      }
-                    }
-                  } catch (error) {
-                    throw new Error(`API request failed: ${(error as Error).message}`);
-                  }
-                }
-                break;
-
-              default:
-                console.warn(`Unknown step action: ${step.action}`);
-            }
-
-            // 每个步骤后等待一段时间以确保页面已响应
-            await page.waitForTimeout(500);
-
-            // 如果需要截图，则捕获当前步骤的截图
-            if ((step as ExtendedTestCaseStep).screenshot) {
-              const screenshotPath = path.join(
-                this.storageDir,
-                'screenshots',
-                `${testCase.id}_${step.id}.png`
-              );
-              await page.screenshot({ path: screenshotPath });
-              screenshots.push(screenshotPath);
-            }
-          }
-        } catch (error) {
-          passed = false;
-          errors.push(error as Error);
-
-          // 测试失败时捕获截图
-          try {
-            const page = this.playwrightService.getPage();
-            if (page) {
-              const screenshotPath = path.join(
-                this.storageDir,
-                'screenshots',
-                `${testCase.id}_failure.png`
-              );
-              await page.screenshot({ path: screenshotPath });
-              screenshots.push(screenshotPath);
-            }
-          } catch (screenshotError) {
-            console.error('Error capturing failure screenshot:', screenshotError);
-          }
+      // 存储目录可能在服务运行期间被清理，每次执行前创建截图与跟踪目录
+      fs.mkdirSync(path.join(this.storageDir, 'screenshots'), { recursive: true });
+      if (limits.trace !== 'off') {
+        fs.mkdirSync(path.join(this.storageDir, 'traces', resultId), { recursive: true });
+      }
 
-          console.error(`Test failed: ${(error as Error).message}`);
+      // 执行每个测试用例
+      let testCaseResults: TestCaseResult[];
+      let networkRequests: NetworkRequest[];
+      let consoleMessages: ConsoleMessageData[];
+
+      // 录像在页面关闭后才能保存，录制视频时同样让每个用例使用独立的上下文
+      if (workers > 1 || limits.video !== 'off') {
+        // 每个测试用例在独立的浏览器上下文中执行，互不共享Cookie与存储
+        const parallelResults = await mapWithConcurrency(testSuite.testCases, workers, testCase =>
+          this.runTestCaseInIsolatedContext(testCase, limits)
+        );
+        testCaseResults = parallelResults.map(({ result }) => result);
+        networkRequests = parallelResults
+          .flatMap(({ networkRequests }) => networkRequests)
+          .sort((a, b) => a.timestamp - b.timestamp);
+        consoleMessages = parallelResults
+          .flatMap(({ consoleMessages }) => consoleMessages)
+          .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+      } else {
+        testCaseResults = [];
+        for (const testCase of testSuite.testCases) {
+          testCaseResults.push(
+            await this.runTestCase(testCase, limits, {
+              getPage: () => Promise.resolve(this.playwrightService.getPage()),
+              setPage: page => this.playwrightService.setActivePage(page),
+              reset: async () => {
+                await this.playwrightService.resetPage();
+              },
+            })
+          );
         }
 
-        // 记录测试用例结果
-        const testCaseEndTime = Date.now();
-        const duration = testCaseEndTime - testCaseStartTime;
+        // 恢复 Playwright 的默认超时，避免影响后续的交互操作
+        this.playwrightService.getPage()?.setDefaultTimeout(PLAYWRIGHT_DEFAULT_TIMEOUT);
 
-        testCaseResults.push({
-          testCaseId: testCase.id,
-          passed,
-          duration,
-          errors: errors.length > 0 ? errors : undefined,
-          screenshots: screenshots.length > 0 ? screenshots : undefined,
-        });
+        // 获取网络请求和控制台消息
+        networkRequests = await this.playwrightService.getNetworkRequests();
+        consoleMessages = await this.playwrightService.getConsoleLogs();
       }
 
       // 计算总体测试结果
       const endTime = new Date();
       const allPassed = testCaseResults.every(result => result.passed);
-
-      // 获取网络请求和控制台消息
-      const networkRequests = await this.playwrightService.getNetworkRequests();
-      const consoleMessages = await this.playwrightService.getConsoleLogs();
+      const suiteTimedOut =
+        testCaseResults.some(result => result.status === 'skipped') ||
+        (endTime.getTime() >= limits.suiteDeadline &&
+          testCaseResults.some(result => result.status === 'timedOut'));
+      const suiteStatus: TestResults['status'] = suiteTimedOut
+        ? 'timedOut'
+        : allPassed
+          ? 'passed'
+          : 'failed';
+
+      const harPath = options.recordHar
+        ? this.playwrightService.exportHar(
+            path.join(this.storageDir, 'har', `${resultId}.har`),
+            networkRequests
+          )
+        : undefined;
 
       // 创建测试结果
       const testResults: TestResults = {
         id: resultId,
         testSuiteId,
         passed: allPassed,
+        status: suiteStatus,
         testCases: testCaseResults,
         networkRequests,
         consoleMessages,
         startTime: startTime.toISOString(),
         endTime: endTime.toISOString(),
         duration: endTime.getTime() - startTime.getTime(),
+        harPath,
+        visualSnapshots: limits.visualSnapshots.length > 0 ? limits.visualSnapshots : undefined,
+        performance: limits.performance.size > 0 ? [...limits.performance.values()] : undefined,
       };
 
       // 保存测试结果
@@ -317,7 +431,732 @@ export class TestExecutionService {
     } catch (error) {
       console.error('Error running tests:', error);
       throw new Error(`Failed to run tests: ${(error as Error).message}`);
+    } finally {
+      // 执行失败时同样停止回放，避免后续操作仍然命中HAR
+      if (options.replayHar) {
+        await this.playwrightService.stopHarReplay();
+      }
+    }
+  }
+
+  /**
+   * 在多个浏览器/视口/设备组合下分别执行测试套件，并汇总对比各组合的结果
+   * 每个组合重新启动浏览器，执行结束后关闭浏览器
+   * @param testSuiteId 测试套件ID
+   * @param matrix 浏览器组合
+   * @param options 执行选项，应用于每个组合
+   * @returns 矩阵报告ID
+   */
+  async runTestMatrix(
+    testSuiteId: string,
+    matrix: BrowserMatrixCell[],
+    options: RunTestsOptions = {}
+  ): Promise<string> {
+    if (matrix.length === 0) {
+      throw new Error('Browser matrix must contain at least one entry');
+    }
+    if (!fs.existsSync(path.join(process.cwd(), 'test-suites', `${testSuiteId}.json`))) {
+      throw new Error(`Test suite not found: ${testSuiteId}`);
+    }
+
+    const matrixId = randomUUID();
+    const startTime = new Date();
+    const names = getMatrixCellNames(matrix);
+    const cells: MatrixCellResult[] = [];
+    const cellResults: Array<{ name: string; testCases: TestCaseResult[] }> = [];
+
+    try {
+      for (const [index, cell] of matrix.entries()) {
+        const name = names[index];
+        console.log(`Running test suite ${testSuiteId} on ${name}`);
+
+        try {
+          // 组合未指定的选项（如语言区域、时区）沿用环境变量配置，设备决定默认的浏览器与视口
+          const defaults = getBrowserOptionsFromConfig();
+          await this.playwrightService.launchBrowser({
+            ...defaults,
+            browserType: cell.browserType ?? (cell.device ? undefined : defaults.browserType),
+            device: cell.device,
+            viewport: cell.viewport ?? (cell.device ? undefined : defaults.viewport),
+            storageState: options.storageState,
+          });
+
+          const reportId = await this.runTests(testSuiteId, {
+            ...options,
+            storageState: undefined,
+          });
+          const testResults = this.testResults.get(reportId) as TestResults;
+          testResults.matrixId = matrixId;
+          testResults.browser = name;
+          this.saveTestResults(testResults);
+
+          cells.push({
+            ...cell,
+            name,
+            passed: testResults.passed,
+            reportId,
+            status: testResults.status,
+          });
+          cellResults.push({ name, testCases: testResults.testCases });
+        } catch (error) {
+          // 某个组合无法执行（如浏览器未安装）时继续执行其他组合
+          console.error(`Error running matrix entry ${name}:`, error);
+          cells.push({
+            ...cell,
+            name,
+            passed: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      await this.playwrightService.closeBrowser();
+    }
+
+    const testCases = compareMatrixResults(cellResults);
+    const endTime = new Date();
+    const matrixReport: MatrixReport = {
+      id: matrixId,
+      type: 'matrix',
+      testSuiteId,
+      passed: cells.every(cell => cell.passed),
+      cells,
+      testCases,
+      inconsistentCases: testCases
+        .filter(testCase => testCase.inconsistent)
+        .map(testCase => testCase.testCaseId),
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration: endTime.getTime() - startTime.getTime(),
+    };
+
+    this.matrixReports.set(matrixId, matrixReport);
+    this.saveMatrixReport(matrixReport);
+
+    return matrixId;
+  }
+
+  /**
+   * 执行测试用例，失败时按重试次数重新执行
+   * @param testCase 测试用例
+   * @param limits 超时限制
+   * @param session 执行所用的页面
+   * @returns 测试用例结果
+   */
+  private async runTestCase(
+    testCase: core.TestCase,
+    limits: ExecutionLimits,
+    session: ExecutionSession
+  ): Promise<TestCaseResult> {
+    const { testSuite, options, suiteTimeout, suiteDeadline } = limits;
+
+    // 套件超时后剩余的测试用例不再执行
+    if (Date.now() >= suiteDeadline) {
+      return {
+        testCaseId: testCase.id,
+        passed: false,
+        status: 'skipped',
+        duration: 0,
+        errors: [new Error(`Skipped: suite timeout of ${suiteTimeout}ms exceeded`)],
+      };
+    }
+
+    console.log(`Running test case: ${testCase.description}`);
+
+    const retries = Math.max(
+      testCase.retries ?? options.retries ?? testSuite.retries ?? testConfig.retries,
+      0
+    );
+    const attempts: TestAttemptResult[] = [];
+    let outcome: AttemptOutcome;
+
+    // 失败后在全新的页面状态下重试，直到通过或用完重试次数
+    for (let attempt = 0; ; attempt++) {
+      if (attempt > 0) {
+        console.log(`Retrying test case ${testCase.id} (retry ${attempt}/${retries})`);
+        await session.reset();
+      }
+
+      outcome = await this.runTestCaseAttempt(testCase, attempt, limits, session);
+      attempts.push(outcome.attempt);
+
+      if (outcome.attempt.status === 'timedOut' && Date.now() >= suiteDeadline) {
+        break;
+      }
+      if (outcome.attempt.status === 'passed' || attempt >= retries) {
+        break;
+      }
+    }
+
+    // 失败后重试通过的用例标记为 flaky
+    const finalStatus = outcome.attempt.status;
+    const status: TestCaseStatus =
+      finalStatus === 'passed' && attempts.length > 1 ? 'flaky' : finalStatus;
+
+    return {
+      testCaseId: testCase.id,
+      passed: finalStatus === 'passed',
+      status,
+      duration: attempts.reduce((total, attempt) => total + attempt.duration, 0),
+      errors: outcome.errors.length > 0 ? outcome.errors : undefined,
+      screenshots: outcome.attempt.screenshots,
+      trace: outcome.attempt.trace,
+      attempts,
+    };
+  }
+
+  /**
+   * 在独立的浏览器上下文中执行测试用例，每次重试都使用新的上下文
+   * @param testCase 测试用例
+   * @param limits 超时限制
+   * @returns 测试用例结果，以及以 testCaseId 标记的控制台消息与网络请求
+   */
+  private async runTestCaseInIsolatedContext(
+    testCase: core.TestCase,
+    limits: ExecutionLimits
+  ): Promise<IsolatedCaseResult> {
+    const contexts: IsolatedContext[] = [];
+    const current = (): IsolatedContext | undefined => contexts[contexts.length - 1];
+    const videoDir = path.join(this.storageDir, 'videos', limits.resultId);
+    const open = async (): Promise<IsolatedContext> => {
+      const context = await this.playwrightService.createIsolatedContext({
+        recordVideoDir: limits.video !== 'off' ? videoDir : undefined,
+      });
+      contexts.push(context);
+      return context;
+    };
+
+    try {
+      const result = await this.runTestCase(testCase, limits, {
+        // 跳过的用例不创建上下文
+        getPage: async () => (current() ?? (await open())).page,
+        setPage: page => {
+          const context = current();
+          if (context) {
+            context.page = page;
+          }
+        },
+        reset: async () => {
+          await current()?.close();
+          await open();
+        },
+      });
+
+      // 每次执行使用一个上下文，关闭后按执行结果保存录像
+      await current()?.close();
+      for (const [index, attempt] of (result.attempts ?? []).entries()) {
+        const video = contexts[index]?.video;
+        if (!video) {
+          continue;
+        }
+        try {
+          if (this.shouldKeepArtifact(limits.video, attempt.status)) {
+            attempt.video = path.join(videoDir, `${this.getArtifactPrefix(testCase, index)}.webm`);
+            await video.saveAs(attempt.video);
+          }
+          await video.delete();
+        } catch (error) {
+          console.error(`Error saving video for test case ${testCase.id}:`, error);
+        }
+      }
+      result.video = result.attempts?.[result.attempts.length - 1]?.video;
+
+      return {
+        result,
+        networkRequests: contexts.flatMap(context =>
+          context.networkRequests.map(request => ({ ...request, testCaseId: testCase.id }))
+        ),
+        consoleMessages: contexts.flatMap(context =>
+          context.consoleLogs.map(message => ({ ...message, testCaseId: testCase.id }))
+        ),
+      };
+    } finally {
+      await current()?.close();
+    }
+  }
+
+  /**
+   * 执行一次测试用例
+   * @param testCase 测试用例
+   * @param attempt 第几次重试，首次执行为0
+   * @param limits 超时限制
+   * @param session 执行所用的页面
+   * @returns 本次执行的结果与错误
+   */
+  private async runTestCaseAttempt(
+    testCase: core.TestCase,
+    attempt: number,
+    limits: ExecutionLimits,
+    session: ExecutionSession
+  ): Promise<AttemptOutcome> {
+    const { testSuite, options, suiteTimeout, suiteDeadline } = limits;
+    const startTime = new Date();
+    const testCaseTimeout = resolveTimeout(
+      testCase.timeout,
+      options.timeouts?.testCase,
+      testSuite.timeouts?.testCase,
+      testConfig.timeout
+    );
+    const testCaseDeadline = Math.min(
+      testCaseTimeout ? startTime.getTime() + testCaseTimeout : Infinity,
+      suiteDeadline
+    );
+    // 每次执行的截图单独保存，重试不会覆盖之前的截图
+    const artifactPrefix = this.getArtifactPrefix(testCase, attempt);
+    let status: TestAttemptResult['status'] = 'passed';
+    const errors: Error[] = [];
+    const screenshots: string[] = [];
+
+    // 跟踪记录所在上下文中的全部页面，包括之后打开的弹窗
+    let tracedContext: BrowserContext | undefined;
+    if (limits.trace !== 'off') {
+      try {
+        tracedContext = (await session.getPage())?.context();
+        await tracedContext?.tracing.start({ screenshots: true, snapshots: true, sources: true });
+      } catch (error) {
+        tracedContext = undefined;
+        console.error(`Error starting trace for test case ${testCase.id}:`, error);
+      }
+    }
+
+    // 与导出的 spec 一致，变量以环境变量为初始值，提取结果在后续步骤中可用
+    const variables: Record<string, unknown> = { ...process.env };
+
+    try {
+      // 执行测试用例的每个步骤
+      for (const step of testCase.steps) {
+        const extendedStep = step as ExtendedTestCaseStep;
+        console.log(`- Step: ${step.action} ${extendedStep.target || step.selector || ''}`);
+
+        const page = await session.getPage();
+        if (!page) {
+          throw new Error('Browser page not initialized');
+        }
+
+        // 步骤可用时间不超过测试用例与套件的剩余时间
+        const stepTimeout = resolveTimeout(
+          step.timeout,
+          options.timeouts?.step,
+          testSuite.timeouts?.step,
+          testConfig.stepTimeout
+        );
+        const remaining = testCaseDeadline - Date.now();
+        const timeout = Math.min(stepTimeout ?? Infinity, remaining);
+        const limitedBy =
+          timeout === stepTimeout
+            ? `Step "${step.action}" timed out after ${stepTimeout}ms`
+            : testCaseDeadline === suiteDeadline
+              ? `Suite timeout of ${suiteTimeout}ms exceeded`
+              : `Test case timeout of ${testCaseTimeout}ms exceeded`;
+        if (timeout <= 0) {
+          throw new TimeoutError(limitedBy);
+        }
+
+        // Playwright 操作自动等待元素可操作，等待上限与步骤超时一致
+        if (Number.isFinite(timeout)) {
+          page.setDefaultTimeout(timeout);
+        }
+        // 步骤可能离开当前文档，执行前记录当前文档的性能指标
+        await this.recordPagePerformance(page, testCase.id, limits);
+        const switchedPage = await withTimeout(
+          this.executeStep(
+            page,
+            extendedStep,
+            Number.isFinite(timeout) ? timeout : undefined,
+            {
+              visualSnapshot: async (snapshotPage, snapshot) => {
+                const result = await this.visualSnapshots.check(snapshotPage, {
+                  ...snapshot,
+                  suiteId: testSuite.id,
+                  outputDir: path.join(this.storageDir, 'visual', limits.resultId, artifactPrefix),
+                });
+                limits.visualSnapshots.push({ ...result, testCaseId: testCase.id, attempt });
+                return result;
+              },
+            },
+            variables
+          ),
+          timeout,
+          limitedBy
+        );
+        if (switchedPage) {
+          session.setPage(switchedPage);
+        }
+
+        // 如果需要截图，则捕获当前步骤的截图
+        if (extendedStep.screenshot) {
+          const screenshotPath = path.join(
+            this.storageDir,
+            'screenshots',
+            `${artifactPrefix}_${step.id}.png`
+          );
+          await (switchedPage ?? page).screenshot({ path: screenshotPath });
+          screenshots.push(screenshotPath);
+        }
+      }
+    } catch (error) {
+      // 超时与断言失败分开统计，便于区分卡住与功能错误
+      status = isTimeoutError(error) ? 'timedOut' : 'failed';
+      errors.push(error as Error);
+
+      // 测试失败时捕获截图
+      try {
+        const page = await session.getPage();
+        if (page) {
+          const screenshotPath = path.join(
+            this.storageDir,
+            'screenshots',
+            `${artifactPrefix}_failure.png`
+          );
+          await page.screenshot({ path: screenshotPath, timeout: FAILURE_SCREENSHOT_TIMEOUT });
+          screenshots.push(screenshotPath);
+        }
+      } catch (screenshotError) {
+        console.error('Error capturing failure screenshot:', screenshotError);
+      }
+
+      console.error(`Test ${status}: ${(error as Error).message}`);
+    }
+
+    await this.recordPagePerformance(await session.getPage(), testCase.id, limits);
+
+    let trace: string | undefined;
+    try {
+      if (tracedContext && this.shouldKeepArtifact(limits.trace, status)) {
+        trace = path.join(this.storageDir, 'traces', limits.resultId, `${artifactPrefix}.zip`);
+        await tracedContext.tracing.stop({ path: trace });
+      } else {
+        await tracedContext?.tracing.stop();
+      }
+    } catch (error) {
+      trace = undefined;
+      console.error(`Error saving trace for test case ${testCase.id}:`, error);
+    }
+
+    return {
+      attempt: {
+        attempt,
+        status,
+        startTime: startTime.toISOString(),
+        duration: Date.now() - startTime.getTime(),
+        // Error 对象无法序列化到报告中，保存错误信息
+        error: errors.length > 0 ? errors.map(error => error.message).join('; ') : undefined,
+        screenshots: screenshots.length > 0 ? screenshots : undefined,
+        trace,
+      },
+      errors,
+    };
+  }
+
+  /**
+   * 记录页面当前文档的性能指标，同一文档再次采集时以最新的指标为准
+   * @param page 页面
+   * @param testCaseId 当前测试用例ID，文档已被之前的用例记录时保留之前的ID
+   * @param limits 执行配置，包含已采集的性能指标
+   */
+  private async recordPagePerformance(
+    page: Page | null,
+    testCaseId: string,
+    limits: ExecutionLimits
+  ): Promise<void> {
+    if (!page || page.isClosed()) {
+      return;
+    }
+    try {
+      const performance = await withTimeout(
+        collectPagePerformance(page),
+        PERFORMANCE_COLLECT_TIMEOUT,
+        'Collecting performance metrics timed out'
+      );
+      if (performance) {
+        // 单页应用切换路由不会产生新文档，仍记为首次加载时的URL
+        const previous = limits.performance.get(performance.timeOrigin);
+        limits.performance.set(performance.timeOrigin, {
+          ...performance,
+          url: previous?.url ?? performance.url,
+          testCaseId: previous?.testCaseId ?? testCaseId,
+        });
+      }
+    } catch (error) {
+      // 页面正在跳转时无法执行脚本，跳过本次采集
+      console.error('Error collecting performance metrics:', (error as Error).message);
+    }
+  }
+
+  /**
+   * 获取测试用例某次执行的截图、跟踪与录像文件名前缀
+   * @param testCase 测试用例
+   * @param attempt 第几次重试，首次执行为0
+   */
+  private getArtifactPrefix(testCase: core.TestCase, attempt: number): string {
+    return attempt === 0 ? testCase.id : `${testCase.id}_retry${attempt}`;
+  }
+
+  /**
+   * 按录制方式判断是否保留本次执行的跟踪或录像
+   * @param mode 录制方式
+   * @param status 本次执行的状态
+   */
+  private shouldKeepArtifact(mode: ArtifactMode, status: TestAttemptResult['status']): boolean {
+    return mode === 'on' || (mode === 'retain-on-failure' && status !== 'passed');
+  }
+
+  /**
+   * 在页面中执行API请求步骤，共享页面的Cookie
+   * 与API测试一致，先替换 {{变量}} 引用，再按相同规则构造请求体、执行断言并提取变量
+   * @param page 当前页面
+   * @param step 测试步骤
+   * @param variables 测试用例的变量，提取的变量写入其中
+   */
+  private async executeRequestStep(
+    page: Page,
+    step: ExtendedTestCaseStep,
+    variables: Record<string, unknown>
+  ): Promise<void> {
+    if (!step.value) {
+      return;
+    }
+
+    try {
+      const requestData = interpolateVariables(JSON.parse(step.value) as ApiRequestData, variables);
+      const url = String(
+        interpolateVariables(step.target || step.selector || 'https://example.com', variables)
+      );
+
+      // FormData 不能传入页面，在页面中按表单字段构造
+      const requestStartTime = Date.now();
+      const response = await page.evaluate(
+        async ({ url, method, headers, body, formData }) => {
+          const form = new FormData();
+          Object.entries(formData || {}).forEach(([name, value]) => form.append(name, value));
+          const response = await fetch(url, { method, headers, body: formData ? form : body });
+
+          return {
+            status: response.status,
+            statusText: response.statusText,
+            headers: Object.fromEntries([...response.headers]),
+            body: await response.text(),
+          };
+        },
+        { url, method: requestData.method, ...buildFetchBody(requestData) }
+      );
+      const responseTime = Date.now() - requestStartTime;
+
+      let responseBody: unknown = response.body || null;
+      try {
+        responseBody = JSON.parse(response.body);
+      } catch (e) {
+        // 非JSON响应保留原始文本
+      }
+      const assertable = {
+        status: response.status,
+        headers: response.headers,
+        body: responseBody,
+        responseTime,
+      };
+
+      // 期望状态码、期望响应与断言统一执行
+      const failedAssertions = evaluateAssertions(
+        collectAssertions(
+          { ...step, assertions: interpolateVariables(step.assertions, variables) },
+          requestData
+        ),
+        assertable
+      ).filter(result => !result.passed);
+      if (failedAssertions.length > 0) {
+        throw new Error(failedAssertions.map(result => result.message).join('; '));
+      }
+
+      // 提取变量供后续步骤使用
+      const extraction = extractVariables(
+        [...(step.extract || []), ...(requestData.extract || [])],
+        assertable
+      );
+      Object.assign(variables, extraction.variables);
+      if (extraction.errors.length > 0) {
+        throw new Error(extraction.errors.join('; '));
+      }
+    } catch (error) {
+      throw new Error(`API request failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 执行单个测试步骤
+   * @param page 当前页面
+   * @param step 测试步骤
+   * @param timeout 等待与断言的超时（毫秒）
+   * @param hooks 步骤执行时的回调，如视觉快照对比
+   * @param variables 测试用例的变量，request 步骤引用并写入提取的变量
+   * @returns 步骤切换了页面时返回切换后的页面
+   */
+  private async executeStep(
+    page: Page,
+    step: ExtendedTestCaseStep,
+    timeout = DEFAULT_STEP_TIMEOUT,
+    hooks: Pick<UiStepContext, 'visualSnapshot'> = {},
+    variables: Record<string, unknown> = {}
+  ): Promise<Page | undefined> {
+    // 根据步骤类型执行不同的操作
+    switch (step.action) {
+      case 'request':
+        await this.executeRequestStep(page, step, variables);
+        break;
+
+      default:
+        // UI步骤由注册表执行，未注册的动作会使步骤失败
+        return executeUiStep(page, step, {
+          ...hooks,
+          timeout,
+          onAudit: result => this.playwrightService.recordA11yViolations(result.violations),
+        });
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取测试报告录制的HAR文件路径
+   * @param reportId 报告ID
+   * @returns HAR文件路径
+   */
+  getHarPath(reportId: string): string {
+    const harPath = this.testResults.get(reportId)?.harPath;
+    if (!harPath || !fs.existsSync(harPath)) {
+      throw new Error(`No HAR recorded for report: ${reportId}`);
+    }
+    return harPath;
+  }
+
+  /**
+   * 将测试报告中失败的视觉快照的新截图保存为基线
+   * @param reportId 报告ID
+   * @param names 只接受这些名称的快照，不传时接受全部失败的快照
+   * @returns 已更新的快照结果
+   */
+  acceptVisualBaselines(reportId: string, names?: string[]): VisualSnapshotResult[] {
+    const testResults = this.testResults.get(reportId);
+    if (!testResults) {
+      throw new Error(`Test report not found: ${reportId}`);
+    }
+
+    const snapshots = (testResults.visualSnapshots || []).filter(
+      snapshot => !names || names.includes(snapshot.name)
+    );
+    const accepted = this.visualSnapshots.acceptBaselines(snapshots);
+    if (accepted.length === 0) {
+      throw new Error(`No failed visual snapshots to accept in report: ${reportId}`);
+    }
+
+    // 在报告中记录基线已更新，避免重复接受
+    for (const snapshot of snapshots) {
+      if (accepted.some(result => result.actualPath === snapshot.actualPath)) {
+        snapshot.status = 'updated';
+      }
     }
+    this.saveTestResults(testResults);
+
+    return accepted;
+  }
+
+  /**
+   * 汇总同一测试套件多次执行中各页面的性能指标趋势
+   * 浏览器矩阵中的执行使用不同的浏览器与视口，不计入趋势
+   * @param testSuiteId 测试套件ID
+   * @param limit 最多包含最近几次执行
+   * @returns 每个页面的趋势，按执行时间从早到晚排列
+   */
+  getPerformanceTrend(testSuiteId: string, limit = 20): PerformanceTrend[] {
+    this.loadTestResults();
+
+    const runs = this.getPerformanceResults()
+      .filter(result => result.testSuiteId === testSuiteId)
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime))
+      .slice(-limit)
+      .map(result => ({
+        reportId: result.id,
+        startTime: result.startTime,
+        performance: result.performance || [],
+      }));
+    if (runs.length === 0) {
+      throw new Error(`No performance metrics recorded for test suite: ${testSuiteId}`);
+    }
+    return buildPerformanceTrend(runs);
+  }
+
+  /**
+   * 列出有性能指标记录的测试套件
+   * @returns 测试套件ID
+   */
+  listPerformanceSuites(): string[] {
+    this.loadTestResults();
+    return [...new Set(this.getPerformanceResults().map(result => result.testSuiteId))];
+  }
+
+  /**
+   * 获取记录了性能指标且不属于浏览器矩阵的测试结果
+   */
+  private getPerformanceResults(): TestResults[] {
+    return [...this.testResults.values()].filter(
+      result => !result.matrixId && result.performance?.length
+    );
+  }
+
+  /**
+   * 获取测试用例最后一次执行的跟踪文件或录像路径
+   * @param reportId 报告ID
+   * @param testCaseId 测试用例ID
+   * @param kind 跟踪文件或录像
+   * @returns 文件路径
+   */
+  getArtifactPath(reportId: string, testCaseId: string, kind: 'trace' | 'video'): string {
+    const testCase = this.testResults
+      .get(reportId)
+      ?.testCases.find(result => result.testCaseId === testCaseId);
+    const artifactPath = testCase?.[kind];
+    if (!artifactPath || !fs.existsSync(artifactPath)) {
+      throw new Error(`No ${kind} recorded for test case ${testCaseId} in report: ${reportId}`);
+    }
+    return artifactPath;
+  }
+
+  /**
+   * 列出存储目录中各测试报告录制的跟踪文件或录像
+   * @param kind 跟踪文件或录像
+   * @returns 报告ID、测试用例ID与文件路径，最新的报告在前
+   */
+  listArtifacts(
+    kind: 'trace' | 'video'
+  ): Array<{ reportId: string; testCaseId: string; path: string; timestamp: string }> {
+    this.loadTestResults();
+
+    return [...this.testResults.values()]
+      .sort((a, b) => b.startTime.localeCompare(a.startTime))
+      .flatMap(result =>
+        result.testCases.flatMap(testCase => {
+          const artifactPath = testCase[kind];
+          return artifactPath && fs.existsSync(artifactPath)
+            ? [
+                {
+                  reportId: result.id,
+                  testCaseId: testCase.testCaseId,
+                  path: artifactPath,
+                  timestamp: result.startTime,
+                },
+              ]
+            : [];
+        })
+      );
+  }
+
+  /**
+   * 将HAR文件路径或测试报告ID解析为HAR文件路径
+   * @param harPathOrReportId HAR文件路径或报告ID
+   */
+  private resolveHarPath(harPathOrReportId: string): string {
+    if (fs.existsSync(harPathOrReportId)) {
+      return harPathOrReportId;
+    }
+    return this.getHarPath(harPathOrReportId);
   }
 
   /**
@@ -325,7 +1164,7 @@ export class TestExecutionService {
    * @param reportId 报告ID
    * @returns 测试结果或错误报告
    */
-  async getReport(reportId: string): Promise<TestResults | ErrorReport> {
+  async getReport(reportId: string): Promise<TestResults | ErrorReport | MatrixReport> {
     // 先检查是否是测试结果
     const testResults = this.testResults.get(reportId);
     if (testResults) {
@@ -338,9 +1177,49 @@ export class TestExecutionService {
       return errorReport;
     }
 
+    // 检查是否是浏览器矩阵报告
+    const matrixReport = this.matrixReports.get(reportId);
+    if (matrixReport) {
+      return matrixReport;
+    }
+
     throw new Error(`Report not found: ${reportId}`);
   }
 
+  /**
+   * 列出存储目录中的测试报告与错误报告，最新的在前
+   * @returns 报告摘要数组
+   */
+  listReports(): TestReportSummary[] {
+    // 重新扫描存储目录，以包含其他进程写入的报告
+    this.loadTestResults();
+
+    const summaries: TestReportSummary[] = [
+      ...[...this.testResults.values()].map(result => ({
+        id: result.id,
+        type: 'result' as const,
+        testSuiteId: result.testSuiteId,
+        passed: result.passed,
+        timestamp: result.startTime,
+        harPath: result.harPath,
+      })),
+      ...[...this.errorReports.values()].map(report => ({
+        id: report.id,
+        type: 'error' as const,
+        timestamp: report.timestamp,
+      })),
+      ...[...this.matrixReports.values()].map(report => ({
+        id: report.id,
+        type: 'matrix' as const,
+        testSuiteId: report.testSuiteId,
+        passed: report.passed,
+        timestamp: report.startTime,
+      })),
+    ];
+
+    return summaries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
   /**
    * 生成错误报告
    * @returns 错误报告ID
@@ -401,6 +1280,11 @@ export class TestExecutionService {
           return backendError;
         });
 
+      // 无障碍审计在执行时已展开为每个失败元素一条记录
+      const accessibilityErrors: AccessibilityError[] = [
+        ...this.playwrightService.getA11yViolations(),
+      ];
+
       // 生成摘要
       let summary = `Error Report - ${new Date().toLocaleString()}\n`;
 
@@ -417,11 +1301,17 @@ export class TestExecutionService {
         summary += `${index + 1}. ${error.method} ${error.apiEndpoint} - ${error.status} ${error.statusText}\n`;
       });
 
+      summary += `\nAccessibility Errors: ${accessibilityErrors.length}\n`;
+      accessibilityErrors.forEach((error, index) => {
+        summary += `${index + 1}. [${error.rule}${error.impact ? `, ${error.impact}` : ''}] ${error.selector} - ${error.description}\n`;
+      });
+
       // 创建错误报告
       const errorReport: ErrorReport = {
         id: reportId,
         frontendErrors,
         backendErrors,
+        accessibilityErrors,
         summary,
         timestamp: new Date().toISOString(),
       };
@@ -455,6 +1345,15 @@ export class TestExecutionService {
     fs.writeFileSync(filePath, JSON.stringify(errorReport, null, 2));
   }
 
+  /**
+   * 保存浏览器矩阵报告
+   * @param matrixReport 矩阵报告
+   */
+  private saveMatrixReport(matrixReport: MatrixReport): void {
+    const filePath = path.join(this.storageDir, `matrix_${matrixReport.id}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(matrixReport, null, 2));
+  }
+
   /**
    * 加载所有测试结果
    */
@@ -473,6 +1372,11 @@ export class TestExecutionService {
           const fileContent = fs.readFileSync(filePath, 'utf-8');
           const errorReport = JSON.parse(fileContent) as ErrorReport;
           this.errorReports.set(errorReport.id, errorReport);
+        } else if (file.startsWith('matrix_') && file.endsWith('.json')) {
+          const filePath = path.join(this.storageDir, file);
+          const fileContent = fs.readFileSync(filePath, 'utf-8');
+          const matrixReport = JSON.parse(fileContent) as MatrixReport;
+          this.matrixReports.set(matrixReport.id, matrixReport);
         }
       }
     } catch (error) {
@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import * as core from '../types/core';
 import { projectConfig, testConfig } from '../utils/config';
+import { generatePlaywrightSpec, getSpecFileName } from '../utils/playwright-spec';
+import { describeUiSteps, getUiStepActions } from './ui-step-registry';
 
 export type TestType = 'ui' | 'api';
 
@@ -163,6 +165,75 @@ export class TestGeneratorService {
     }
   }
 
+  /**
+   * List all test suites stored in the storage directory
+   */
+  public listTestSuites(): core.TestSuite[] {
+    const testSuites: core.TestSuite[] = [];
+
+    for (const file of fs.readdirSync(this.storageDir)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const fileContent = fs.readFileSync(path.join(this.storageDir, file), 'utf-8');
+        const testSuite = JSON.parse(fileContent) as core.TestSuite;
+        if (testSuite.id && Array.isArray(testSuite.testCases)) {
+          testSuites.push(testSuite);
+        }
+      } catch (error) {
+        console.warn(`Error loading test suite file ${file}:`, error);
+      }
+    }
+
+    return testSuites;
+  }
+
+  /**
+   * Export test suites as runnable @playwright/test spec files
+   * @param outputDir Directory to write the spec files into
+   * @param options.testSuiteIds Suites to export, all stored suites when omitted
+   * @param options.baseUrl baseURL for the specs, defaults to API_URL for suites with API steps
+   * @returns Paths of the written spec files
+   */
+  public exportPlaywrightSpecs(
+    outputDir: string,
+    options: { testSuiteIds?: string[]; baseUrl?: string } = {}
+  ): string[] {
+    const testSuites = options.testSuiteIds
+      ? options.testSuiteIds.map(testSuiteId => {
+          const filePath = path.join(this.storageDir, `${testSuiteId}.json`);
+          if (!fs.existsSync(filePath)) {
+            throw new Error(`Test suite not found with ID: ${testSuiteId}`);
+          }
+          return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as core.TestSuite;
+        })
+      : this.listTestSuites();
+
+    this.ensureDirectoryExists(outputDir);
+
+    const usedFileNames = new Set<string>();
+    return testSuites.map(testSuite => {
+      const hasApiSteps = testSuite.testCases.some(testCase =>
+        testCase.steps.some(step => step.action === 'request')
+      );
+      const spec = generatePlaywrightSpec(testSuite, {
+        baseUrl: options.baseUrl || (hasApiSteps ? projectConfig.apiBaseUrl : undefined),
+      });
+
+      // Suites with the same name must not overwrite each other
+      let fileName = getSpecFileName(testSuite);
+      if (usedFileNames.has(fileName)) {
+        fileName = fileName.replace(/\.spec\.ts$/, `-${testSuite.id}.spec.ts`);
+      }
+      usedFileNames.add(fileName);
+
+      const filePath = path.join(outputDir, fileName);
+      fs.writeFileSync(filePath, spec);
+      return filePath;
+    });
+  }
+
   /**
    * Generate test cases using LLM (via MCP client if available, or fallback to direct API)
    */
@@ -190,7 +261,7 @@ export class TestGeneratorService {
         {
           "id": "step1",
           "description": "步骤描述",
-          "action": "click|type|navigate|assert|wait",
+          "action": "${getUiStepActions().join('|')}",
           "selector": "CSS或XPath选择器（如适用）",
           "value": "输入值（如适用）",
           "expectedResult": "此步骤的预期结果"
@@ -200,6 +271,9 @@ export class TestGeneratorService {
   ]
 }
 
+可用的action及字段要求如下，不要使用其他action：
+${describeUiSteps()}
+
 需求文档:
 ${requirementsText}
 
@@ -226,7 +300,15 @@ ${requirementsText}
           "headers": {"Content-Type": "application/json"},
           "body": "请求体（如适用）",
           "expectedStatus": 200,
-          "expectedResponse": "预期响应模式"
+          "expectedResponse": "预期响应模式",
+          "assertions": [
+            {"type": "jsonPath", "path": "$.data[0].id", "operator": "!=", "value": null},
+            {"type": "header", "path": "content-type", "operator": "contains", "value": "json"},
+            {"type": "responseTime", "operator": "<", "value": 1000}
+          ],
+          "extract": [
+            {"name": "userId", "type": "jsonPath", "path": "$.data[0].id"}
+          ]
         }
       ]
     }
@@ -237,6 +319,7 @@ ${requirementsText}
 ${requirementsText}
 ${apiSpec ? `\n\nAPI规范:\n${apiSpec}` : ''}
 
+步骤可以通过extract从响应中提取变量（type为jsonPath、header或regex），同一测试用例的后续步骤在endpoint、headers和body中用{{变量名}}引用。
 记得创建全面的测试用例，涵盖正向和负向场景。仅返回JSON格式，不要包含任何解释或markdown。
 `;
       }
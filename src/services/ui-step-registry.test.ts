@@ -0,0 +1,167 @@
+/**
+ * @file UI步骤注册表测试
+ */
+import { describe, it, expect, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { describeUiSteps, executeUiStep, getUiStepActions } from './ui-step-registry';
+
+function createPage(overrides: Record<string, unknown> = {}): Page {
+  return {
+    hover: vi.fn(),
+    press: vi.fn(),
+    keyboard: { press: vi.fn() },
+    title: vi.fn().mockResolvedValue('Dashboard - App'),
+    url: vi.fn().mockReturnValue('http://localhost/dashboard?tab=1'),
+    ...overrides,
+  } as unknown as Page;
+}
+
+const context = { timeout: 200 };
+
+describe('UI步骤注册表', () => {
+  it('提示词应包含所有已注册的动作', () => {
+    const description = describeUiSteps();
+
+    for (const action of getUiStepActions()) {
+      expect(description).toContain(`- ${action}: `);
+    }
+    expect(getUiStepActions()).toEqual(
+      expect.arrayContaining(['type', 'assert', 'wait', 'hover', 'press', 'upload', 'drag'])
+    );
+  });
+
+  it('未注册的动作应使步骤失败', async () => {
+    await expect(
+      executeUiStep(createPage(), { id: 's1', description: '', action: 'teleport' }, context)
+    ).rejects.toThrow('Unknown step action: teleport');
+  });
+
+  it('缺少必填字段时应使步骤失败', async () => {
+    await expect(
+      executeUiStep(createPage(), { id: 's1', description: '', action: 'hover' }, context)
+    ).rejects.toThrow('requires a selector');
+    await expect(
+      executeUiStep(createPage(), { id: 's1', description: '', action: 'assertTitle' }, context)
+    ).rejects.toThrow('requires a value');
+  });
+
+  it('应按定义执行交互步骤', async () => {
+    const page = createPage();
+
+    await executeUiStep(page, { id: 's1', description: '', action: 'hover', selector: '#menu' });
+    await executeUiStep(page, { id: 's2', description: '', action: 'press', value: 'Enter' });
+
+    expect(page.hover).toHaveBeenCalledWith('#menu');
+    expect(page.keyboard.press).toHaveBeenCalledWith('Enter');
+    expect(page.press).not.toHaveBeenCalled();
+  });
+
+  it('页面断言应支持包含与正则匹配', async () => {
+    const page = createPage();
+
+    await executeUiStep(
+      page,
+      { id: 's1', description: '', action: 'assertTitle', value: 'Dashboard' },
+      context
+    );
+    await executeUiStep(
+      page,
+      { id: 's2', description: '', action: 'assertURL', value: '/tab=\\d/' },
+      context
+    );
+    await expect(
+      executeUiStep(
+        page,
+        { id: 's3', description: '', action: 'assertTitle', value: 'Login' },
+        context
+      )
+    ).rejects.toThrow('Expected title to match "Login", got "Dashboard - App"');
+  });
+
+  it('switchPage应按序号、URL或标题切换页面，并等待弹窗打开', async () => {
+    const pages: Page[] = [];
+    const context = { pages: () => pages };
+    const main = createPage({ context: () => context, bringToFront: vi.fn() });
+    const popup = createPage({
+      url: vi.fn().mockReturnValue('https://sso.example.com/authorize?client=app'),
+      title: vi.fn().mockResolvedValue('Sign in'),
+      context: () => context,
+      bringToFront: vi.fn(),
+    });
+    pages.push(main);
+    setTimeout(() => pages.push(popup), 50);
+
+    const step = { id: 's1', description: '', action: 'switchPage' };
+    await expect(
+      executeUiStep(main, { ...step, value: 'url=sso.example.com' }, { timeout: 1000 })
+    ).resolves.toBe(popup);
+    expect(popup.bringToFront).toHaveBeenCalled();
+
+    await expect(executeUiStep(popup, { ...step, value: '0' }, { timeout: 200 })).resolves.toBe(
+      main
+    );
+    await expect(
+      executeUiStep(main, { ...step, value: 'title=/^Sign/' }, { timeout: 200 })
+    ).resolves.toBe(popup);
+    await expect(
+      executeUiStep(main, { ...step, value: 'Checkout' }, { timeout: 200 })
+    ).rejects.toThrow('No page matching "Checkout" among 2 open pages');
+  });
+
+  it('visualSnapshot应通过测试执行提供的回调对比基线，失败时抛出差异信息', async () => {
+    const page = createPage();
+    const step = {
+      id: 's1',
+      description: '',
+      action: 'visualSnapshot',
+      value: 'home',
+      mask: ['.clock'],
+    };
+    const visualSnapshot = vi.fn().mockResolvedValue({
+      status: 'failed',
+      message: 'Visual snapshot "home" differs by 12 pixels',
+    });
+
+    await expect(executeUiStep(page, step, { timeout: 200, visualSnapshot })).rejects.toThrow(
+      'differs by 12 pixels'
+    );
+    expect(visualSnapshot).toHaveBeenCalledWith(
+      page,
+      expect.objectContaining({
+        name: 'home',
+        mask: ['.clock'],
+      })
+    );
+    await expect(executeUiStep(page, step, context)).rejects.toThrow(
+      'can only run inside a test suite'
+    );
+  });
+
+  it('assertPerformance应在页面加载后检查性能预算', async () => {
+    const page = createPage({
+      waitForLoadState: vi.fn(),
+      evaluate: vi.fn().mockResolvedValue({
+        url: 'http://localhost/dashboard',
+        timeOrigin: 1700000000000,
+        navigation: { ttfb: 100, load: 900 },
+        lcp: 3200,
+        cls: 0,
+        longTasks: [],
+        resources: [],
+      }),
+    });
+    const step = { id: 's1', description: '', action: 'assertPerformance' };
+
+    await executeUiStep(page, { ...step, value: 'TTFB < 200ms, load < 1s' }, context);
+    expect(page.waitForLoadState).toHaveBeenCalledWith('load', { timeout: 200 });
+    await expect(executeUiStep(page, { ...step, value: 'LCP < 2500ms' }, context)).rejects.toThrow(
+      'LCP < 2500ms: actual 3200ms'
+    );
+  });
+
+  it('非切换页面的步骤不应返回页面', async () => {
+    await expect(
+      executeUiStep(createPage(), { id: 's1', description: '', action: 'hover', selector: '#a' })
+    ).resolves.toBeUndefined();
+  });
+});
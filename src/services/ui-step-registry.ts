@@ -0,0 +1,786 @@
+/**
+ * @file UI步骤注册表
+ * @description 集中定义UI测试步骤支持的动作，测试生成提示词、测试执行与 spec 导出共用同一份定义，
+ * 保证LLM生成的步骤一定能被执行
+ */
+
+import type { BrowserContext, Page } from 'playwright';
+import type * as core from '../types/core';
+import {
+  A11yAuditResult,
+  A11yImpact,
+  DEFAULT_A11Y_TAGS,
+  formatA11yViolations,
+  runA11yAudit,
+} from '../utils/a11y-audit';
+import {
+  collectPagePerformance,
+  evaluateBudgets,
+  parseBudgets,
+  performanceBudgetSpecLines,
+} from '../utils/performance-metrics';
+import type { VisualSnapshotOptions, VisualSnapshotResult } from './visual-snapshot-service';
+
+/**
+ * UI步骤，兼容 TestExecutionService 支持的扩展字段
+ */
+export type UiStep = core.TestCaseStep & {
+  target?: string;
+  customScript?: string;
+  screenshot?: boolean;
+  // visualSnapshot 步骤截图时遮盖的元素
+  mask?: string[];
+  // visualSnapshot 步骤的像素颜色差异阈值与允许的差异像素比例
+  threshold?: number;
+  maxDiffPixelRatio?: number;
+};
+
+/**
+ * 步骤执行上下文
+ */
+export interface UiStepContext {
+  // 等待与断言的超时（毫秒）
+  timeout: number;
+  // 无障碍审计完成后回调，用于汇总到错误报告
+  onAudit?(result: A11yAuditResult): void;
+  // 与所属测试套件的基线对比截图，由测试执行提供
+  visualSnapshot?(
+    page: Page,
+    options: Omit<VisualSnapshotOptions, 'suiteId' | 'outputDir'>
+  ): Promise<VisualSnapshotResult>;
+}
+
+/**
+ * 生成 spec 源码时使用的辅助函数，由调用方提供转义规则
+ */
+export interface StepSpecHelpers {
+  // 转义后的字符串表达式
+  str(value: string): string;
+  // 定位器表达式
+  locator(selector: string): string;
+}
+
+type FieldRequirement = 'required' | 'optional';
+
+/**
+ * UI步骤定义
+ */
+export interface UiStepDefinition {
+  action: string;
+  // 写入生成提示词的说明
+  description: string;
+  selector?: FieldRequirement;
+  value?: FieldRequirement;
+  // 切换页面的步骤返回切换后的页面，后续步骤在该页面上执行
+  execute(page: Page, step: UiStep, context: UiStepContext): Promise<Page | void>;
+  toSpec(step: UiStep, helpers: StepSpecHelpers): string[];
+}
+
+// 与 Playwright expect 的默认超时一致
+export const DEFAULT_STEP_TIMEOUT = 5000;
+const POLL_INTERVAL = 100;
+
+function selectorOf(step: UiStep): string {
+  return step.target || step.selector || '';
+}
+
+/**
+ * 解析 /pattern/flags 形式的正则，其他值返回null
+ */
+function parseRegExp(value: string): RegExp | null {
+  const match = /^\/(.+)\/([gimsuy]*)$/.exec(value);
+  return match ? new RegExp(match[1], match[2]) : null;
+}
+
+/**
+ * 判断实际值是否匹配期望值：正则形式按正则匹配，否则按包含匹配
+ */
+function matchesText(actual: string, expected: string): boolean {
+  const pattern = parseRegExp(expected);
+  return pattern ? pattern.test(actual) : actual.includes(expected);
+}
+
+/**
+ * 轮询直到条件满足，超时后抛出最后一次的失败信息
+ * @param check 返回失败信息，满足时返回null
+ * @param timeout 超时（毫秒）
+ */
+async function pollUntil(
+  check: () => string | null | Promise<string | null>,
+  timeout: number
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  let failure: string | null = null;
+
+  do {
+    try {
+      failure = await check();
+    } catch (error) {
+      failure = (error as Error).message;
+    }
+    if (failure === null) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  } while (Date.now() < deadline);
+
+  throw new Error(`${failure} (timeout ${timeout}ms)`);
+}
+
+/**
+ * 解析 attr=value 形式的属性断言，没有 = 时只要求属性存在
+ */
+function parseAttribute(value: string): { name: string; expected?: string } {
+  const index = value.indexOf('=');
+  return index === -1
+    ? { name: value.trim() }
+    : { name: value.slice(0, index).trim(), expected: value.slice(index + 1) };
+}
+
+/**
+ * 解析上传文件列表，支持JSON数组或逗号分隔的路径
+ */
+function parseFiles(value: string): string[] {
+  try {
+    const files = JSON.parse(value) as unknown;
+    if (Array.isArray(files)) {
+      return files.map(String);
+    }
+  } catch (error) {
+    // 不是JSON时按逗号分隔
+  }
+  return value
+    .split(',')
+    .map(file => file.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 按切换目标查找页面，不存在时返回undefined
+ * 目标为数字时按打开顺序（从0开始）匹配，url=/title= 前缀分别匹配URL与标题，其他值匹配URL或标题
+ */
+async function matchPage(pages: Page[], target: string): Promise<Page | undefined> {
+  if (/^\d+$/.test(target)) {
+    return pages[Number(target)];
+  }
+
+  const [, field, pattern] = /^(url|title)=(.*)$/s.exec(target) || [undefined, undefined, target];
+  for (const candidate of pages) {
+    if (field !== 'title' && matchesText(candidate.url(), pattern)) {
+      return candidate;
+    }
+    if (field !== 'url') {
+      // 正在关闭的页面无法获取标题
+      const title = await candidate.title().catch(() => '');
+      if (matchesText(title, pattern)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 在浏览器上下文中查找页面，等待弹窗等尚未打开的页面出现
+ * @param context 浏览器上下文
+ * @param target 序号、url=模式、title=模式，或同时匹配URL与标题的模式
+ * @param timeout 超时（毫秒）
+ * @returns 匹配的页面
+ */
+export async function findPage(
+  context: BrowserContext,
+  target: string,
+  timeout: number = DEFAULT_STEP_TIMEOUT
+): Promise<Page> {
+  let found: Page | undefined;
+  await pollUntil(async () => {
+    const pages = context.pages();
+    found = await matchPage(pages, target);
+    return found ? null : `No page matching "${target}" among ${pages.length} open pages`;
+  }, timeout);
+  return found as Page;
+}
+
+/**
+ * spec 中的文本匹配参数：正则形式转换为正则表达式
+ */
+function specTextArgument(value: string, helpers: StepSpecHelpers): string {
+  const pattern = /^\/(.+)\/([gimsuy]*)$/.exec(value);
+  return pattern
+    ? `new RegExp(${helpers.str(pattern[1])}, ${helpers.str(pattern[2])})`
+    : helpers.str(value);
+}
+
+/**
+ * spec 中按子串匹配的文本参数：转义为正则表达式，供 toHaveURL/toHaveTitle 等 web-first 断言重试
+ * 包含 {{变量}} 时变量的值在运行时才确定，生成运行时转义的表达式
+ */
+function specContainsArgument(value: string, helpers: StepSpecHelpers): string {
+  if (parseRegExp(value)) {
+    return specTextArgument(value, helpers);
+  }
+  const source = helpers.str(value);
+  return source.startsWith('`')
+    ? `new RegExp(${source}.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&'))`
+    : `new RegExp(${helpers.str(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))})`;
+}
+
+const definitions: UiStepDefinition[] = [
+  {
+    action: 'navigate',
+    description: '打开页面，selector或value为URL',
+    value: 'optional',
+    async execute(page, step) {
+      await page.goto(selectorOf(step) || step.value || '');
+    },
+    toSpec: (step, h) => [`await page.goto(${h.str(selectorOf(step) || step.value || '')});`],
+  },
+  {
+    action: 'click',
+    description: '点击元素',
+    selector: 'required',
+    async execute(page, step) {
+      await page.click(selectorOf(step));
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.click();`],
+  },
+  {
+    action: 'fill',
+    description: '清空输入框并填入value',
+    selector: 'required',
+    value: 'optional',
+    async execute(page, step) {
+      await page.fill(selectorOf(step), step.value || '');
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.fill(${h.str(step.value || '')});`],
+  },
+  {
+    action: 'type',
+    description: '同fill，在输入框中输入value',
+    selector: 'required',
+    value: 'optional',
+    async execute(page, step) {
+      await page.fill(selectorOf(step), step.value || '');
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.fill(${h.str(step.value || '')});`],
+  },
+  {
+    action: 'check',
+    description: '勾选复选框或单选框',
+    selector: 'required',
+    async execute(page, step) {
+      await page.check(selectorOf(step));
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.check();`],
+  },
+  {
+    action: 'uncheck',
+    description: '取消勾选复选框',
+    selector: 'required',
+    async execute(page, step) {
+      await page.uncheck(selectorOf(step));
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.uncheck();`],
+  },
+  {
+    action: 'select',
+    description: '在下拉框中选择value对应的选项',
+    selector: 'required',
+    value: 'required',
+    async execute(page, step) {
+      await page.selectOption(selectorOf(step), step.value || '');
+    },
+    toSpec: (step, h) => [
+      `await ${h.locator(selectorOf(step))}.selectOption(${h.str(step.value || '')});`,
+    ],
+  },
+  {
+    action: 'hover',
+    description: '鼠标悬停在元素上',
+    selector: 'required',
+    async execute(page, step) {
+      await page.hover(selectorOf(step));
+    },
+    toSpec: (step, h) => [`await ${h.locator(selectorOf(step))}.hover();`],
+  },
+  {
+    action: 'press',
+    description: '按下value中的按键（如Enter、Control+A），有selector时在该元素上按键',
+    selector: 'optional',
+    value: 'required',
+    async execute(page, step) {
+      const selector = selectorOf(step);
+      if (selector) {
+        await page.press(selector, step.value || '');
+      } else {
+        await page.keyboard.press(step.value || '');
+      }
+    },
+    toSpec: (step, h) => [
+      selectorOf(step)
+        ? `await ${h.locator(selectorOf(step))}.press(${h.str(step.value || '')});`
+        : `await page.keyboard.press(${h.str(step.value || '')});`,
+    ],
+  },
+  {
+    action: 'upload',
+    description: '向文件输入框上传文件，value为文件路径，多个文件用逗号分隔或使用JSON数组',
+    selector: 'required',
+    value: 'required',
+    async execute(page, step) {
+      await page.setInputFiles(selectorOf(step), parseFiles(step.value || ''));
+    },
+    toSpec: (step, h) => {
+      const files = parseFiles(step.value || '').map(file => h.str(file));
+      return [`await ${h.locator(selectorOf(step))}.setInputFiles([${files.join(', ')}]);`];
+    },
+  },
+  {
+    action: 'drag',
+    description: '将selector元素拖放到value选择器对应的元素上',
+    selector: 'required',
+    value: 'required',
+    async execute(page, step) {
+      await page.dragAndDrop(selectorOf(step), step.value || '');
+    },
+    toSpec: (step, h) => [
+      `await ${h.locator(selectorOf(step))}.dragTo(${h.locator(step.value || '')});`,
+    ],
+  },
+  {
+    action: 'scroll',
+    description: '有selector时将元素滚动到可见区域，否则按value滚动页面（像素数、top或bottom）',
+    selector: 'optional',
+    value: 'optional',
+    async execute(page, step) {
+      const selector = selectorOf(step);
+      if (selector) {
+        await page.locator(selector).scrollIntoViewIfNeeded();
+      } else if (step.value === 'top' || step.value === 'bottom') {
+        const toBottom = step.value === 'bottom';
+        await page.evaluate(
+          bottom => window.scrollTo(0, bottom ? document.body.scrollHeight : 0),
+          toBottom
+        );
+      } else {
+        await page.mouse.wheel(0, Number(step.value) || 0);
+      }
+    },
+    toSpec: (step, h) => {
+      if (selectorOf(step)) {
+        return [`await ${h.locator(selectorOf(step))}.scrollIntoViewIfNeeded();`];
+      }
+      if (step.value === 'top' || step.value === 'bottom') {
+        return [
+          step.value === 'bottom'
+            ? 'await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));'
+            : 'await page.evaluate(() => window.scrollTo(0, 0));',
+        ];
+      }
+      return [`await page.mouse.wheel(0, ${Number(step.value) || 0});`];
+    },
+  },
+  {
+    action: 'wait',
+    description: '有selector时等待元素可见，否则等待value毫秒',
+    selector: 'optional',
+    value: 'optional',
+    async execute(page, step, context) {
+      const selector = selectorOf(step);
+      if (selector) {
+        await page.locator(selector).waitFor({ state: 'visible', timeout: context.timeout });
+      } else {
+        await page.waitForTimeout(Number(step.value) || 0);
+      }
+    },
+    toSpec: (step, h) => [
+      selectorOf(step)
+        ? `await expect(${h.locator(selectorOf(step))}).toBeVisible();`
+        : `await page.waitForTimeout(${Number(step.value) || 0});`,
+    ],
+  },
+  {
+    action: 'waitForSelector',
+    description: '等待元素达到value指定的状态（visible、hidden、attached、detached，默认visible）',
+    selector: 'required',
+    value: 'optional',
+    async execute(page, step, context) {
+      const state = (step.value || 'visible') as 'visible' | 'hidden' | 'attached' | 'detached';
+      await page.locator(selectorOf(step)).waitFor({ state, timeout: context.timeout });
+    },
+    toSpec: (step, h) => [
+      `await ${h.locator(selectorOf(step))}.waitFor({ state: ${h.str(step.value || 'visible')} });`,
+    ],
+  },
+  {
+    action: 'waitForURL',
+    description: '等待页面URL匹配value（完整URL、glob通配符或/正则/）',
+    value: 'required',
+    async execute(page, step, context) {
+      const value = step.value || '';
+      await page.waitForURL(parseRegExp(value) || value, { timeout: context.timeout });
+    },
+    toSpec: (step, h) => [`await page.waitForURL(${specTextArgument(step.value || '', h)});`],
+  },
+  {
+    action: 'waitForNetworkIdle',
+    description: '等待页面网络空闲',
+    async execute(page, _step, context) {
+      await page.waitForLoadState('networkidle', { timeout: context.timeout });
+    },
+    toSpec: () => [`await page.waitForLoadState('networkidle');`],
+  },
+  {
+    action: 'assert',
+    description: '断言元素可见，有value时断言元素文本包含value',
+    selector: 'required',
+    value: 'optional',
+    async execute(page, step, context) {
+      if (step.value) {
+        await assertText(page, step, context);
+      } else {
+        await assertVisible(page, step, context);
+      }
+    },
+    toSpec: (step, h) => [
+      step.value
+        ? `await expect(${h.locator(selectorOf(step))}).toContainText(${specTextArgument(step.value, h)});`
+        : `await expect(${h.locator(selectorOf(step))}).toBeVisible();`,
+    ],
+  },
+  {
+    action: 'assertVisible',
+    description: '断言元素可见',
+    selector: 'required',
+    execute: (page, step, context) => assertVisible(page, step, context),
+    toSpec: (step, h) => [`await expect(${h.locator(selectorOf(step))}).toBeVisible();`],
+  },
+  {
+    action: 'assertHidden',
+    description: '断言元素不可见或不存在',
+    selector: 'required',
+    async execute(page, step, context) {
+      try {
+        await page.locator(selectorOf(step)).waitFor({ state: 'hidden', timeout: context.timeout });
+      } catch (error) {
+        throw new Error(`Expected ${selectorOf(step)} to be hidden (timeout ${context.timeout}ms)`);
+      }
+    },
+    toSpec: (step, h) => [`await expect(${h.locator(selectorOf(step))}).toBeHidden();`],
+  },
+  {
+    action: 'assertText',
+    description: '断言元素文本包含value（/正则/形式按正则匹配）',
+    selector: 'required',
+    value: 'required',
+    execute: (page, step, context) => assertText(page, step, context),
+    toSpec: (step, h) => [
+      `await expect(${h.locator(selectorOf(step))}).toContainText(${specTextArgument(step.value || '', h)});`,
+    ],
+  },
+  {
+    action: 'assertAttribute',
+    description: '断言元素属性，value为 name=期望值（期望值支持/正则/），只写name时断言属性存在',
+    selector: 'required',
+    value: 'required',
+    async execute(page, step, context) {
+      const selector = selectorOf(step);
+      const { name, expected } = parseAttribute(step.value || '');
+      await pollUntil(async () => {
+        const actual = await page.locator(selector).first().getAttribute(name, { timeout: 1000 });
+        if (actual === null) {
+          return `Expected ${selector} to have attribute "${name}"`;
+        }
+        if (expected !== undefined && !matchesText(actual, expected)) {
+          return `Expected attribute "${name}" of ${selector} to match "${expected}", got "${actual}"`;
+        }
+        return null;
+      }, context.timeout);
+    },
+    toSpec: (step, h) => {
+      const { name, expected } = parseAttribute(step.value || '');
+      return [
+        `await expect(${h.locator(selectorOf(step))}).toHaveAttribute(${h.str(name)}${
+          expected !== undefined ? `, ${specTextArgument(expected, h)}` : ''
+        });`,
+      ];
+    },
+  },
+  {
+    action: 'assertURL',
+    description: '断言页面URL包含value（/正则/形式按正则匹配）',
+    value: 'required',
+    async execute(page, step, context) {
+      const expected = step.value || '';
+      await pollUntil(() => {
+        const actual = page.url();
+        return matchesText(actual, expected)
+          ? null
+          : `Expected URL to match "${expected}", got "${actual}"`;
+      }, context.timeout);
+    },
+    toSpec: (step, h) => [
+      `await expect(page).toHaveURL(${specContainsArgument(step.value || '', h)});`,
+    ],
+  },
+  {
+    action: 'assertTitle',
+    description: '断言页面标题包含value（/正则/形式按正则匹配）',
+    value: 'required',
+    async execute(page, step, context) {
+      const expected = step.value || '';
+      await pollUntil(async () => {
+        const actual = await page.title();
+        return matchesText(actual, expected)
+          ? null
+          : `Expected title to match "${expected}", got "${actual}"`;
+      }, context.timeout);
+    },
+    toSpec: (step, h) => [
+      `await expect(page).toHaveTitle(${specContainsArgument(step.value || '', h)});`,
+    ],
+  },
+  {
+    action: 'switchPage',
+    description:
+      '切换到其他页面（弹窗、新标签页），value为页面序号（从0开始）、url=URL模式、title=标题模式，或同时匹配URL与标题的文本，等待页面打开',
+    value: 'required',
+    async execute(page, step, context) {
+      const target = await findPage(page.context(), step.value || '', context.timeout);
+      await target.bringToFront();
+      return target;
+    },
+    // 等待匹配的页面出现后重新绑定 page，后续步骤在新页面上执行
+    toSpec: (step, h) => {
+      const target = step.value || '';
+      if (/^\d+$/.test(target)) {
+        return [
+          `await expect.poll(() => page.context().pages().length).toBeGreaterThan(${Number(target)});`,
+          `page = page.context().pages()[${Number(target)}];`,
+          'await page.bringToFront();',
+        ];
+      }
+
+      const [, field, pattern] = /^(url|title)=(.*)$/s.exec(target) || [
+        undefined,
+        undefined,
+        target,
+      ];
+      const matches = (actual: string) =>
+        parseRegExp(pattern)
+          ? `${specTextArgument(pattern, h)}.test(${actual})`
+          : `${actual}.includes(${h.str(pattern)})`;
+      const conditions = [
+        field !== 'title' ? matches('candidate.url()') : '',
+        field !== 'url' ? matches("(await candidate.title().catch(() => ''))") : '',
+      ].filter(Boolean);
+      return [
+        'let switched = page;',
+        'await expect',
+        '  .poll(async () => {',
+        '    for (const candidate of page.context().pages()) {',
+        `      if (${conditions.join(' || ')}) {`,
+        '        switched = candidate;',
+        '        return true;',
+        '      }',
+        '    }',
+        '    return false;',
+        `  }, { message: ${h.str(`No page matching "${target}"`)} })`,
+        '  .toBe(true);',
+        'page = switched;',
+        'await page.bringToFront();',
+      ];
+    },
+  },
+  {
+    action: 'audit',
+    description:
+      '对页面执行无障碍审计（标签缺失、对比度、地标结构、焦点顺序等WCAG规则），有违规时失败；有selector时只检查该元素，value为触发失败的最低影响级别（minor、moderate、serious、critical）',
+    selector: 'optional',
+    value: 'optional',
+    async execute(page, step, context) {
+      const result = await runA11yAudit(page, {
+        selector: selectorOf(step) || undefined,
+        minImpact: (step.value || undefined) as A11yImpact | undefined,
+      });
+      context.onAudit?.(result);
+      if (result.violations.length > 0) {
+        throw new Error(
+          `Accessibility audit found ${result.violations.length} violations:\n${formatA11yViolations(result.violations)}`
+        );
+      }
+    },
+    toSpec: (step, h) => {
+      const include = selectorOf(step) ? `.include(${h.str(selectorOf(step))})` : '';
+      const tags = DEFAULT_A11Y_TAGS.map(tag => h.str(tag)).join(', ');
+      return [
+        '// 需要安装 @axe-core/playwright',
+        "const { default: AxeBuilder } = await import('@axe-core/playwright');",
+        `const a11y = await new AxeBuilder({ page })${include}.withTags([${tags}]).analyze();`,
+        ...(step.value
+          ? [
+              `const impacts = ['minor', 'moderate', 'serious', 'critical'];`,
+              `expect(a11y.violations.filter(v => impacts.indexOf(v.impact ?? 'minor') >= impacts.indexOf(${h.str(step.value)}))).toEqual([]);`,
+            ]
+          : ['expect(a11y.violations).toEqual([]);']),
+      ];
+    },
+  },
+  {
+    action: 'visualSnapshot',
+    description:
+      '截图并与该套件在当前浏览器和视口下名为value的基线逐像素对比，超出阈值时失败，没有基线时保存为基线；有selector时只截取该元素，mask字段为要遮盖的动态元素选择器数组',
+    selector: 'optional',
+    value: 'required',
+    async execute(page, step, context) {
+      if (!context.visualSnapshot) {
+        throw new Error('Step action "visualSnapshot" can only run inside a test suite');
+      }
+      const result = await context.visualSnapshot(page, {
+        name: step.value || '',
+        selector: selectorOf(step) || undefined,
+        mask: step.mask,
+        threshold: step.threshold,
+        maxDiffPixelRatio: step.maxDiffPixelRatio,
+      });
+      if (result.status === 'failed') {
+        throw new Error(result.message);
+      }
+    },
+    toSpec: (step, h) => {
+      const options = [
+        step.mask?.length
+          ? `mask: [${step.mask.map(selector => h.locator(selector)).join(', ')}]`
+          : '',
+        step.threshold !== undefined ? `threshold: ${step.threshold}` : '',
+        step.maxDiffPixelRatio !== undefined ? `maxDiffPixelRatio: ${step.maxDiffPixelRatio}` : '',
+      ].filter(Boolean);
+      return [
+        `await expect(${selectorOf(step) ? h.locator(selectorOf(step)) : 'page'}).toHaveScreenshot(${h.str(
+          `${step.value || ''}.png`
+        )}${options.length > 0 ? `, { ${options.join(', ')} }` : ''});`,
+      ];
+    },
+  },
+  {
+    action: 'assertPerformance',
+    description:
+      '等待页面加载完成后检查当前页面的性能预算，value为以逗号分隔的预算，如"LCP < 2500ms, CLS < 0.1, totalJS < 500KB"；可用指标：LCP、FCP、CLS、INP、TTFB、DCL、load、TBT、longTasks、requests、totalBytes、totalJS、totalCSS、totalImage、totalFont',
+    value: 'required',
+    async execute(page, step, context) {
+      const budgets = parseBudgets(step.value || '');
+      await page.waitForLoadState('load', { timeout: context.timeout });
+      const performance = await collectPagePerformance(page);
+      if (!performance) {
+        throw new Error(`Performance metrics are not available for ${page.url()}`);
+      }
+      const failed = evaluateBudgets(performance, budgets).filter(result => !result.passed);
+      if (failed.length > 0) {
+        throw new Error(
+          `Performance budget exceeded on ${performance.url}:\n${failed.map(result => result.message).join('\n')}`
+        );
+      }
+    },
+    toSpec: (step, h) =>
+      performanceBudgetSpecLines(parseBudgets(step.value || ''), value => h.str(value)),
+  },
+  {
+    action: 'custom',
+    description: '在页面中执行value中的JavaScript表达式，结果为假值时失败',
+    value: 'required',
+    async execute(page, step) {
+      const script = step.customScript || step.value || '';
+      const result = await page.evaluate(script);
+      if (!result) {
+        throw new Error(`Custom assertion failed: ${script}`);
+      }
+    },
+    toSpec: (step, h) => [
+      `expect(await page.evaluate(${h.str(step.customScript || step.value || '')})).toBeTruthy();`,
+    ],
+  },
+];
+
+async function assertVisible(page: Page, step: UiStep, context: UiStepContext): Promise<void> {
+  try {
+    await page
+      .locator(selectorOf(step))
+      .first()
+      .waitFor({ state: 'visible', timeout: context.timeout });
+  } catch (error) {
+    throw new Error(`Expected ${selectorOf(step)} to be visible (timeout ${context.timeout}ms)`);
+  }
+}
+
+async function assertText(page: Page, step: UiStep, context: UiStepContext): Promise<void> {
+  const selector = selectorOf(step);
+  const expected = step.value || '';
+  await pollUntil(async () => {
+    const actual = await page.locator(selector).first().innerText({ timeout: 1000 });
+    return matchesText(actual, expected)
+      ? null
+      : `Expected text of ${selector} to match "${expected}", got "${actual}"`;
+  }, context.timeout);
+}
+
+const registry = new Map(definitions.map(definition => [definition.action, definition]));
+
+/**
+ * 获取步骤定义
+ * @param action 步骤动作
+ * @returns 步骤定义，未注册时返回undefined
+ */
+export function getUiStepDefinition(action: string): UiStepDefinition | undefined {
+  return registry.get(action);
+}
+
+/**
+ * 获取所有已注册的UI步骤动作
+ */
+export function getUiStepActions(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * 生成写入提示词的步骤说明，每个动作一行
+ */
+export function describeUiSteps(): string {
+  return definitions
+    .map(definition => {
+      const fields = [
+        definition.selector && `selector${definition.selector === 'required' ? '必填' : '可选'}`,
+        definition.value && `value${definition.value === 'required' ? '必填' : '可选'}`,
+      ].filter(Boolean);
+      return `- ${definition.action}: ${definition.description}${
+        fields.length > 0 ? `（${fields.join('，')}）` : ''
+      }`;
+    })
+    .join('\n');
+}
+
+/**
+ * 执行UI步骤
+ * @param page 当前页面
+ * @param step 测试步骤
+ * @param context 执行上下文
+ * @returns 步骤切换了页面时返回切换后的页面
+ * @throws 动作未注册或缺少必填字段时抛出错误
+ */
+export async function executeUiStep(
+  page: Page,
+  step: UiStep,
+  context: UiStepContext = { timeout: DEFAULT_STEP_TIMEOUT }
+): Promise<Page | undefined> {
+  const definition = registry.get(step.action);
+  if (!definition) {
+    throw new Error(`Unknown step action: ${step.action}`);
+  }
+  if (definition.selector === 'required' && !selectorOf(step)) {
+    throw new Error(`Step action "${step.action}" requires a selector`);
+  }
+  if (definition.value === 'required' && !step.value && !step.customScript) {
+    throw new Error(`Step action "${step.action}" requires a value`);
+  }
+
+  return (await definition.execute(page, step, context)) || undefined;
+}
@@ -0,0 +1,164 @@
+/**
+ * @file 视觉快照服务
+ * @description 按测试套件、浏览器与视口保存命名的基线截图，逐像素比较新截图并生成差异图
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { compareImages } from '../utils/visual-diff';
+import { testConfig } from '../utils/config';
+
+/**
+ * 视觉快照选项
+ */
+export interface VisualSnapshotOptions {
+  // 快照名称，同一套件、浏览器与视口下唯一
+  name: string;
+  // 基线所属的范围，测试执行时为套件ID
+  suiteId: string;
+  // 只截取该元素，不传时截取页面
+  selector?: string;
+  // 截图时遮盖的元素，避免时间、广告等动态内容造成误报
+  mask?: string[];
+  // 单个像素的颜色差异阈值，0-1，默认 VISUAL_THRESHOLD
+  threshold?: number;
+  // 允许的差异像素比例，0-1，默认 VISUAL_MAX_DIFF_RATIO
+  maxDiffPixelRatio?: number;
+  fullPage?: boolean;
+  // 新截图与差异图的保存目录
+  outputDir: string;
+  // 直接用新截图覆盖基线
+  update?: boolean;
+}
+
+/**
+ * 视觉快照结果
+ * - passed: 与基线一致
+ * - failed: 超出允许的差异
+ * - created: 没有基线，已将新截图保存为基线
+ * - updated: 已用新截图覆盖基线
+ */
+export interface VisualSnapshotResult {
+  name: string;
+  suiteId: string;
+  browser: string;
+  // 视口尺寸，如 1280x720
+  viewport: string;
+  status: 'passed' | 'failed' | 'created' | 'updated';
+  baselinePath: string;
+  actualPath?: string;
+  diffPath?: string;
+  diffPixels?: number;
+  diffRatio?: number;
+  message?: string;
+  // 测试执行中的快照所属的测试用例与重试次数
+  testCaseId?: string;
+  attempt?: number;
+}
+
+export class VisualSnapshotService {
+  private baselineDir: string;
+
+  constructor(baselineDir?: string) {
+    this.baselineDir = baselineDir || path.join(process.cwd(), 'visual-baselines');
+  }
+
+  /**
+   * 截取页面并与基线对比，没有基线时保存为基线
+   * @param page 页面
+   * @param options 快照选项
+   * @returns 快照结果，失败时包含新截图与差异图路径
+   */
+  async check(page: Page, options: VisualSnapshotOptions): Promise<VisualSnapshotResult> {
+    const browser = page.context().browser()?.browserType().name() ?? 'unknown';
+    const viewportSize = page.viewportSize();
+    const viewport = viewportSize ? `${viewportSize.width}x${viewportSize.height}` : 'default';
+    const fileName = `${this.toFileName(options.name)}.png`;
+    const baselinePath = path.join(
+      this.baselineDir,
+      this.toFileName(options.suiteId),
+      `${browser}-${viewport}`,
+      fileName
+    );
+
+    // 关闭动画并隐藏光标，保证同一页面的多次截图一致
+    const screenshotOptions = {
+      mask: (options.mask || []).map(selector => page.locator(selector)),
+      animations: 'disabled' as const,
+      caret: 'hide' as const,
+    };
+    const actual = options.selector
+      ? await page.locator(options.selector).first().screenshot(screenshotOptions)
+      : await page.screenshot({ ...screenshotOptions, fullPage: options.fullPage });
+
+    const result: VisualSnapshotResult = {
+      name: options.name,
+      suiteId: options.suiteId,
+      browser,
+      viewport,
+      status: 'passed',
+      baselinePath,
+    };
+
+    if (options.update || !fs.existsSync(baselinePath)) {
+      result.status = fs.existsSync(baselinePath) ? 'updated' : 'created';
+      fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+      fs.writeFileSync(baselinePath, actual);
+      return result;
+    }
+
+    const comparison = compareImages(actual, fs.readFileSync(baselinePath), {
+      threshold: options.threshold ?? testConfig.visualThreshold,
+      maxDiffPixelRatio: options.maxDiffPixelRatio ?? testConfig.visualMaxDiffRatio,
+    });
+    result.diffPixels = comparison.diffPixels;
+    result.diffRatio = comparison.diffRatio;
+    if (comparison.passed) {
+      return result;
+    }
+
+    result.status = 'failed';
+    fs.mkdirSync(options.outputDir, { recursive: true });
+    result.actualPath = path.join(options.outputDir, fileName.replace(/\.png$/, '-actual.png'));
+    fs.writeFileSync(result.actualPath, actual);
+    if (comparison.diffImage) {
+      result.diffPath = path.join(options.outputDir, fileName.replace(/\.png$/, '-diff.png'));
+      fs.writeFileSync(result.diffPath, comparison.diffImage);
+    }
+    result.message = comparison.sizeMismatch
+      ? `Visual snapshot "${options.name}" size changed to ${comparison.width}x${comparison.height}`
+      : `Visual snapshot "${options.name}" differs by ${comparison.diffPixels} pixels (${(
+          comparison.diffRatio * 100
+        ).toFixed(2)}%), see ${result.diffPath}`;
+
+    return result;
+  }
+
+  /**
+   * 将失败快照的新截图保存为基线
+   * @param results 快照结果，只处理失败且保留了新截图的结果
+   * @returns 已更新的快照结果
+   */
+  acceptBaselines(results: VisualSnapshotResult[]): VisualSnapshotResult[] {
+    return results
+      .filter(result => result.status === 'failed' && result.actualPath)
+      .map(result => {
+        const actualPath = result.actualPath as string;
+        if (!fs.existsSync(actualPath)) {
+          throw new Error(`Captured image not found for visual snapshot: ${result.name}`);
+        }
+        fs.mkdirSync(path.dirname(result.baselinePath), { recursive: true });
+        fs.copyFileSync(actualPath, result.baselinePath);
+        console.log(`Visual baseline "${result.name}" updated: ${result.baselinePath}`);
+        return { ...result, status: 'updated' as const };
+      });
+  }
+
+  /**
+   * 将名称转换为可用作文件名的形式
+   */
+  private toFileName(name: string): string {
+    return name.replace(/[^\w.-]+/g, '-').replace(/^\.+/, '') || 'snapshot';
+  }
+}
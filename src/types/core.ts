@@ -44,6 +44,24 @@ export interface TestSuite {
   description: string;
   testCases: TestCase[];
   createdAt: number;
+  // 从API规范生成时关联的规范ID，用于响应契约校验
+  apiSpecId?: string;
+  // 从Postman集合导入时使用的环境文件路径，执行时读取其中的变量
+  environmentPath?: string;
+  // 套件级超时配置
+  timeouts?: TestTimeouts;
+  // 测试用例失败后的重试次数
+  retries?: number;
+}
+
+// 超时配置（毫秒）
+export interface TestTimeouts {
+  // 单个步骤
+  step?: number;
+  // 单个测试用例
+  testCase?: number;
+  // 整个测试套件
+  suite?: number;
 }
 
 export interface TestCase {
@@ -51,6 +69,10 @@ export interface TestCase {
   name: string;
   description: string;
   steps: TestCaseStep[];
+  // 测试用例超时（毫秒），覆盖套件与全局配置
+  timeout?: number;
+  // 失败后的重试次数，覆盖套件与全局配置
+  retries?: number;
 }
 
 export interface TestCaseStep {
@@ -66,6 +88,10 @@ export interface TestCaseStep {
   expectedStatus?: number;
   expectedResult?: string;
   expectedResponse?: string;
+  assertions?: ApiAssertion[];
+  extract?: ApiVariableExtraction[];
+  // 步骤超时（毫秒），覆盖套件与全局配置
+  timeout?: number;
 }
 
 // API testing related types
@@ -95,6 +121,28 @@ export interface ApiAssertion {
   value: any;
 }
 
+export interface ApiAssertionResult {
+  type: ApiAssertion['type'];
+  path?: string;
+  operator: ApiAssertion['operator'];
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+  message: string;
+}
+
+// 从API响应中提取变量，供同一测试用例的后续步骤以 {{name}} 引用
+export interface ApiVariableExtraction {
+  name: string;
+  type: 'jsonPath' | 'header' | 'regex';
+  // jsonPath 为JSONPath表达式，header 为请求头名称
+  path?: string;
+  // regex 类型匹配的正则表达式，作用于响应体文本
+  pattern?: string;
+  // 取第几个捕获组，默认为1（无捕获组时取整个匹配）
+  group?: number;
+}
+
 // Test execution related types
 export interface TestExecutionOptions {
   testId: string;
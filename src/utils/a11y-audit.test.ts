@@ -0,0 +1,81 @@
+/**
+ * @file 无障碍审计工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { formatA11yViolations, meetsImpact, toA11yViolations } from './a11y-audit';
+
+type AxeViolations = Parameters<typeof toA11yViolations>[0];
+
+const violations = [
+  {
+    id: 'label',
+    impact: 'critical',
+    help: 'Form elements must have labels',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/label',
+    description: '',
+    tags: ['cat.forms', 'wcag2a', 'wcag412'],
+    nodes: [
+      {
+        target: ['#email'],
+        html: '<input id="email">',
+        impact: 'critical',
+        failureSummary: 'Fix any of the following',
+        any: [],
+        all: [],
+        none: [],
+      },
+      {
+        target: [['#frame', 'input.name']],
+        html: '<input class="name">',
+        impact: 'critical',
+        any: [],
+        all: [],
+        none: [],
+      },
+    ],
+  },
+  {
+    id: 'region',
+    impact: 'moderate',
+    help: 'All page content should be contained by landmarks',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/region',
+    description: '',
+    tags: ['cat.keyboard', 'best-practice'],
+    nodes: [{ target: ['footer'], html: '<footer>', impact: null, any: [], all: [], none: [] }],
+  },
+] as unknown as AxeViolations;
+
+describe('无障碍审计', () => {
+  it('应当将违规规则展开为每个失败元素一条记录', () => {
+    const result = toA11yViolations(violations, 'http://localhost/login');
+
+    expect(result).toHaveLength(3);
+    expect(result[0]).toMatchObject({
+      rule: 'label',
+      impact: 'critical',
+      selector: '#email',
+      wcag: ['wcag2a', 'wcag412'],
+      pageUrl: 'http://localhost/login',
+    });
+    expect(result[1].selector).toBe('#frame >>> input.name');
+    // 元素没有影响级别时使用规则的级别
+    expect(result[2]).toMatchObject({ rule: 'region', impact: 'moderate', wcag: [] });
+  });
+
+  it('应当按最低影响级别过滤', () => {
+    expect(meetsImpact('serious', 'moderate')).toBe(true);
+    expect(meetsImpact('minor', 'serious')).toBe(false);
+    expect(meetsImpact(undefined)).toBe(true);
+
+    const result = toA11yViolations(violations, 'http://localhost/login', 'serious');
+    expect(result.map(violation => violation.rule)).toEqual(['label', 'label']);
+  });
+
+  it('错误信息应包含规则、级别与选择器', () => {
+    const [violation] = toA11yViolations(violations, 'http://localhost/login');
+
+    expect(formatA11yViolations([violation])).toBe(
+      '[label, critical] #email: Form elements must have labels'
+    );
+  });
+});
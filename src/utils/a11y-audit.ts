@@ -0,0 +1,151 @@
+/**
+ * @file 无障碍审计工具
+ * @description 使用 axe-core 检查页面是否符合 WCAG 规则（标签缺失、对比度、地标结构、焦点顺序等），
+ * 将违规项展开为每个失败元素一条记录
+ */
+
+import AxeBuilder from '@axe-core/playwright';
+import type { Page } from 'playwright';
+
+type AxeResults = Awaited<ReturnType<AxeBuilder['analyze']>>;
+
+/**
+ * 违规的影响级别，从低到高
+ */
+export type A11yImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+const IMPACT_ORDER: A11yImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+/**
+ * 默认检查的规则标签：WCAG 2.1 A/AA，以及包含地标结构与焦点顺序规则的最佳实践
+ */
+export const DEFAULT_A11Y_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+
+/**
+ * 单个元素上的无障碍违规
+ */
+export interface A11yViolation {
+  // axe 规则ID，如 color-contrast、label、region
+  rule: string;
+  impact?: A11yImpact;
+  description: string;
+  helpUrl: string;
+  // 规则对应的 WCAG 标签，如 wcag2aa、wcag143
+  wcag: string[];
+  // 失败元素的选择器，iframe 或 shadow DOM 中的元素以 >>> 连接各层选择器
+  selector: string;
+  html: string;
+  failureSummary?: string;
+  pageUrl: string;
+  timestamp: string;
+}
+
+/**
+ * 审计选项
+ */
+export interface A11yAuditOptions {
+  // 只检查该元素及其子元素
+  selector?: string;
+  // 检查的规则标签，默认 DEFAULT_A11Y_TAGS
+  tags?: string[];
+  // 只报告不低于该级别的违规
+  minImpact?: A11yImpact;
+}
+
+/**
+ * 审计结果
+ */
+export interface A11yAuditResult {
+  pageUrl: string;
+  violations: A11yViolation[];
+  // 通过的规则数，便于确认审计确实执行
+  passes: number;
+  // 无法自动判断、需要人工检查的规则数
+  incomplete: number;
+  timestamp: string;
+}
+
+/**
+ * 判断影响级别是否不低于阈值，没有级别的违规视为最低级别
+ * @param impact 违规的影响级别
+ * @param minImpact 阈值
+ */
+export function meetsImpact(impact: string | null | undefined, minImpact?: A11yImpact): boolean {
+  if (!minImpact) {
+    return true;
+  }
+  const index = IMPACT_ORDER.indexOf(impact as A11yImpact);
+  return Math.max(index, 0) >= IMPACT_ORDER.indexOf(minImpact);
+}
+
+/**
+ * 将 axe 的违规规则展开为每个失败元素一条记录
+ * @param violations axe 结果中的违规规则
+ * @param pageUrl 页面URL
+ * @param minImpact 只保留不低于该级别的违规
+ * @returns 违规记录
+ */
+export function toA11yViolations(
+  violations: AxeResults['violations'],
+  pageUrl: string,
+  minImpact?: A11yImpact
+): A11yViolation[] {
+  const timestamp = new Date().toISOString();
+
+  return violations.flatMap(violation =>
+    violation.nodes
+      .filter(node => meetsImpact(node.impact ?? violation.impact, minImpact))
+      .map(node => ({
+        rule: violation.id,
+        impact: (node.impact ?? violation.impact ?? undefined) as A11yImpact | undefined,
+        description: violation.help,
+        helpUrl: violation.helpUrl,
+        wcag: violation.tags.filter(tag => tag.startsWith('wcag')),
+        selector: node.target
+          .map(target => (Array.isArray(target) ? target.join(' >>> ') : String(target)))
+          .join(' >>> '),
+        html: node.html,
+        failureSummary: node.failureSummary,
+        pageUrl,
+        timestamp,
+      }))
+  );
+}
+
+/**
+ * 将违规记录格式化为错误信息，每条一行
+ * @param violations 违规记录
+ */
+export function formatA11yViolations(violations: A11yViolation[]): string {
+  return violations
+    .map(
+      violation =>
+        `[${violation.rule}${violation.impact ? `, ${violation.impact}` : ''}] ${violation.selector}: ${violation.description}`
+    )
+    .join('\n');
+}
+
+/**
+ * 对页面执行无障碍审计
+ * @param page 页面
+ * @param options 审计选项
+ * @returns 审计结果
+ */
+export async function runA11yAudit(
+  page: Page,
+  options: A11yAuditOptions = {}
+): Promise<A11yAuditResult> {
+  let builder = new AxeBuilder({ page }).withTags(options.tags ?? DEFAULT_A11Y_TAGS);
+  if (options.selector) {
+    builder = builder.include(options.selector);
+  }
+
+  const results = await builder.analyze();
+  return {
+    pageUrl: page.url(),
+    violations: toA11yViolations(results.violations, page.url(), options.minImpact),
+    passes: results.passes.length,
+    incomplete: results.incomplete.length,
+    timestamp: new Date().toISOString(),
+  };
+}
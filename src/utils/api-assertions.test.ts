@@ -0,0 +1,64 @@
+/**
+ * @file API断言工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { compareValues, evaluateAssertion, evaluateAssertions } from './api-assertions';
+
+const response = {
+  status: 201,
+  headers: { 'Content-Type': 'application/json; charset=utf-8', 'X-Total': '3' },
+  body: { data: { id: 7, name: 'Alice', roles: ['admin', 'user'] } },
+  responseTime: 120,
+};
+
+describe('API断言', () => {
+  it('应当支持所有比较操作符', () => {
+    expect(compareValues(3, '=', '3')).toBe(true);
+    expect(compareValues({ a: [1] }, '=', { a: [1] })).toBe(true);
+    expect(compareValues(1, '!=', 2)).toBe(true);
+    expect(compareValues(undefined, '!=', null)).toBe(false);
+    expect(compareValues('10', '>', 9)).toBe(true);
+    expect(compareValues(undefined, '<', 9)).toBe(false);
+    expect(compareValues(5, '<=', 5)).toBe(true);
+    expect(compareValues({ a: 1, b: 2 }, 'contains', { a: 1 })).toBe(true);
+    expect(compareValues(['x', 'y'], 'contains', 'y')).toBe(true);
+    expect(compareValues('hello', 'startsWith', 'he')).toBe(true);
+    expect(compareValues('hello', 'endsWith', 'lo')).toBe(true);
+    expect(compareValues('ABC-123', 'matches', '/^abc-\\d+$/i')).toBe(true);
+  });
+
+  it('应当对状态码、请求头、响应体和响应时间断言', () => {
+    const results = evaluateAssertions(
+      [
+        { type: 'status', operator: '=', value: 201 },
+        { type: 'header', path: 'content-type', operator: 'contains', value: 'json' },
+        { type: 'header', path: 'x-total', operator: '>=', value: 3 },
+        { type: 'body', operator: 'contains', value: { data: { name: 'Alice' } } },
+        { type: 'jsonPath', path: '$.data.roles', operator: 'contains', value: 'admin' },
+        { type: 'responseTime', operator: '<', value: 500 },
+      ],
+      response
+    );
+
+    expect(results.every(result => result.passed)).toBe(true);
+  });
+
+  it('失败的断言应当报告期望值与实际值', () => {
+    const result = evaluateAssertion(
+      { type: 'jsonPath', path: '$.data.id', operator: '=', value: 8 },
+      response
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.expected).toBe(8);
+    expect(result.actual).toBe(7);
+    expect(result.message).toBe('Expected jsonPath($.data.id) = 8, got 7');
+  });
+
+  it('缺少路径的jsonPath断言应当失败', () => {
+    const result = evaluateAssertion({ type: 'jsonPath', operator: '=', value: 1 }, response);
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toContain('requires a path');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * @file API断言工具
+ * @description 根据core.ApiAssertion对API响应进行断言，返回包含期望值与实际值的结果
+ */
+
+import type { ApiAssertion, ApiAssertionResult } from '../types/core';
+import { getJsonPathValue } from './json-path';
+
+/**
+ * 断言所需的响应信息
+ */
+export interface AssertableResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  // 响应时间（毫秒）
+  responseTime: number;
+}
+
+/**
+ * 深度比较两个值是否相等
+ * 基本类型之间按字符串比较，以兼容请求头等字符串化的数值
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) {
+    return true;
+  }
+
+  if (
+    actual === null ||
+    expected === null ||
+    typeof actual !== 'object' ||
+    typeof expected !== 'object'
+  ) {
+    const isPrimitive = (value: unknown): boolean =>
+      ['string', 'number', 'boolean'].includes(typeof value);
+    return isPrimitive(actual) && isPrimitive(expected) && String(actual) === String(expected);
+  }
+
+  if (Array.isArray(actual) !== Array.isArray(expected)) {
+    return false;
+  }
+
+  const actualKeys = Object.keys(actual);
+  const expectedKeys = Object.keys(expected);
+  if (actualKeys.length !== expectedKeys.length) {
+    return false;
+  }
+
+  return expectedKeys.every(key =>
+    isEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * 判断expected是否为actual的子集（对象按属性递归，数组按元素包含）
+ */
+function isSubset(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return isEqual(actual, expected);
+  }
+
+  if (actual === null || typeof actual !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.every(expectedItem => actual.some(actualItem => isSubset(actualItem, expectedItem)))
+    );
+  }
+
+  return Object.entries(expected as Record<string, unknown>).every(([key, value]) =>
+    isSubset((actual as Record<string, unknown>)[key], value)
+  );
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return value === undefined ? '' : JSON.stringify(value);
+}
+
+/**
+ * 将字符串转换为正则表达式，支持 /pattern/flags 写法
+ */
+function toRegExp(pattern: unknown): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+
+  const source = String(pattern);
+  const literal = /^\/(.*)\/([gimsuy]*)$/.exec(source);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+}
+
+/**
+ * 使用指定操作符比较实际值与期望值
+ * @param actual 实际值
+ * @param operator 比较操作符
+ * @param expected 期望值
+ * @returns 是否匹配
+ */
+export function compareValues(
+  actual: unknown,
+  operator: ApiAssertion['operator'],
+  expected: unknown
+): boolean {
+  switch (operator) {
+    case '=':
+      return isEqual(actual, expected);
+    case '!=':
+      // 缺失的字段同样不满足 != null
+      if (expected === null && actual === undefined) {
+        return false;
+      }
+      return !isEqual(actual, expected);
+    case '>':
+    case '<':
+    case '>=':
+    case '<=': {
+      const actualNumber = Number(actual);
+      const expectedNumber = Number(expected);
+      if (
+        actual === null ||
+        actual === undefined ||
+        Number.isNaN(actualNumber) ||
+        Number.isNaN(expectedNumber)
+      ) {
+        return false;
+      }
+      if (operator === '>') return actualNumber > expectedNumber;
+      if (operator === '<') return actualNumber < expectedNumber;
+      if (operator === '>=') return actualNumber >= expectedNumber;
+      return actualNumber <= expectedNumber;
+    }
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(item => isSubset(item, expected));
+      }
+      if (actual !== null && typeof actual === 'object') {
+        return typeof expected === 'object'
+          ? isSubset(actual, expected)
+          : stringify(actual).includes(String(expected));
+      }
+      return actual !== undefined && stringify(actual).includes(stringify(expected));
+    case 'startsWith':
+      return actual !== undefined && stringify(actual).startsWith(stringify(expected));
+    case 'endsWith':
+      return actual !== undefined && stringify(actual).endsWith(stringify(expected));
+    case 'matches':
+      return actual !== undefined && toRegExp(expected).test(stringify(actual));
+    default:
+      return false;
+  }
+}
+
+/**
+ * 获取断言对应的实际值
+ */
+function resolveActual(assertion: ApiAssertion, response: AssertableResponse): unknown {
+  switch (assertion.type) {
+    case 'status':
+      return response.status;
+    case 'header': {
+      const headerName = (assertion.path || '').toLowerCase();
+      const entry = Object.entries(response.headers).find(
+        ([name]) => name.toLowerCase() === headerName
+      );
+      return entry?.[1];
+    }
+    case 'body':
+      return assertion.path ? getJsonPathValue(response.body, assertion.path) : response.body;
+    case 'jsonPath':
+      if (!assertion.path) {
+        throw new Error('jsonPath assertion requires a path');
+      }
+      return getJsonPathValue(response.body, assertion.path);
+    case 'responseTime':
+      return response.responseTime;
+    default:
+      throw new Error(`Unknown assertion type: ${String(assertion.type)}`);
+  }
+}
+
+/**
+ * 执行单个断言
+ * @param assertion 断言定义
+ * @param response 响应信息
+ * @returns 断言结果
+ */
+export function evaluateAssertion(
+  assertion: ApiAssertion,
+  response: AssertableResponse
+): ApiAssertionResult {
+  const target = assertion.path ? `${assertion.type}(${assertion.path})` : assertion.type;
+  let actual: unknown;
+  let passed: boolean;
+
+  try {
+    actual = resolveActual(assertion, response);
+    passed = compareValues(actual, assertion.operator, assertion.value);
+  } catch (error) {
+    return {
+      type: assertion.type,
+      path: assertion.path,
+      operator: assertion.operator,
+      expected: assertion.value,
+      actual: undefined,
+      passed: false,
+      message: `Assertion on ${target} could not be evaluated: ${(error as Error).message}`,
+    };
+  }
+
+  return {
+    type: assertion.type,
+    path: assertion.path,
+    operator: assertion.operator,
+    expected: assertion.value,
+    actual,
+    passed,
+    message: passed
+      ? `${target} ${assertion.operator} ${stringify(assertion.value)}`
+      : `Expected ${target} ${assertion.operator} ${stringify(assertion.value)}, got ${stringify(actual)}`,
+  };
+}
+
+/**
+ * 执行一组断言
+ * @param assertions 断言定义数组
+ * @param response 响应信息
+ * @returns 每个断言的结果
+ */
+export function evaluateAssertions(
+  assertions: ApiAssertion[],
+  response: AssertableResponse
+): ApiAssertionResult[] {
+  return assertions.map(assertion => evaluateAssertion(assertion, response));
+}
+
+export default {
+  compareValues,
+  evaluateAssertion,
+  evaluateAssertions,
+};
@@ -0,0 +1,72 @@
+/**
+ * @file API变量工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { extractVariables, interpolateVariables } from './api-variables';
+
+const response = {
+  status: 200,
+  headers: { 'X-Request-Id': 'req-1' },
+  body: { token: 'abc', order: { id: 42, note: 'ref=ORD-7' } },
+  responseTime: 10,
+};
+
+describe('API变量', () => {
+  it('应当替换字符串、对象和数组中的占位符', () => {
+    expect(
+      interpolateVariables(
+        {
+          url: '/orders/{{orderId}}?by={{ user }}',
+          headers: { Authorization: 'Bearer {{token}}' },
+          body: { id: '{{orderId}}', items: ['{{token}}'] },
+        },
+        { orderId: 42, token: 'abc', user: 'alice' }
+      )
+    ).toEqual({
+      url: '/orders/42?by=alice',
+      headers: { Authorization: 'Bearer abc' },
+      body: { id: 42, items: ['abc'] },
+    });
+  });
+
+  it('未定义的变量应当保持原样', () => {
+    expect(interpolateVariables('{{missing}}/{{a}}', { a: 1 })).toBe('{{missing}}/1');
+    expect(interpolateVariables(5, { a: 1 })).toBe(5);
+  });
+
+  it('应当通过JSONPath、请求头和正则提取变量', () => {
+    const result = extractVariables(
+      [
+        { name: 'token', type: 'jsonPath', path: '$.token' },
+        { name: 'orderId', type: 'jsonPath', path: '$.order.id' },
+        { name: 'requestId', type: 'header', path: 'x-request-id' },
+        { name: 'ref', type: 'regex', pattern: 'ref=([A-Z]+-\\d+)' },
+      ],
+      response
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.variables).toEqual({
+      token: 'abc',
+      orderId: 42,
+      requestId: 'req-1',
+      ref: 'ORD-7',
+    });
+  });
+
+  it('无法提取的变量应当返回错误', () => {
+    const result = extractVariables(
+      [
+        { name: 'missing', type: 'jsonPath', path: '$.nope' },
+        { name: 'bad', type: 'regex' },
+      ],
+      response
+    );
+
+    expect(result.variables).toEqual({});
+    expect(result.errors).toEqual([
+      'Failed to extract variable "missing": no match',
+      'Failed to extract variable "bad": regex extraction requires a pattern',
+    ]);
+  });
+});
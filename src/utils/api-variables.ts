@@ -0,0 +1,128 @@
+/**
+ * @file API变量工具
+ * @description 从API响应中提取变量，并将 {{name}} 占位符替换为变量值
+ */
+
+import type { ApiVariableExtraction } from '../types/core';
+import type { AssertableResponse } from './api-assertions';
+import { getJsonPathValue } from './json-path';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * 变量提取结果
+ */
+export interface VariableExtractionResult {
+  variables: Record<string, unknown>;
+  errors: string[];
+}
+
+/**
+ * 递归替换值中的 {{name}} 占位符
+ * 整个字符串仅为一个占位符时保留变量的原始类型（如数字ID），未定义的变量保持原样
+ * @param value 字符串、对象或数组
+ * @param variables 变量表
+ * @returns 替换后的新值
+ * @example
+ * interpolateVariables({ id: '{{orderId}}', url: '/orders/{{orderId}}' }, { orderId: 42 })
+ * // { id: 42, url: '/orders/42' }
+ */
+export function interpolateVariables<T>(value: T, variables: Record<string, unknown>): T {
+  if (typeof value === 'string') {
+    const single = SINGLE_PLACEHOLDER_PATTERN.exec(value);
+    if (single && single[1] in variables) {
+      return variables[single[1]] as T;
+    }
+
+    return value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      if (!(name in variables)) {
+        return match;
+      }
+      const variable = variables[name];
+      return typeof variable === 'string' ? variable : JSON.stringify(variable);
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateVariables(item as unknown, variables)) as T;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        interpolateVariables(item, variables),
+      ])
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * 执行单个变量提取
+ */
+function extractValue(extraction: ApiVariableExtraction, response: AssertableResponse): unknown {
+  switch (extraction.type) {
+    case 'jsonPath':
+      if (!extraction.path) {
+        throw new Error('jsonPath extraction requires a path');
+      }
+      return getJsonPathValue(response.body, extraction.path);
+    case 'header': {
+      const headerName = (extraction.path || '').toLowerCase();
+      return Object.entries(response.headers).find(
+        ([name]) => name.toLowerCase() === headerName
+      )?.[1];
+    }
+    case 'regex': {
+      if (!extraction.pattern) {
+        throw new Error('regex extraction requires a pattern');
+      }
+      const text =
+        typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? '');
+      const match = new RegExp(extraction.pattern).exec(text);
+      if (!match) {
+        return undefined;
+      }
+      return match[extraction.group ?? (match.length > 1 ? 1 : 0)];
+    }
+    default:
+      throw new Error(`Unknown extraction type: ${String(extraction.type)}`);
+  }
+}
+
+/**
+ * 从响应中提取变量
+ * @param extractions 提取规则
+ * @param response 响应信息
+ * @returns 提取到的变量，以及无法提取的变量的错误信息
+ */
+export function extractVariables(
+  extractions: ApiVariableExtraction[],
+  response: AssertableResponse
+): VariableExtractionResult {
+  const variables: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const extraction of extractions) {
+    try {
+      const value = extractValue(extraction, response);
+      if (value === undefined) {
+        errors.push(`Failed to extract variable "${extraction.name}": no match`);
+      } else {
+        variables[extraction.name] = value;
+      }
+    } catch (error) {
+      errors.push(`Failed to extract variable "${extraction.name}": ${(error as Error).message}`);
+    }
+  }
+
+  return { variables, errors };
+}
+
+export default {
+  interpolateVariables,
+  extractVariables,
+};
@@ -0,0 +1,58 @@
+/**
+ * @file 浏览器矩阵工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { compareMatrixResults, getMatrixCellName, getMatrixCellNames } from './browser-matrix';
+
+describe('浏览器矩阵', () => {
+  it('应根据浏览器、设备和视口生成组合名称', () => {
+    expect(getMatrixCellName({ browserType: 'webkit', device: 'iPhone 13' })).toBe(
+      'webkit / iPhone 13'
+    );
+    expect(
+      getMatrixCellName({ browserType: 'chromium', viewport: { width: 1280, height: 720 } })
+    ).toBe('chromium / 1280x720');
+    expect(getMatrixCellName({ name: 'Desktop', browserType: 'chromium' })).toBe('Desktop');
+    expect(getMatrixCellName({})).toBe('default');
+  });
+
+  it('重名的组合应追加序号', () => {
+    expect(
+      getMatrixCellNames([{ browserType: 'chromium' }, { browserType: 'chromium' }, {}])
+    ).toEqual(['chromium', 'chromium #2', 'default']);
+  });
+
+  it('应标记仅在部分组合下失败的用例', () => {
+    const comparisons = compareMatrixResults([
+      {
+        name: 'chromium',
+        testCases: [
+          { testCaseId: 'login', passed: true, status: 'passed' },
+          { testCaseId: 'menu', passed: false, status: 'failed' },
+        ],
+      },
+      {
+        name: 'webkit / iPhone 13',
+        testCases: [
+          { testCaseId: 'login', passed: false, status: 'timedOut' },
+          { testCaseId: 'menu', passed: false, status: 'failed' },
+        ],
+      },
+    ]);
+
+    expect(comparisons).toEqual([
+      {
+        testCaseId: 'login',
+        statuses: { chromium: 'passed', 'webkit / iPhone 13': 'timedOut' },
+        failedIn: ['webkit / iPhone 13'],
+        inconsistent: true,
+      },
+      {
+        testCaseId: 'menu',
+        statuses: { chromium: 'failed', 'webkit / iPhone 13': 'failed' },
+        failedIn: ['chromium', 'webkit / iPhone 13'],
+        inconsistent: false,
+      },
+    ]);
+  });
+});
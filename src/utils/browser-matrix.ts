@@ -0,0 +1,120 @@
+/**
+ * @file 浏览器矩阵工具
+ * @description 为矩阵中的浏览器/视口/设备组合命名，并对比各组合的测试结果
+ */
+
+/**
+ * 矩阵中的一个浏览器组合
+ */
+export interface BrowserMatrixCell {
+  // 报告中显示的名称，不设置时根据其他字段生成
+  name?: string;
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  // Playwright 内置设备名称，如 iPhone 13
+  device?: string;
+  viewport?: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * 参与对比的测试用例结果，与 TestCaseResult 结构兼容
+ */
+export interface MatrixCaseOutcome {
+  testCaseId: string;
+  passed: boolean;
+  status: string;
+}
+
+/**
+ * 测试用例在各组合下的结果
+ */
+export interface MatrixCaseComparison {
+  testCaseId: string;
+  // 按组合名称索引的用例状态，未执行的组合不包含在内
+  statuses: Record<string, string>;
+  // 未通过的组合
+  failedIn: string[];
+  // 仅在部分组合下失败
+  inconsistent: boolean;
+}
+
+/**
+ * 生成组合名称
+ * @param cell 浏览器组合
+ * @returns 名称，如 "webkit / iPhone 13"、"chromium / 1280x720"
+ */
+export function getMatrixCellName(cell: BrowserMatrixCell): string {
+  if (cell.name) {
+    return cell.name;
+  }
+
+  const parts = [
+    cell.browserType,
+    cell.device,
+    cell.viewport ? `${cell.viewport.width}x${cell.viewport.height}` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : 'default';
+}
+
+/**
+ * 为矩阵中的每个组合生成唯一名称，重名的组合追加序号
+ * @param matrix 浏览器矩阵
+ * @returns 与矩阵顺序一致的名称
+ */
+export function getMatrixCellNames(matrix: BrowserMatrixCell[]): string[] {
+  const counts = new Map<string, number>();
+
+  return matrix.map(cell => {
+    const name = getMatrixCellName(cell);
+    const count = (counts.get(name) || 0) + 1;
+    counts.set(name, count);
+    return count > 1 ? `${name} #${count}` : name;
+  });
+}
+
+/**
+ * 按测试用例对比各组合的结果
+ * @param cells 各组合名称及其测试用例结果
+ * @returns 按用例首次出现顺序排列的对比结果
+ */
+export function compareMatrixResults(
+  cells: Array<{ name: string; testCases: MatrixCaseOutcome[] }>
+): MatrixCaseComparison[] {
+  const comparisons = new Map<string, MatrixCaseComparison>();
+
+  for (const cell of cells) {
+    for (const testCase of cell.testCases) {
+      let comparison = comparisons.get(testCase.testCaseId);
+      if (!comparison) {
+        comparison = {
+          testCaseId: testCase.testCaseId,
+          statuses: {},
+          failedIn: [],
+          inconsistent: false,
+        };
+        comparisons.set(testCase.testCaseId, comparison);
+      }
+
+      comparison.statuses[cell.name] = testCase.status;
+      if (!testCase.passed) {
+        comparison.failedIn.push(cell.name);
+      }
+    }
+  }
+
+  for (const comparison of comparisons.values()) {
+    const executed = Object.keys(comparison.statuses).length;
+    comparison.inconsistent =
+      comparison.failedIn.length > 0 && comparison.failedIn.length < executed;
+  }
+
+  return [...comparisons.values()];
+}
+
+export default {
+  compareMatrixResults,
+  getMatrixCellName,
+  getMatrixCellNames,
+};
@@ -0,0 +1,35 @@
+/**
+ * @file 并发工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+describe('并发工具', () => {
+  it('并发数不应超过限制，结果顺序与输入一致', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('并发数小于1时应顺序执行', async () => {
+    const order: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3], 0, async item => {
+      order.push(item);
+      await Promise.resolve();
+    });
+
+    expect(order).toEqual([1, 2, 3]);
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
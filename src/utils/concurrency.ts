@@ -0,0 +1,39 @@
+/**
+ * @file 并发工具
+ * @description 以固定数量的工作者并发处理任务
+ */
+
+/**
+ * 以不超过指定数量的并发处理数组中的每一项
+ * 每个工作者完成一项后立即领取下一项，结果顺序与输入一致
+ * @param items 待处理项
+ * @param concurrency 最大并发数，小于1时按1处理
+ * @param worker 处理函数
+ * @returns 与输入顺序一致的结果
+ * @example
+ * await mapWithConcurrency(testCases, 4, testCase => runTestCase(testCase))
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const size = Math.min(Math.max(Math.floor(concurrency), 1), items.length);
+  await Promise.all(Array.from({ length: size }, runWorker));
+
+  return results;
+}
+
+export default {
+  mapWithConcurrency,
+};
@@ -109,6 +109,13 @@ describe('配置工具', () => {
       expect(browserConfig.viewportWidth).toBe(1280);
       expect(browserConfig.viewportHeight).toBe(720);
       expect(browserConfig.slowMo).toBe(0);
+      expect(browserConfig.device).toBeUndefined();
+      expect(browserConfig.locale).toBeUndefined();
+      expect(browserConfig.geolocation).toBeUndefined();
+      expect(browserConfig.permissions).toEqual([]);
+      expect(browserConfig.offline).toBe(false);
+      expect(browserConfig.extraHeaders).toEqual({});
+      expect(browserConfig.httpCredentials).toBeUndefined();
     });
 
     it('应当返回从环境变量中获取的浏览器配置值', () => {
@@ -124,23 +131,74 @@ describe('配置工具', () => {
       expect(browserConfig.viewportHeight).toBe(1080);
       expect(browserConfig.slowMo).toBe(50);
     });
+
+    it('应当解析设备模拟、区域和网络相关的浏览器配置', () => {
+      process.env.BROWSER_DEVICE = 'iPhone 13';
+      process.env.BROWSER_LOCALE = 'zh-CN';
+      process.env.BROWSER_TIMEZONE = 'Asia/Shanghai';
+      process.env.BROWSER_GEOLOCATION = '31.23, 121.47, 50';
+      process.env.BROWSER_PERMISSIONS = 'geolocation, notifications';
+      process.env.BROWSER_COLOR_SCHEME = 'dark';
+      process.env.BROWSER_OFFLINE = 'true';
+      process.env.BROWSER_EXTRA_HEADERS = '{"X-Test":"1"}';
+      process.env.BROWSER_HTTP_USERNAME = 'admin';
+      process.env.BROWSER_HTTP_PASSWORD = 'secret';
+
+      expect(browserConfig.device).toBe('iPhone 13');
+      expect(browserConfig.locale).toBe('zh-CN');
+      expect(browserConfig.timezone).toBe('Asia/Shanghai');
+      expect(browserConfig.geolocation).toEqual({
+        latitude: 31.23,
+        longitude: 121.47,
+        accuracy: 50,
+      });
+      expect(browserConfig.permissions).toEqual(['geolocation', 'notifications']);
+      expect(browserConfig.colorScheme).toBe('dark');
+      expect(browserConfig.offline).toBe(true);
+      expect(browserConfig.extraHeaders).toEqual({ 'X-Test': '1' });
+      expect(browserConfig.httpCredentials).toEqual({ username: 'admin', password: 'secret' });
+
+      process.env.BROWSER_GEOLOCATION = 'shanghai';
+      expect(browserConfig.geolocation).toBeUndefined();
+    });
   });
 
   describe('testConfig', () => {
     it('应当返回测试配置的默认值', () => {
       expect(testConfig.storageDir).toBe('./test-results');
       expect(testConfig.timeout).toBe(30000);
+      expect(testConfig.stepTimeout).toBe(10000);
+      expect(testConfig.suiteTimeout).toBe(0);
       expect(testConfig.retries).toBe(1);
+      expect(testConfig.workers).toBe(1);
+      expect(testConfig.trace).toBe('off');
+      expect(testConfig.video).toBe('off');
+      expect(testConfig.visualThreshold).toBe(0.1);
+      expect(testConfig.visualMaxDiffRatio).toBe(0);
     });
 
     it('应当返回从环境变量中获取的测试配置值', () => {
       process.env.TEST_STORAGE_DIR = '/path/to/results';
       process.env.TEST_TIMEOUT = '60000';
       process.env.TEST_RETRIES = '3';
+      process.env.TEST_STEP_TIMEOUT = '5000';
+      process.env.TEST_SUITE_TIMEOUT = '600000';
+      process.env.TEST_WORKERS = '4';
+      process.env.TEST_TRACE = 'retain-on-failure';
+      process.env.TEST_VIDEO = 'on';
+      process.env.VISUAL_THRESHOLD = '0.2';
+      process.env.VISUAL_MAX_DIFF_RATIO = '0.01';
 
       expect(testConfig.storageDir).toBe('/path/to/results');
       expect(testConfig.timeout).toBe(60000);
       expect(testConfig.retries).toBe(3);
+      expect(testConfig.stepTimeout).toBe(5000);
+      expect(testConfig.suiteTimeout).toBe(600000);
+      expect(testConfig.workers).toBe(4);
+      expect(testConfig.trace).toBe('retain-on-failure');
+      expect(testConfig.video).toBe('on');
+      expect(testConfig.visualThreshold).toBe(0.2);
+      expect(testConfig.visualMaxDiffRatio).toBe(0.01);
     });
   });
 });
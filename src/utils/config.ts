@@ -111,6 +111,13 @@ export const projectConfig = {
   get apiKey(): string | undefined {
     return getConfig('API_KEY', undefined);
   },
+
+  /**
+   * 模拟服务器默认端口
+   */
+  get mockPort(): number {
+    return getConfig('MOCK_PORT', 4000);
+  },
 };
 
 /**
@@ -151,6 +158,89 @@ export const browserConfig = {
   get slowMo(): number {
     return getConfig('BROWSER_SLOW_MO', 0);
   },
+
+  /**
+   * 模拟的Playwright内置设备名称，如 iPhone 13
+   */
+  get device(): string | undefined {
+    return getConfig('BROWSER_DEVICE', undefined);
+  },
+
+  /**
+   * 语言区域，如 zh-CN
+   */
+  get locale(): string | undefined {
+    return getConfig('BROWSER_LOCALE', undefined);
+  },
+
+  /**
+   * 时区，如 Asia/Shanghai
+   */
+  get timezone(): string | undefined {
+    return getConfig('BROWSER_TIMEZONE', undefined);
+  },
+
+  /**
+   * 地理位置，格式为 纬度,经度[,精度]
+   */
+  get geolocation(): { latitude: number; longitude: number; accuracy?: number } | undefined {
+    const value = getConfig<string | undefined>('BROWSER_GEOLOCATION', undefined);
+    if (!value) {
+      return undefined;
+    }
+
+    const [latitude, longitude, accuracy] = value.split(',').map(part => Number(part.trim()));
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      console.warn(`无法解析配置值 BROWSER_GEOLOCATION: ${value}`);
+      return undefined;
+    }
+    return Number.isFinite(accuracy) ? { latitude, longitude, accuracy } : { latitude, longitude };
+  },
+
+  /**
+   * 授予的权限，以逗号分隔，如 geolocation,notifications
+   */
+  get permissions(): string[] {
+    const value = getConfig('BROWSER_PERMISSIONS', '');
+    return value
+      .split(',')
+      .map(permission => permission.trim())
+      .filter(Boolean);
+  },
+
+  /**
+   * 配色方案
+   */
+  get colorScheme(): 'light' | 'dark' | 'no-preference' | undefined {
+    return getConfig('BROWSER_COLOR_SCHEME', undefined) as
+      | 'light'
+      | 'dark'
+      | 'no-preference'
+      | undefined;
+  },
+
+  /**
+   * 是否模拟离线
+   */
+  get offline(): boolean {
+    return getConfig('BROWSER_OFFLINE', false);
+  },
+
+  /**
+   * 每个请求附加的HTTP头，JSON对象
+   */
+  get extraHeaders(): Record<string, string> {
+    return getConfig<Record<string, string>>('BROWSER_EXTRA_HEADERS', {});
+  },
+
+  /**
+   * HTTP认证凭据，需同时设置用户名和密码
+   */
+  get httpCredentials(): { username: string; password: string } | undefined {
+    const username = getConfig<string | undefined>('BROWSER_HTTP_USERNAME', undefined);
+    const password = getConfig<string | undefined>('BROWSER_HTTP_PASSWORD', undefined);
+    return username !== undefined && password !== undefined ? { username, password } : undefined;
+  },
 };
 
 /**
@@ -171,12 +261,61 @@ export const testConfig = {
     return getConfig('TEST_TIMEOUT', 30000);
   },
 
+  /**
+   * 单个测试步骤超时（毫秒）
+   */
+  get stepTimeout(): number {
+    return getConfig('TEST_STEP_TIMEOUT', 10000);
+  },
+
+  /**
+   * 测试套件超时（毫秒），0表示不限制
+   */
+  get suiteTimeout(): number {
+    return getConfig('TEST_SUITE_TIMEOUT', 0);
+  },
+
   /**
    * 重试次数
    */
   get retries(): number {
     return getConfig('TEST_RETRIES', 1);
   },
+
+  /**
+   * 并行执行UI测试用例的浏览器上下文数量，1表示顺序执行
+   */
+  get workers(): number {
+    return getConfig('TEST_WORKERS', 1);
+  },
+
+  /**
+   * 是否为每个UI测试用例录制Playwright跟踪，off、on 或 retain-on-failure（仅保留失败的）
+   */
+  get trace(): 'off' | 'on' | 'retain-on-failure' {
+    return getConfig('TEST_TRACE', 'off') as 'off' | 'on' | 'retain-on-failure';
+  },
+
+  /**
+   * 是否为每个UI测试用例录制视频，off、on 或 retain-on-failure（仅保留失败的）
+   */
+  get video(): 'off' | 'on' | 'retain-on-failure' {
+    return getConfig('TEST_VIDEO', 'off') as 'off' | 'on' | 'retain-on-failure';
+  },
+
+  /**
+   * 视觉快照单个像素的颜色差异阈值，0-1
+   */
+  get visualThreshold(): number {
+    return getConfig('VISUAL_THRESHOLD', 0.1);
+  },
+
+  /**
+   * 视觉快照允许的差异像素比例，0-1
+   */
+  get visualMaxDiffRatio(): number {
+    return getConfig('VISUAL_MAX_DIFF_RATIO', 0);
+  },
 };
 
 export default {
@@ -0,0 +1,75 @@
+/**
+ * @file HAR工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { createHar } from './har';
+
+describe('HAR', () => {
+  const har = createHar([
+    {
+      url: 'https://example.com/api/users?page=2',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      postData: '{"name":"a"}',
+      timestamp: Date.UTC(2025, 0, 1),
+      timing: {
+        startTime: 0,
+        domainLookupStart: 1,
+        domainLookupEnd: 3,
+        connectStart: 3,
+        secureConnectionStart: -1,
+        connectEnd: 8,
+        requestStart: 8,
+        responseStart: 20,
+        responseEnd: 25,
+      },
+      response: {
+        status: 201,
+        statusText: 'Created',
+        headers: { 'content-type': 'application/json' },
+        body: '{"id":1}',
+      },
+    },
+    {
+      url: 'https://example.com/logo.png',
+      method: 'GET',
+      timestamp: Date.UTC(2025, 0, 1),
+      response: {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'content-type': 'image/png' },
+        body: Buffer.from([1, 2, 3]).toString('base64'),
+        encoding: 'base64',
+      },
+    },
+    { url: 'https://example.com/broken', method: 'GET', timestamp: Date.UTC(2025, 0, 1) },
+  ]);
+
+  it('应当生成HAR 1.2文档', () => {
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(3);
+  });
+
+  it('应当记录请求、响应和耗时', () => {
+    const [entry] = har.log.entries;
+    expect(entry.startedDateTime).toBe('2025-01-01T00:00:00.000Z');
+    expect(entry.request.queryString).toEqual([{ name: 'page', value: '2' }]);
+    expect(entry.request.postData).toEqual({ mimeType: 'application/json', text: '{"name":"a"}' });
+    expect(entry.response.content).toEqual({
+      size: 8,
+      mimeType: 'application/json',
+      text: '{"id":1}',
+      encoding: undefined,
+    });
+    expect(entry.timings).toMatchObject({ dns: 2, connect: 5, ssl: -1, wait: 12, receive: 5 });
+    expect(entry.time).toBe(24);
+  });
+
+  it('二进制响应应当以base64保存', () => {
+    expect(har.log.entries[1].response.content).toMatchObject({ size: 3, encoding: 'base64' });
+  });
+
+  it('没有响应的请求状态应当为-1', () => {
+    expect(har.log.entries[2].response.status).toBe(-1);
+  });
+});
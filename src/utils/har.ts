@@ -0,0 +1,212 @@
+/**
+ * @file HAR 工具
+ * @description 将采集到的网络请求转换为 HAR 1.2 格式，可被浏览器开发者工具和 Playwright routeFromHAR 读取
+ */
+
+/**
+ * 生成HAR所需的请求数据，与 PlaywrightService 采集的 NetworkRequest 结构兼容
+ */
+export interface HarSourceRequest {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  postData?: string;
+  timestamp: number;
+  // Playwright request.timing()，各阶段为相对 startTime 的毫秒数，-1 表示不可用
+  timing?: {
+    startTime: number;
+    domainLookupStart: number;
+    domainLookupEnd: number;
+    connectStart: number;
+    secureConnectionStart: number;
+    connectEnd: number;
+    requestStart: number;
+    responseStart: number;
+    responseEnd: number;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers?: Record<string, string>;
+    mimeType?: string;
+    body?: string;
+    // 二进制响应体以base64保存
+    encoding?: 'base64';
+  };
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages: never[];
+    entries: HarEntry[];
+  };
+}
+
+function toNameValues(headers: Record<string, string> = {}): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function findHeader(headers: Record<string, string> = {}, name: string): string | undefined {
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+/**
+ * 计算两个时间点之间的耗时，任一时间点不可用时返回-1
+ */
+function span(start: number, end: number): number {
+  return start >= 0 && end >= 0 ? Math.max(end - start, 0) : -1;
+}
+
+function buildTimings(timing: HarSourceRequest['timing']): HarEntry['timings'] {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 };
+  }
+
+  return {
+    blocked: -1,
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.secureConnectionStart, timing.connectEnd),
+    send: 0,
+    wait: Math.max(span(timing.requestStart, timing.responseStart), 0),
+    receive: Math.max(span(timing.responseStart, timing.responseEnd), 0),
+  };
+}
+
+/**
+ * 将单个请求转换为HAR条目
+ * @param request 网络请求
+ * @returns HAR条目
+ */
+export function toHarEntry(request: HarSourceRequest): HarEntry {
+  const timings = buildTimings(request.timing);
+  const response = request.response;
+  const body = response?.body;
+  const contentSize =
+    body === undefined
+      ? 0
+      : response?.encoding === 'base64'
+        ? Buffer.from(body, 'base64').length
+        : Buffer.byteLength(body);
+  const mimeType = response?.mimeType || findHeader(response?.headers, 'content-type') || '';
+
+  let queryString: HarNameValue[] = [];
+  try {
+    queryString = [...new URL(request.url).searchParams.entries()].map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch (error) {
+    // data: 等非标准URL没有查询参数
+  }
+
+  return {
+    startedDateTime: new Date(request.timestamp).toISOString(),
+    time: Object.values(timings).reduce((total, value) => total + Math.max(value, 0), 0),
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(request.headers),
+      queryString,
+      postData:
+        request.postData !== undefined
+          ? {
+              mimeType: findHeader(request.headers, 'content-type') || '',
+              text: request.postData,
+            }
+          : undefined,
+      headersSize: -1,
+      bodySize: request.postData !== undefined ? Buffer.byteLength(request.postData) : 0,
+    },
+    response: {
+      // 未收到响应的请求（如被中止）与Playwright录制的HAR一致，记录为-1
+      status: response?.status ?? -1,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(response?.headers),
+      content: {
+        size: contentSize,
+        mimeType,
+        text: body,
+        encoding: response?.encoding,
+      },
+      redirectURL: findHeader(response?.headers, 'location') || '',
+      headersSize: -1,
+      bodySize: body === undefined ? -1 : contentSize,
+    },
+    cache: {},
+    timings,
+  };
+}
+
+/**
+ * 根据网络请求生成HAR文档
+ * @param requests 网络请求数组
+ * @param creator 生成工具信息
+ * @returns HAR文档
+ */
+export function createHar(
+  requests: HarSourceRequest[],
+  creator: { name: string; version: string } = { name: 'playwright-mcp', version: '0.1.0' }
+): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      pages: [],
+      entries: requests.map(toHarEntry),
+    },
+  };
+}
+
+export default {
+  createHar,
+  toHarEntry,
+};
@@ -0,0 +1,50 @@
+/**
+ * @file JSONPath工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { getJsonPathValue, isIndefinitePath, queryJsonPath } from './json-path';
+
+const data = {
+  store: {
+    name: 'shop',
+    'item-count': 3,
+    items: [
+      { id: 1, price: 10, tags: ['a'] },
+      { id: 2, price: 25, email: 'x@example.com' },
+      { id: 3, price: 40 },
+    ],
+  },
+};
+
+describe('JSONPath', () => {
+  it('应当支持点号、方括号与索引', () => {
+    expect(getJsonPathValue(data, '$.store.name')).toBe('shop');
+    expect(getJsonPathValue(data, "$['store']['item-count']")).toBe(3);
+    expect(getJsonPathValue(data, '$.store.items[1].id')).toBe(2);
+    expect(getJsonPathValue(data, '$.store.items[-1].id')).toBe(3);
+    expect(getJsonPathValue(data, 'store.items[0].tags[0]')).toBe('a');
+    expect(getJsonPathValue(data, '$.store.missing')).toBeUndefined();
+  });
+
+  it('应当支持通配符、切片与递归下降', () => {
+    expect(queryJsonPath(data, '$.store.items[*].id')).toEqual([1, 2, 3]);
+    expect(queryJsonPath(data, '$.store.items[0:2].id')).toEqual([1, 2]);
+    expect(queryJsonPath(data, '$..price')).toEqual([10, 25, 40]);
+  });
+
+  it('应当支持过滤表达式', () => {
+    expect(queryJsonPath(data, '$.store.items[?(@.price > 20)].id')).toEqual([2, 3]);
+    expect(queryJsonPath(data, "$.store.items[?(@.email == 'x@example.com')].id")).toEqual([2]);
+    expect(queryJsonPath(data, '$.store.items[?(@.tags)].id')).toEqual([1]);
+  });
+
+  it('不确定路径应当返回数组', () => {
+    expect(isIndefinitePath('$.store.items[*]')).toBe(true);
+    expect(isIndefinitePath('$.store.items[0]')).toBe(false);
+    expect(getJsonPathValue(data, '$.store.items[?(@.id == 9)]')).toEqual([]);
+  });
+
+  it('非法表达式应当抛出错误', () => {
+    expect(() => queryJsonPath(data, '$.store[')).toThrow('Invalid JSONPath');
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * @file JSONPath 工具
+ * @description 轻量的JSONPath查询实现，支持常用语法：
+ * $、.key、['key']、[0]、[-1]、[*]、[start:end]、..key 以及 [?(@.key == value)] 过滤
+ */
+
+type PathToken =
+  | { type: 'child'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number }
+  | { type: 'wildcard' }
+  // key 为 * 时匹配所有后代
+  | { type: 'recursive'; key: string }
+  | { type: 'filter'; expression: string };
+
+/**
+ * 将JSONPath表达式拆分为查询片段
+ * @param path JSONPath表达式
+ * @returns 查询片段数组
+ */
+function tokenize(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let expression = path.trim();
+
+  if (expression.startsWith('$')) {
+    expression = expression.slice(1);
+  } else if (expression && !expression.startsWith('.') && !expression.startsWith('[')) {
+    // 允许省略前导 $ 的简写，如 data.items[0]
+    expression = `.${expression}`;
+  }
+
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (char === '.' && expression[i + 1] === '.') {
+      // 递归下降
+      i += 2;
+      const match = /^(\*|[^.[\]]+)/.exec(expression.slice(i));
+      if (!match) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+      }
+      tokens.push({ type: 'recursive', key: match[1] });
+      i += match[1].length;
+    } else if (char === '.') {
+      i += 1;
+      const match = /^(\*|[^.[\]]+)/.exec(expression.slice(i));
+      if (!match) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+      }
+      tokens.push(match[1] === '*' ? { type: 'wildcard' } : { type: 'child', key: match[1] });
+      i += match[1].length;
+    } else if (char === '[') {
+      const end = findClosingBracket(expression, i);
+      if (end < 0) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+      }
+      tokens.push(parseBracket(expression.slice(i + 1, end).trim(), path));
+      i = end + 1;
+    } else {
+      throw new Error(`Invalid JSONPath: ${path}`);
+    }
+  }
+
+  return tokens;
+}
+
+function findClosingBracket(expression: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === quote && expression[i - 1] !== '\\') {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function parseBracket(content: string, path: string): PathToken {
+  if (content === '*') {
+    return { type: 'wildcard' };
+  }
+
+  if (content.startsWith('?(') && content.endsWith(')')) {
+    return { type: 'filter', expression: content.slice(2, -1).trim() };
+  }
+
+  const quoted = /^(['"])(.*)\1$/.exec(content);
+  if (quoted) {
+    return { type: 'child', key: quoted[2] };
+  }
+
+  const slice = /^(-?\d*):(-?\d*)$/.exec(content);
+  if (slice) {
+    return {
+      type: 'slice',
+      start: slice[1] ? Number(slice[1]) : undefined,
+      end: slice[2] ? Number(slice[2]) : undefined,
+    };
+  }
+
+  if (/^-?\d+$/.test(content)) {
+    return { type: 'index', index: Number(content) };
+  }
+
+  throw new Error(`Invalid JSONPath segment "[${content}]" in ${path}`);
+}
+
+function childrenOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>);
+  }
+  return [];
+}
+
+function collectRecursive(value: unknown, key: string, results: unknown[]): void {
+  if (value === null || typeof value !== 'object') {
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    if (key === '*') {
+      results.push(...Object.values(obj));
+    } else if (key in obj) {
+      results.push(obj[key]);
+    }
+  } else if (key === '*') {
+    results.push(...(value as unknown[]));
+  }
+
+  for (const child of childrenOf(value)) {
+    collectRecursive(child, key, results);
+  }
+}
+
+/**
+ * 解析过滤表达式中的字面量
+ */
+function parseLiteral(literal: string): unknown {
+  const trimmed = literal.trim();
+  const quoted = /^(['"])(.*)\1$/.exec(trimmed);
+  if (quoted) {
+    return quoted[2];
+  }
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed === 'true';
+  }
+  if (trimmed === 'null') {
+    return null;
+  }
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  return trimmed;
+}
+
+/**
+ * 执行过滤表达式，支持 @.path、@.path == 值、!=、>、<、>=、<=
+ */
+function matchesFilter(item: unknown, expression: string): boolean {
+  const comparison = /^@(.*?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/.exec(expression);
+
+  if (!comparison) {
+    // 存在性过滤，如 [?(@.email)]
+    const existence = /^@(.*)$/.exec(expression);
+    if (!existence) {
+      throw new Error(`Unsupported JSONPath filter: ${expression}`);
+    }
+    const matches = queryJsonPath(item, `$${existence[1]}`);
+    return matches.length > 0 && matches[0] !== undefined && matches[0] !== null;
+  }
+
+  const [, subPath, operator, literal] = comparison;
+  const actual = queryJsonPath(item, `$${subPath}`)[0];
+  const expected = parseLiteral(literal);
+
+  switch (operator) {
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case '>':
+      return Number(actual) > Number(expected);
+    case '<':
+      return Number(actual) < Number(expected);
+    case '>=':
+      return Number(actual) >= Number(expected);
+    case '<=':
+      return Number(actual) <= Number(expected);
+    default:
+      return false;
+  }
+}
+
+/**
+ * 执行JSONPath查询
+ * @param data 要查询的数据
+ * @param path JSONPath表达式
+ * @returns 所有匹配的值
+ * @example
+ * queryJsonPath({ items: [{ id: 1 }, { id: 2 }] }, '$.items[*].id') // [1, 2]
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const token of tokenize(path)) {
+    const next: unknown[] = [];
+
+    for (const value of current) {
+      switch (token.type) {
+        case 'child':
+          if (value !== null && typeof value === 'object' && token.key in value) {
+            next.push((value as Record<string, unknown>)[token.key]);
+          }
+          break;
+        case 'index':
+          if (Array.isArray(value)) {
+            const index = token.index < 0 ? value.length + token.index : token.index;
+            if (index >= 0 && index < value.length) {
+              next.push(value[index]);
+            }
+          }
+          break;
+        case 'slice':
+          if (Array.isArray(value)) {
+            next.push(...(value as unknown[]).slice(token.start, token.end));
+          }
+          break;
+        case 'wildcard':
+          next.push(...childrenOf(value));
+          break;
+        case 'recursive':
+          collectRecursive(value, token.key, next);
+          break;
+        case 'filter':
+          next.push(...childrenOf(value).filter(item => matchesFilter(item, token.expression)));
+          break;
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * 判断JSONPath表达式是否会返回多个值（含通配符、切片、递归或过滤）
+ * @param path JSONPath表达式
+ */
+export function isIndefinitePath(path: string): boolean {
+  return tokenize(path).some(
+    token =>
+      token.type === 'wildcard' ||
+      token.type === 'slice' ||
+      token.type === 'recursive' ||
+      token.type === 'filter'
+  );
+}
+
+/**
+ * 执行JSONPath查询并返回单个值
+ * 确定路径返回第一个匹配值，不确定路径（通配符等）返回匹配值数组
+ * @param data 要查询的数据
+ * @param path JSONPath表达式
+ * @returns 查询结果，无匹配时返回undefined
+ */
+export function getJsonPathValue(data: unknown, path: string): unknown {
+  const matches = queryJsonPath(data, path);
+  if (isIndefinitePath(path)) {
+    return matches;
+  }
+  return matches[0];
+}
+
+export default {
+  queryJsonPath,
+  getJsonPathValue,
+  isIndefinitePath,
+};
@@ -0,0 +1,71 @@
+/**
+ * @file JSON Schema校验工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from './json-schema-validator';
+
+const userSchema = {
+  type: 'object',
+  required: ['id', 'name'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    name: { type: 'string', minLength: 1 },
+    email: { type: 'string', format: 'email', nullable: true },
+    role: { type: 'string', enum: ['admin', 'user'] },
+    'a/b': { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+  },
+};
+
+describe('JSON Schema校验', () => {
+  it('合法数据应当没有违规', () => {
+    expect(
+      validateJsonSchema(userSchema, {
+        id: 1,
+        name: 'Alice',
+        email: null,
+        role: 'admin',
+        tags: ['a', 'b'],
+      })
+    ).toEqual([]);
+  });
+
+  it('违规应当带有JSON Pointer路径', () => {
+    const violations = validateJsonSchema({ type: 'array', items: userSchema }, [
+      { id: 1, name: 'A' },
+      { id: '2', name: '', role: 'guest', extra: 1, 'a/b': 'x' },
+    ]);
+
+    expect(violations.map(v => `${v.path} ${v.keyword}`)).toEqual([
+      '/1/id type',
+      '/1/name minLength',
+      '/1/role enum',
+      '/1/extra additionalProperties',
+      '/1/a~1b type',
+    ]);
+  });
+
+  it('缺少必需属性时应当报告属性路径', () => {
+    expect(validateJsonSchema(userSchema, { id: 0 })).toEqual([
+      { path: '/name', keyword: 'required', message: 'Missing required property "name"' },
+      { path: '/id', keyword: 'minimum', message: 'Value 0 is less than minimum 1' },
+    ]);
+  });
+
+  it('应当支持组合关键字', () => {
+    const schema = { oneOf: [{ type: 'string' }, { type: 'integer' }] };
+    expect(validateJsonSchema(schema, 'x')).toEqual([]);
+    expect(validateJsonSchema(schema, true)[0].keyword).toBe('oneOf');
+    expect(validateJsonSchema({ anyOf: [{ type: 'null' }, { type: 'number' }] }, 'x')).toHaveLength(
+      1
+    );
+    expect(
+      validateJsonSchema({ allOf: [{ required: ['a'] }, { required: ['b'] }] }, { a: 1 })
+    ).toHaveLength(1);
+  });
+
+  it('未解析的循环引用应当跳过校验', () => {
+    expect(validateJsonSchema({ $ref: '#/components/schemas/Node' }, 42)).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @file JSON Schema 校验工具
+ * @description 按 JSON Schema（含 OpenAPI 扩展的 nullable）校验数据，
+ * 返回带 JSON Pointer 路径的违规列表
+ */
+
+/**
+ * 单条校验违规
+ */
+export interface SchemaViolation {
+  // 违规数据所在位置的 JSON Pointer，根节点为空字符串
+  path: string;
+  // 触发违规的 schema 关键字
+  keyword: string;
+  message: string;
+}
+
+type Schema = Record<string, unknown>;
+
+/**
+ * 转义 JSON Pointer 片段（~ → ~0，/ → ~1）
+ */
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z\d+.-]*:\S*$/i,
+  ipv4: /^(\d{1,3}\.){3}\d{1,3}$/,
+};
+
+function validateNode(schema: unknown, data: unknown, pointer: string): SchemaViolation[] {
+  if (schema === true || schema === undefined || schema === null) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path: pointer, keyword: 'false', message: 'No value is allowed here' }];
+  }
+  if (typeof schema !== 'object') {
+    return [];
+  }
+
+  const s = schema as Schema;
+
+  // 循环引用在解析阶段保留为 $ref，无法继续校验
+  if (typeof s.$ref === 'string') {
+    return [];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const report = (keyword: string, message: string, path = pointer): void => {
+    violations.push({ path, keyword, message });
+  };
+
+  if (data === null && s.nullable === true) {
+    return [];
+  }
+
+  // 组合关键字
+  if (Array.isArray(s.allOf)) {
+    for (const subSchema of s.allOf) {
+      violations.push(...validateNode(subSchema, data, pointer));
+    }
+  }
+  if (Array.isArray(s.anyOf)) {
+    const matched = s.anyOf.some(subSchema => validateNode(subSchema, data, pointer).length === 0);
+    if (!matched) {
+      report('anyOf', 'Value does not match any of the allowed schemas');
+    }
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matchCount = s.oneOf.filter(
+      subSchema => validateNode(subSchema, data, pointer).length === 0
+    ).length;
+    if (matchCount !== 1) {
+      report('oneOf', `Value must match exactly one schema, matched ${matchCount}`);
+    }
+  }
+  if (s.not !== undefined && validateNode(s.not, data, pointer).length === 0) {
+    report('not', 'Value must not match the schema');
+  }
+
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]) as string[];
+    if (!types.some(type => matchesType(data, type))) {
+      report('type', `Expected ${types.join(' | ')}, got ${typeOf(data)}`);
+      // 类型不符时其余关键字没有意义
+      return violations;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some(option => isEqual(option, data))) {
+    report('enum', `Value ${JSON.stringify(data)} is not one of ${JSON.stringify(s.enum)}`);
+  }
+  if (s.const !== undefined && !isEqual(s.const, data)) {
+    report('const', `Expected ${JSON.stringify(s.const)}, got ${JSON.stringify(data)}`);
+  }
+
+  if (typeof data === 'number') {
+    if (typeof s.minimum === 'number') {
+      if (s.exclusiveMinimum === true ? data <= s.minimum : data < s.minimum) {
+        report('minimum', `Value ${data} is less than minimum ${s.minimum}`);
+      }
+    }
+    if (typeof s.maximum === 'number') {
+      if (s.exclusiveMaximum === true ? data >= s.maximum : data > s.maximum) {
+        report('maximum', `Value ${data} is greater than maximum ${s.maximum}`);
+      }
+    }
+    if (typeof s.exclusiveMinimum === 'number' && data <= s.exclusiveMinimum) {
+      report('exclusiveMinimum', `Value ${data} must be greater than ${s.exclusiveMinimum}`);
+    }
+    if (typeof s.exclusiveMaximum === 'number' && data >= s.exclusiveMaximum) {
+      report('exclusiveMaximum', `Value ${data} must be less than ${s.exclusiveMaximum}`);
+    }
+    if (typeof s.multipleOf === 'number' && s.multipleOf > 0) {
+      const quotient = data / s.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        report('multipleOf', `Value ${data} is not a multiple of ${s.multipleOf}`);
+      }
+    }
+  }
+
+  if (typeof data === 'string') {
+    if (typeof s.minLength === 'number' && data.length < s.minLength) {
+      report('minLength', `String is shorter than ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === 'number' && data.length > s.maxLength) {
+      report('maxLength', `String is longer than ${s.maxLength} characters`);
+    }
+    if (typeof s.pattern === 'string' && !new RegExp(s.pattern).test(data)) {
+      report('pattern', `String does not match pattern ${s.pattern}`);
+    }
+    if (typeof s.format === 'string' && FORMAT_PATTERNS[s.format]) {
+      if (!FORMAT_PATTERNS[s.format].test(data)) {
+        report('format', `String is not a valid ${s.format}`);
+      }
+    }
+  }
+
+  if (Array.isArray(data)) {
+    if (typeof s.minItems === 'number' && data.length < s.minItems) {
+      report('minItems', `Array has fewer than ${s.minItems} items`);
+    }
+    if (typeof s.maxItems === 'number' && data.length > s.maxItems) {
+      report('maxItems', `Array has more than ${s.maxItems} items`);
+    }
+    if (s.uniqueItems === true) {
+      const seen = new Set(data.map(item => JSON.stringify(item)));
+      if (seen.size !== data.length) {
+        report('uniqueItems', 'Array items are not unique');
+      }
+    }
+    if (Array.isArray(s.items)) {
+      // 元组形式
+      s.items.forEach((itemSchema, index) => {
+        if (index < data.length) {
+          violations.push(...validateNode(itemSchema, data[index], `${pointer}/${index}`));
+        }
+      });
+    } else if (s.items !== undefined) {
+      data.forEach((item, index) => {
+        violations.push(...validateNode(s.items, item, `${pointer}/${index}`));
+      });
+    }
+  }
+
+  if (typeOf(data) === 'object') {
+    const obj = data as Record<string, unknown>;
+    const properties = (s.properties || {}) as Record<string, unknown>;
+
+    if (Array.isArray(s.required)) {
+      for (const name of s.required as string[]) {
+        if (!(name in obj)) {
+          report(
+            'required',
+            `Missing required property "${name}"`,
+            `${pointer}/${escapePointer(name)}`
+          );
+        }
+      }
+    }
+    if (typeof s.minProperties === 'number' && Object.keys(obj).length < s.minProperties) {
+      report('minProperties', `Object has fewer than ${s.minProperties} properties`);
+    }
+    if (typeof s.maxProperties === 'number' && Object.keys(obj).length > s.maxProperties) {
+      report('maxProperties', `Object has more than ${s.maxProperties} properties`);
+    }
+
+    for (const [name, value] of Object.entries(obj)) {
+      const childPointer = `${pointer}/${escapePointer(name)}`;
+      if (name in properties) {
+        violations.push(...validateNode(properties[name], value, childPointer));
+      } else if (s.additionalProperties === false) {
+        report('additionalProperties', `Property "${name}" is not allowed`, childPointer);
+      } else if (typeof s.additionalProperties === 'object') {
+        violations.push(...validateNode(s.additionalProperties, value, childPointer));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * 按 JSON Schema 校验数据
+ * @param schema JSON Schema（引用需已解析）
+ * @param data 要校验的数据
+ * @returns 违规列表，为空表示校验通过
+ * @example
+ * validateJsonSchema({ type: 'object', required: ['id'] }, {})
+ * // [{ path: '/id', keyword: 'required', message: 'Missing required property "id"' }]
+ */
+export function validateJsonSchema(schema: unknown, data: unknown): SchemaViolation[] {
+  return validateNode(schema, data, '');
+}
+
+export default {
+  validateJsonSchema,
+};
@@ -0,0 +1,93 @@
+/**
+ * @file 负载测试统计工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  createLoadStatsCollector,
+  percentile,
+  recordLoadSample,
+  summarizeLoadStats,
+} from './load-stats';
+
+describe('负载测试统计', () => {
+  it('应当按最近秩法计算百分位', () => {
+    const sorted = Array.from({ length: 100 }, (_, index) => index + 1);
+
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(95);
+    expect(percentile(sorted, 99)).toBe(99);
+    expect(percentile([7], 99)).toBe(7);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('应当汇总吞吐量、延迟、错误率与状态码', () => {
+    const collector = createLoadStatsCollector();
+    for (let i = 0; i < 10; i++) {
+      recordLoadSample(collector, {
+        endpoint: 'GET /users',
+        status: 200,
+        duration: (i + 1) * 10,
+        failed: false,
+        time: i * 200,
+      });
+    }
+    recordLoadSample(collector, {
+      endpoint: 'POST /orders',
+      status: 0,
+      duration: 5,
+      failed: true,
+      error: 'fetch failed',
+      time: 1500,
+    });
+    recordLoadSample(collector, {
+      endpoint: 'POST /orders',
+      status: 0,
+      duration: 5,
+      failed: true,
+      error: 'fetch failed',
+      time: 1600,
+    });
+
+    const summary = summarizeLoadStats(collector, 2000);
+
+    expect(summary.totals).toMatchObject({
+      requests: 12,
+      errors: 2,
+      throughput: 6,
+      statusCodes: { '0': 2, '200': 10 },
+    });
+    expect(summary.totals.errorRate).toBeCloseTo(2 / 12);
+    expect(summary.endpoints[0]).toMatchObject({
+      endpoint: 'GET /users',
+      errorRate: 0,
+      latency: { min: 10, mean: 55, p50: 50, p95: 100, p99: 100, max: 100 },
+    });
+    expect(summary.endpoints[1]).toMatchObject({
+      endpoint: 'POST /orders',
+      errorRate: 1,
+      errorMessages: ['fetch failed'],
+    });
+    expect(summary.timeline).toEqual([
+      { second: 0, requests: 5, errors: 0, meanLatency: 30 },
+      { second: 1, requests: 7, errors: 2, meanLatency: (60 + 70 + 80 + 90 + 100 + 5 + 5) / 7 },
+    ]);
+  });
+
+  it('时间较长时应当合并时间线中相邻的秒', () => {
+    const collector = createLoadStatsCollector();
+    for (let second = 0; second < 600; second++) {
+      recordLoadSample(collector, {
+        endpoint: 'GET /health',
+        status: 200,
+        duration: 1,
+        failed: false,
+        time: second * 1000,
+      });
+    }
+
+    const { timeline } = summarizeLoadStats(collector, 600000);
+
+    expect(timeline).toHaveLength(120);
+    expect(timeline[1]).toEqual({ second: 5, requests: 5, errors: 0, meanLatency: 1 });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @file 负载测试统计工具
+ * @description 逐个记录请求的耗时与状态，汇总吞吐量、延迟百分位、错误率与状态码分布，
+ * 只保存耗时数组与计数，长时间的稳定性测试也不会占用过多内存
+ */
+
+/**
+ * 单个请求的记录
+ */
+export interface LoadSample {
+  // 端点，如 GET /users/{{userId}}
+  endpoint: string;
+  // 没有收到响应时为0
+  status: number;
+  // 耗时（毫秒）
+  duration: number;
+  // 请求失败或断言未通过
+  failed: boolean;
+  error?: string;
+  // 相对测试开始的时间（毫秒）
+  time: number;
+}
+
+/**
+ * 延迟统计（毫秒）
+ */
+export interface LatencyStats {
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * 一组请求的汇总
+ */
+export interface LoadStats {
+  requests: number;
+  errors: number;
+  // 0-1
+  errorRate: number;
+  // 每秒完成的请求数
+  throughput: number;
+  latency: LatencyStats;
+  // 按状态码统计的请求数，没有收到响应的请求记为 0
+  statusCodes: Record<string, number>;
+}
+
+/**
+ * 单个端点的汇总
+ */
+export interface EndpointLoadStats extends LoadStats {
+  endpoint: string;
+  // 不同的错误信息，最多保留 MAX_ERROR_MESSAGES 条
+  errorMessages: string[];
+}
+
+/**
+ * 时间线上一段时间内的请求情况
+ */
+export interface LoadTimelinePoint {
+  // 相对测试开始的秒数
+  second: number;
+  requests: number;
+  errors: number;
+  meanLatency: number;
+}
+
+/**
+ * 汇总结果
+ */
+export interface LoadStatsSummary {
+  totals: LoadStats;
+  endpoints: EndpointLoadStats[];
+  timeline: LoadTimelinePoint[];
+}
+
+interface EndpointCollector {
+  durations: number[];
+  errors: number;
+  statusCodes: Record<string, number>;
+  errorMessages: string[];
+}
+
+interface TimelineBucket {
+  requests: number;
+  errors: number;
+  totalDuration: number;
+}
+
+/**
+ * 负载测试过程中累计的记录
+ */
+export interface LoadStatsCollector {
+  endpoints: Map<string, EndpointCollector>;
+  // 按秒累计
+  timeline: Map<number, TimelineBucket>;
+}
+
+const MAX_ERROR_MESSAGES = 5;
+// 时间线最多的点数，超过时合并相邻的秒
+const MAX_TIMELINE_POINTS = 120;
+
+/**
+ * 创建空的统计
+ */
+export function createLoadStatsCollector(): LoadStatsCollector {
+  return { endpoints: new Map(), timeline: new Map() };
+}
+
+/**
+ * 记录一个请求
+ * @param collector 统计
+ * @param sample 请求记录
+ */
+export function recordLoadSample(collector: LoadStatsCollector, sample: LoadSample): void {
+  const endpoint = collector.endpoints.get(sample.endpoint) || {
+    durations: [],
+    errors: 0,
+    statusCodes: {},
+    errorMessages: [],
+  };
+  endpoint.durations.push(sample.duration);
+  endpoint.statusCodes[sample.status] = (endpoint.statusCodes[sample.status] || 0) + 1;
+  if (sample.failed) {
+    endpoint.errors++;
+    if (
+      sample.error &&
+      endpoint.errorMessages.length < MAX_ERROR_MESSAGES &&
+      !endpoint.errorMessages.includes(sample.error)
+    ) {
+      endpoint.errorMessages.push(sample.error);
+    }
+  }
+  collector.endpoints.set(sample.endpoint, endpoint);
+
+  const second = Math.floor(sample.time / 1000);
+  const bucket = collector.timeline.get(second) || { requests: 0, errors: 0, totalDuration: 0 };
+  bucket.requests++;
+  bucket.errors += sample.failed ? 1 : 0;
+  bucket.totalDuration += sample.duration;
+  collector.timeline.set(second, bucket);
+}
+
+/**
+ * 计算有序数组的百分位，使用最近秩法
+ * @param sorted 升序排列的数值
+ * @param p 百分位，0-100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * 汇总已记录的请求
+ * @param collector 统计
+ * @param elapsed 测试已持续的时间（毫秒），用于计算吞吐量
+ * @returns 总体、各端点与时间线的汇总
+ */
+export function summarizeLoadStats(
+  collector: LoadStatsCollector,
+  elapsed: number
+): LoadStatsSummary {
+  const endpoints = [...collector.endpoints.entries()].map(([endpoint, stats]) => ({
+    endpoint,
+    ...summarize(stats.durations, stats.errors, stats.statusCodes, elapsed),
+    errorMessages: stats.errorMessages,
+  }));
+
+  const statusCodes: Record<string, number> = {};
+  for (const endpoint of collector.endpoints.values()) {
+    for (const [status, count] of Object.entries(endpoint.statusCodes)) {
+      statusCodes[status] = (statusCodes[status] || 0) + count;
+    }
+  }
+  const totals = summarize(
+    [...collector.endpoints.values()].flatMap(endpoint => endpoint.durations),
+    endpoints.reduce((total, endpoint) => total + endpoint.errors, 0),
+    statusCodes,
+    elapsed
+  );
+
+  return { totals, endpoints, timeline: buildTimeline(collector.timeline) };
+}
+
+/**
+ * 汇总一组请求的耗时与错误
+ */
+function summarize(
+  durations: number[],
+  errors: number,
+  statusCodes: Record<string, number>,
+  elapsed: number
+): LoadStats {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const requests = sorted.length;
+
+  return {
+    requests,
+    errors,
+    errorRate: requests > 0 ? errors / requests : 0,
+    throughput: elapsed > 0 ? requests / (elapsed / 1000) : 0,
+    latency: {
+      min: sorted[0] ?? 0,
+      mean: requests > 0 ? sorted.reduce((total, value) => total + value, 0) / requests : 0,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+      max: sorted[requests - 1] ?? 0,
+    },
+    statusCodes,
+  };
+}
+
+/**
+ * 将按秒累计的记录转换为时间线，时间较长时合并相邻的秒
+ */
+function buildTimeline(timeline: Map<number, TimelineBucket>): LoadTimelinePoint[] {
+  const lastSecond = Math.max(-1, ...timeline.keys());
+  const interval = Math.max(1, Math.ceil((lastSecond + 1) / MAX_TIMELINE_POINTS));
+  const points: LoadTimelinePoint[] = [];
+
+  for (let second = 0; second <= lastSecond; second += interval) {
+    const merged = { requests: 0, errors: 0, totalDuration: 0 };
+    for (let offset = 0; offset < interval; offset++) {
+      const bucket = timeline.get(second + offset);
+      if (bucket) {
+        merged.requests += bucket.requests;
+        merged.errors += bucket.errors;
+        merged.totalDuration += bucket.totalDuration;
+      }
+    }
+    points.push({
+      second,
+      requests: merged.requests,
+      errors: merged.errors,
+      meanLatency: merged.requests > 0 ? merged.totalDuration / merged.requests : 0,
+    });
+  }
+
+  return points;
+}
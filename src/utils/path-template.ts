@@ -0,0 +1,53 @@
+/**
+ * @file 路径模板工具
+ * @description 匹配 /users/{id} 形式的API路径模板并提取路径参数
+ */
+
+/**
+ * 判断路径是否匹配模板，并返回路径参数
+ * @param template 路径模板，如 /users/{id}
+ * @param pathname 实际请求路径，如 /users/42
+ * @returns 路径参数，不匹配时返回null
+ * @example
+ * matchPathTemplate('/users/{id}', '/users/42') // { id: '42' }
+ * matchPathTemplate('/users/{id}', '/orders/42') // null
+ */
+export function matchPathTemplate(
+  template: string,
+  pathname: string
+): Record<string, string> | null {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const param = /^\{([^}]+)\}$/.exec(part);
+      if (param) {
+        names.push(param[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}/?$`).exec(pathname);
+  if (!match) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+  );
+}
+
+/**
+ * 统计模板中的路径参数个数，用于让静态路径优先于参数路径匹配
+ * @param template 路径模板
+ */
+export function countPathParams(template: string): number {
+  return (template.match(/\{[^}]+\}/g) || []).length;
+}
+
+export default {
+  matchPathTemplate,
+  countPathParams,
+};
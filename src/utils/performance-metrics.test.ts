@@ -0,0 +1,127 @@
+/**
+ * @file 页面性能指标工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildPerformanceTrend,
+  evaluateBudgets,
+  getMetricValues,
+  PagePerformance,
+  parseBudgets,
+} from './performance-metrics';
+
+function createPerformance(overrides: Partial<PagePerformance> = {}): PagePerformance {
+  return {
+    url: 'http://localhost/home',
+    timeOrigin: 1700000000000,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    navigation: { ttfb: 120, domContentLoaded: 800, load: 1200, fcp: 600, transferSize: 2048 },
+    lcp: 1800,
+    cls: 0.05,
+    longTasks: { count: 2, totalDuration: 180, totalBlockingTime: 80 },
+    resources: [
+      {
+        url: 'http://localhost/app.js?v=1',
+        initiatorType: 'script',
+        startTime: 100,
+        duration: 50,
+        transferSize: 300 * 1024,
+        encodedBodySize: 300 * 1024,
+      },
+      {
+        url: 'http://localhost/vendor.mjs',
+        initiatorType: 'script',
+        startTime: 110,
+        duration: 80,
+        // 从缓存读取
+        transferSize: 0,
+        encodedBodySize: 100 * 1024,
+      },
+      {
+        url: 'http://localhost/style.css',
+        initiatorType: 'link',
+        startTime: 90,
+        duration: 20,
+        transferSize: 10 * 1024,
+        encodedBodySize: 10 * 1024,
+      },
+      {
+        url: 'http://localhost/logo.png',
+        initiatorType: 'img',
+        startTime: 300,
+        duration: 40,
+        transferSize: 20 * 1024,
+        encodedBodySize: 20 * 1024,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('页面性能指标', () => {
+  it('应当按资源类型汇总大小，并展开导航与长任务指标', () => {
+    expect(getMetricValues(createPerformance())).toMatchObject({
+      LCP: 1800,
+      FCP: 600,
+      CLS: 0.05,
+      INP: undefined,
+      TTFB: 120,
+      TBT: 80,
+      longTasks: 2,
+      requests: 4,
+      totalJS: 400 * 1024,
+      totalCSS: 10 * 1024,
+      totalImage: 20 * 1024,
+      totalFont: 0,
+      totalBytes: 2048 + 430 * 1024,
+    });
+  });
+
+  it('应当解析预算并换算单位', () => {
+    expect(parseBudgets('LCP < 2.5s; totalJS <= 500KB, cls < 0.1')).toEqual([
+      { metric: 'LCP', operator: '<', value: 2500, expression: 'LCP < 2.5s' },
+      { metric: 'totalJS', operator: '<=', value: 500 * 1024, expression: 'totalJS <= 500KB' },
+      { metric: 'CLS', operator: '<', value: 0.1, expression: 'cls < 0.1' },
+    ]);
+    expect(() => parseBudgets('LCP fast')).toThrow('Invalid performance budget: LCP fast');
+    expect(() => parseBudgets('FID < 100ms')).toThrow('Unknown performance metric "FID"');
+    expect(() => parseBudgets('LCP < 500KB')).toThrow('Unit "KB" does not apply to LCP');
+  });
+
+  it('应当检查预算，未记录的指标视为不满足', () => {
+    const results = evaluateBudgets(
+      createPerformance(),
+      parseBudgets('LCP < 2500ms, totalJS < 300KB, INP < 200ms')
+    );
+
+    expect(results.map(result => result.passed)).toEqual([true, false, false]);
+    expect(results[1].message).toBe('totalJS < 300KB: actual 400.0KB');
+    expect(results[2].message).toBe('INP < 200ms: INP was not recorded on http://localhost/home');
+  });
+
+  it('应当按页面汇总多次执行的趋势，同一次执行取中位数', () => {
+    const trend = buildPerformanceTrend([
+      {
+        reportId: 'r1',
+        startTime: '2024-01-01T00:00:00.000Z',
+        performance: [createPerformance({ lcp: 1000 }), createPerformance({ lcp: 2000 })],
+      },
+      {
+        reportId: 'r2',
+        startTime: '2024-01-02T00:00:00.000Z',
+        performance: [
+          createPerformance({ url: 'http://localhost/home?ref=mail', lcp: 2100 }),
+          createPerformance({ url: 'http://localhost/about', lcp: 900 }),
+        ],
+      },
+    ]);
+
+    expect(trend.map(page => page.url)).toEqual([
+      'http://localhost/home',
+      'http://localhost/about',
+    ]);
+    expect(trend[0].points.map(point => point.metrics.LCP)).toEqual([1500, 2100]);
+    expect(trend[0].change.LCP).toBe(600);
+    expect(trend[1].change).toEqual({});
+  });
+});
@@ -0,0 +1,586 @@
+/**
+ * @file 页面性能指标工具
+ * @description 在页面中记录导航时序、LCP/CLS/INP 近似值、长任务与各资源的加载时序，
+ * 按性能预算（如 "LCP < 2500ms"、"totalJS < 500KB"）检查指标，并汇总同一套件多次执行的趋势
+ */
+
+import type { Page } from 'playwright';
+
+/**
+ * 单个资源的加载时序，时间以文档时间原点为基准（毫秒）
+ */
+export interface ResourceTiming {
+  url: string;
+  // 发起方式，如 script、link、img、fetch
+  initiatorType: string;
+  startTime: number;
+  duration: number;
+  // 跨域资源没有 Timing-Allow-Origin 时为0
+  transferSize: number;
+  encodedBodySize: number;
+}
+
+/**
+ * 一次导航（一个文档）的性能指标，时间单位为毫秒
+ */
+export interface PagePerformance {
+  url: string;
+  // 文档的时间原点，同一文档的多次采集以此去重
+  timeOrigin: number;
+  timestamp: string;
+  // 测试执行中采集时所属的测试用例
+  testCaseId?: string;
+  navigation: {
+    ttfb?: number;
+    domContentLoaded?: number;
+    load?: number;
+    fcp?: number;
+    transferSize?: number;
+  };
+  // 浏览器不支持对应的 PerformanceObserver 类型（如 Firefox、WebKit 中的 LCP）时为空
+  lcp?: number;
+  cls?: number;
+  // 最慢一次交互的耗时，没有交互时为空
+  inp?: number;
+  longTasks: {
+    count: number;
+    totalDuration: number;
+    // 每个长任务超过50ms部分的总和
+    totalBlockingTime: number;
+  };
+  resources: ResourceTiming[];
+}
+
+/**
+ * 可用于性能预算的指标
+ */
+export const PERFORMANCE_METRICS = [
+  'LCP',
+  'FCP',
+  'CLS',
+  'INP',
+  'TTFB',
+  'DCL',
+  'load',
+  'TBT',
+  'longTasks',
+  'requests',
+  'totalBytes',
+  'totalJS',
+  'totalCSS',
+  'totalImage',
+  'totalFont',
+] as const;
+
+export type PerformanceMetric = (typeof PERFORMANCE_METRICS)[number];
+
+/**
+ * 性能预算，如 LCP < 2500ms
+ */
+export interface PerformanceBudget {
+  metric: PerformanceMetric;
+  operator: '<' | '<=' | '>' | '>=';
+  // 已换算为毫秒或字节
+  value: number;
+  expression: string;
+}
+
+/**
+ * 性能预算的检查结果
+ */
+export interface BudgetResult {
+  budget: PerformanceBudget;
+  actual?: number;
+  passed: boolean;
+  message: string;
+}
+
+/**
+ * 同一页面在多次执行中的指标趋势
+ */
+export interface PerformanceTrend {
+  // 去掉查询参数与锚点的页面地址
+  url: string;
+  points: Array<{
+    reportId: string;
+    startTime: string;
+    // 同一次执行多次访问该页面时取中位数
+    metrics: Partial<Record<PerformanceMetric, number>>;
+  }>;
+  // 最后一次相对前一次执行的变化
+  change: Partial<Record<PerformanceMetric, number>>;
+}
+
+const BYTE_METRICS: PerformanceMetric[] = [
+  'totalBytes',
+  'totalJS',
+  'totalCSS',
+  'totalImage',
+  'totalFont',
+];
+const COUNT_METRICS: PerformanceMetric[] = ['CLS', 'longTasks', 'requests'];
+
+const UNIT_FACTORS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+// 长任务中超过该时长的部分计入阻塞时间
+const LONG_TASK_BLOCKING_THRESHOLD = 50;
+
+interface PerformanceState {
+  lcp?: number;
+  cls: number;
+  inp?: number;
+  longTasks: number[];
+}
+
+type ObservedEntry = PerformanceEntry & {
+  value?: number;
+  hadRecentInput?: boolean;
+  interactionId?: number;
+};
+
+/**
+ * 在页面中注册 PerformanceObserver，通过 BrowserContext.addInitScript 在每个文档加载前执行
+ * 函数会被序列化到页面中运行，不能引用外部变量
+ */
+export function installPerformanceObservers(): void {
+  const state: PerformanceState = { cls: 0, longTasks: [] };
+  (window as unknown as { __mcpPerformance: PerformanceState }).__mcpPerformance = state;
+  // 默认只缓冲250条资源时序，资源较多的页面会丢失后面的记录
+  performance.setResourceTimingBufferSize?.(1000);
+
+  const observe = (
+    type: string,
+    callback: (entries: ObservedEntry[]) => void,
+    options: Record<string, unknown> = {}
+  ) => {
+    try {
+      new PerformanceObserver(list => callback(list.getEntries())).observe({
+        type,
+        buffered: true,
+        ...options,
+      } as PerformanceObserverInit);
+    } catch (error) {
+      // 浏览器不支持该类型时忽略
+    }
+  };
+
+  observe('largest-contentful-paint', entries => {
+    state.lcp = entries[entries.length - 1].startTime;
+  });
+  observe('layout-shift', entries => {
+    for (const entry of entries) {
+      if (!entry.hadRecentInput) {
+        state.cls += entry.value || 0;
+      }
+    }
+  });
+  observe(
+    'event',
+    entries => {
+      for (const entry of entries) {
+        if (entry.interactionId) {
+          state.inp = Math.max(state.inp || 0, entry.duration);
+        }
+      }
+    },
+    { durationThreshold: 16 }
+  );
+  observe('longtask', entries => {
+    state.longTasks.push(...entries.map(entry => entry.duration));
+  });
+}
+
+/**
+ * 采集页面当前文档的性能指标
+ * @param page 页面
+ * @returns 性能指标，空白页等非网页文档返回 null
+ */
+export async function collectPagePerformance(page: Page): Promise<PagePerformance | null> {
+  if (!/^(https?|file):/.test(page.url())) {
+    return null;
+  }
+
+  const raw = await page.evaluate(() => {
+    const state = (window as unknown as { __mcpPerformance?: PerformanceState }).__mcpPerformance;
+    const [navigation] = performance.getEntriesByType(
+      'navigation'
+    ) as PerformanceNavigationTiming[];
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+
+    return {
+      url: location.href,
+      timeOrigin: performance.timeOrigin,
+      navigation: navigation
+        ? {
+            ttfb: navigation.responseStart,
+            domContentLoaded: navigation.domContentLoadedEventEnd || undefined,
+            load: navigation.loadEventEnd || undefined,
+            fcp: fcp?.startTime,
+            transferSize: navigation.transferSize,
+          }
+        : { fcp: fcp?.startTime },
+      lcp: state?.lcp,
+      cls: state?.cls,
+      inp: state?.inp,
+      longTasks: state?.longTasks ?? [],
+      resources: resources.map(resource => ({
+        url: resource.name,
+        initiatorType: resource.initiatorType,
+        startTime: resource.startTime,
+        duration: resource.duration,
+        transferSize: resource.transferSize,
+        encodedBodySize: resource.encodedBodySize,
+      })),
+    };
+  });
+
+  return {
+    ...raw,
+    timestamp: new Date().toISOString(),
+    longTasks: {
+      count: raw.longTasks.length,
+      totalDuration: raw.longTasks.reduce((total, duration) => total + duration, 0),
+      totalBlockingTime: raw.longTasks.reduce(
+        (total, duration) => total + Math.max(duration - LONG_TASK_BLOCKING_THRESHOLD, 0),
+        0
+      ),
+    },
+  };
+}
+
+/**
+ * 按扩展名与发起方式判断资源类型
+ * @param resource 资源时序
+ */
+export function getResourceType(
+  resource: ResourceTiming
+): 'js' | 'css' | 'image' | 'font' | 'other' {
+  const pathname = resource.url.split(/[?#]/)[0].toLowerCase();
+  if (/\.m?js$/.test(pathname) || resource.initiatorType === 'script') {
+    return 'js';
+  }
+  if (/\.css$/.test(pathname)) {
+    return 'css';
+  }
+  if (
+    /\.(png|jpe?g|gif|webp|avif|svg|ico|bmp)$/.test(pathname) ||
+    resource.initiatorType === 'img'
+  ) {
+    return 'image';
+  }
+  if (/\.(woff2?|ttf|otf|eot)$/.test(pathname)) {
+    return 'font';
+  }
+  return 'other';
+}
+
+/**
+ * 将性能指标展开为可用于预算与趋势的指标值
+ * @param performance 一次导航的性能指标
+ * @returns 指标值，未记录的指标为空
+ */
+export function getMetricValues(
+  performance: PagePerformance
+): Partial<Record<PerformanceMetric, number>> {
+  // 从缓存读取的资源传输大小为0，按编码后的大小计算
+  const sizeOf = (resource: ResourceTiming) => resource.transferSize || resource.encodedBodySize;
+  const totalOf = (type: ReturnType<typeof getResourceType>) =>
+    performance.resources
+      .filter(resource => getResourceType(resource) === type)
+      .reduce((total, resource) => total + sizeOf(resource), 0);
+
+  return {
+    LCP: performance.lcp,
+    FCP: performance.navigation.fcp,
+    CLS: performance.cls,
+    INP: performance.inp,
+    TTFB: performance.navigation.ttfb,
+    DCL: performance.navigation.domContentLoaded,
+    load: performance.navigation.load,
+    TBT: performance.longTasks.totalBlockingTime,
+    longTasks: performance.longTasks.count,
+    requests: performance.resources.length,
+    totalBytes:
+      (performance.navigation.transferSize || 0) +
+      performance.resources.reduce((total, resource) => total + sizeOf(resource), 0),
+    totalJS: totalOf('js'),
+    totalCSS: totalOf('css'),
+    totalImage: totalOf('image'),
+    totalFont: totalOf('font'),
+  };
+}
+
+/**
+ * 解析性能预算，多个预算以逗号、分号或换行分隔
+ * @param expression 预算表达式，如 "LCP < 2500ms, totalJS < 500KB, CLS <= 0.1"
+ * @returns 性能预算
+ */
+export function parseBudgets(expression: string): PerformanceBudget[] {
+  const budgets = expression
+    .split(/[,;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = /^([A-Za-z]+)\s*(<=|>=|<|>)\s*(\d+(?:\.\d+)?)\s*(ms|s|b|kb|mb)?$/i.exec(part);
+      if (!match) {
+        throw new Error(`Invalid performance budget: ${part}`);
+      }
+      const metric = PERFORMANCE_METRICS.find(
+        name => name.toLowerCase() === match[1].toLowerCase()
+      );
+      if (!metric) {
+        throw new Error(
+          `Unknown performance metric "${match[1]}", expected one of: ${PERFORMANCE_METRICS.join(', ')}`
+        );
+      }
+      const unit = (match[4] || '').toLowerCase();
+      const isByteMetric = BYTE_METRICS.includes(metric);
+      if (
+        (['b', 'kb', 'mb'].includes(unit) && !isByteMetric) ||
+        (['ms', 's'].includes(unit) && (isByteMetric || COUNT_METRICS.includes(metric)))
+      ) {
+        throw new Error(`Unit "${match[4]}" does not apply to ${metric}: ${part}`);
+      }
+      return {
+        metric,
+        operator: match[2] as PerformanceBudget['operator'],
+        value: Number(match[3]) * (UNIT_FACTORS[unit] ?? 1),
+        expression: part,
+      };
+    });
+
+  if (budgets.length === 0) {
+    throw new Error('No performance budget specified');
+  }
+  return budgets;
+}
+
+/**
+ * 按单位格式化指标值
+ * @param metric 指标
+ * @param value 指标值
+ */
+export function formatMetric(metric: PerformanceMetric, value: number): string {
+  if (BYTE_METRICS.includes(metric)) {
+    return `${(value / 1024).toFixed(1)}KB`;
+  }
+  if (COUNT_METRICS.includes(metric)) {
+    return String(Number(value.toFixed(3)));
+  }
+  return `${Math.round(value)}ms`;
+}
+
+/**
+ * 检查性能指标是否满足预算
+ * @param performance 一次导航的性能指标
+ * @param budgets 性能预算
+ * @returns 每个预算的检查结果，未记录的指标视为不满足
+ */
+export function evaluateBudgets(
+  performance: PagePerformance,
+  budgets: PerformanceBudget[]
+): BudgetResult[] {
+  const values = getMetricValues(performance);
+
+  return budgets.map(budget => {
+    const actual = values[budget.metric];
+    if (actual === undefined) {
+      return {
+        budget,
+        passed: false,
+        message: `${budget.expression}: ${budget.metric} was not recorded on ${performance.url}`,
+      };
+    }
+
+    const passed =
+      budget.operator === '<'
+        ? actual < budget.value
+        : budget.operator === '<='
+          ? actual <= budget.value
+          : budget.operator === '>'
+            ? actual > budget.value
+            : actual >= budget.value;
+    return {
+      budget,
+      actual,
+      passed,
+      message: `${budget.expression}: actual ${formatMetric(budget.metric, actual)}`,
+    };
+  });
+}
+
+// spec 中在页面内计算各指标的表达式，与 collectPagePerformance 和 getMetricValues 的口径一致
+const SPEC_METRIC_EXPRESSIONS: Record<PerformanceMetric, string> = {
+  LCP: "(await observed('largest-contentful-paint')).pop()?.startTime",
+  FCP: "performance.getEntriesByName('first-contentful-paint')[0]?.startTime",
+  CLS: "(await observed('layout-shift')).reduce((total, entry) => { const shift = entry as unknown as { value: number; hadRecentInput: boolean }; return shift.hadRecentInput ? total : total + shift.value; }, 0)",
+  INP: "Math.max(0, ...(await observed('event')).filter(entry => (entry as unknown as { interactionId?: number }).interactionId).map(entry => entry.duration)) || undefined",
+  TTFB: 'navigation?.responseStart',
+  DCL: 'navigation?.domContentLoadedEventEnd || undefined',
+  load: 'navigation?.loadEventEnd || undefined',
+  TBT: `(await observed('longtask')).reduce((total, task) => total + Math.max(task.duration - ${LONG_TASK_BLOCKING_THRESHOLD}, 0), 0)`,
+  longTasks: "(await observed('longtask')).length",
+  requests: 'resources.length',
+  totalBytes:
+    '(navigation?.transferSize || 0) + resources.reduce((total, resource) => total + sizeOf(resource), 0)',
+  totalJS: "totalOf('js')",
+  totalCSS: "totalOf('css')",
+  totalImage: "totalOf('image')",
+  totalFont: "totalOf('font')",
+};
+
+const SPEC_MATCHERS: Record<PerformanceBudget['operator'], string> = {
+  '<': 'toBeLessThan',
+  '<=': 'toBeLessThanOrEqual',
+  '>': 'toBeGreaterThan',
+  '>=': 'toBeGreaterThanOrEqual',
+};
+
+/**
+ * 生成在 @playwright/test 中检查性能预算的源码行
+ * 页面中没有预先注册的 PerformanceObserver，LCP、CLS 等指标通过 buffered 观察读取
+ * @param budgets 性能预算
+ * @param str 生成转义后字符串表达式的函数
+ * @returns 源码行
+ */
+export function performanceBudgetSpecLines(
+  budgets: PerformanceBudget[],
+  str: (value: string) => string
+): string[] {
+  const metrics = [...new Set(budgets.map(budget => budget.metric))];
+  const uses = (name: string) =>
+    metrics.some(metric => new RegExp(`\\b${name}\\b`).test(SPEC_METRIC_EXPRESSIONS[metric]));
+
+  return [
+    "await page.waitForLoadState('load');",
+    'const metrics = await page.evaluate(async () => {',
+    ...(uses('observed')
+      ? [
+          '  // 读取缓冲的性能条目，浏览器不支持该类型或没有条目时返回空数组',
+          '  const observed = (type: string) =>',
+          '    new Promise<PerformanceEntry[]>(resolve => {',
+          '      try {',
+          '        new PerformanceObserver(list => resolve(list.getEntries())).observe({ type, buffered: true });',
+          '      } catch {',
+          '        resolve([]);',
+          '      }',
+          '      setTimeout(() => resolve([]), 100);',
+          '    });',
+        ]
+      : []),
+    ...(uses('navigation')
+      ? [
+          "  const navigation = performance.getEntriesByType('navigation')[0] as",
+          '    | PerformanceNavigationTiming',
+          '    | undefined;',
+        ]
+      : []),
+    ...(uses('resources') || uses('totalOf')
+      ? [
+          "  const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];",
+        ]
+      : []),
+    ...(uses('sizeOf') || uses('totalOf')
+      ? [
+          '  const sizeOf = (resource: PerformanceResourceTiming) =>',
+          '    resource.transferSize || resource.encodedBodySize;',
+        ]
+      : []),
+    ...(uses('totalOf')
+      ? [
+          '  const typeOf = (resource: PerformanceResourceTiming) => {',
+          '    const pathname = resource.name.split(/[?#]/)[0].toLowerCase();',
+          "    if (/\\.m?js$/.test(pathname) || resource.initiatorType === 'script') return 'js';",
+          "    if (/\\.css$/.test(pathname)) return 'css';",
+          "    if (/\\.(png|jpe?g|gif|webp|avif|svg|ico|bmp)$/.test(pathname) || resource.initiatorType === 'img') return 'image';",
+          "    if (/\\.(woff2?|ttf|otf|eot)$/.test(pathname)) return 'font';",
+          "    return 'other';",
+          '  };',
+          '  const totalOf = (type: string) =>',
+          '    resources',
+          '      .filter(resource => typeOf(resource) === type)',
+          '      .reduce((total, resource) => total + sizeOf(resource), 0);',
+        ]
+      : []),
+    '  return {',
+    ...metrics.map(metric => `    ${metric}: ${SPEC_METRIC_EXPRESSIONS[metric]},`),
+    '  };',
+    '});',
+    ...budgets.map(
+      budget =>
+        `expect(metrics.${budget.metric}, ${str(budget.expression)}).${SPEC_MATCHERS[budget.operator]}(${budget.value});`
+    ),
+  ];
+}
+
+/**
+ * 汇总多次执行中各页面的指标趋势
+ * @param runs 按执行时间排序的测试结果ID、开始时间与性能指标
+ * @returns 每个页面的趋势
+ */
+export function buildPerformanceTrend(
+  runs: Array<{ reportId: string; startTime: string; performance: PagePerformance[] }>
+): PerformanceTrend[] {
+  const trends = new Map<string, PerformanceTrend>();
+
+  for (const run of runs) {
+    const byUrl = new Map<string, Array<Partial<Record<PerformanceMetric, number>>>>();
+    for (const performance of run.performance) {
+      const url = performance.url.split(/[?#]/)[0];
+      byUrl.set(url, [...(byUrl.get(url) || []), getMetricValues(performance)]);
+    }
+
+    for (const [url, samples] of byUrl) {
+      const metrics: Partial<Record<PerformanceMetric, number>> = {};
+      for (const metric of PERFORMANCE_METRICS) {
+        const value = median(
+          samples
+            .map(sample => sample[metric])
+            .filter((value): value is number => value !== undefined)
+        );
+        if (value !== undefined) {
+          metrics[metric] = value;
+        }
+      }
+
+      const trend = trends.get(url) || { url, points: [], change: {} };
+      trend.points.push({ reportId: run.reportId, startTime: run.startTime, metrics });
+      trends.set(url, trend);
+    }
+  }
+
+  for (const trend of trends.values()) {
+    const [previous, latest] = trend.points.slice(-2);
+    if (!latest) {
+      continue;
+    }
+    for (const metric of PERFORMANCE_METRICS) {
+      const before = previous.metrics[metric];
+      const after = latest.metrics[metric];
+      if (before !== undefined && after !== undefined) {
+        trend.change[metric] = after - before;
+      }
+    }
+  }
+
+  return [...trends.values()];
+}
+
+/**
+ * 计算中位数，没有值时返回空
+ */
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,188 @@
+/**
+ * @file Playwright spec 生成工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { generatePlaywrightSpec, getSpecFileName, quote } from './playwright-spec';
+import type { TestSuite } from '../types/core';
+
+describe('Playwright spec 生成', () => {
+  it('应转义引号、反斜杠和换行', () => {
+    expect(quote("it's")).toBe("'it\\'s'");
+    expect(quote('a\\b\nc')).toBe("'a\\\\b\\nc'");
+  });
+
+  it('应为每个套件生成 test.describe 并转换UI步骤', () => {
+    const suite: TestSuite = {
+      id: 'suite1',
+      name: "User's Login",
+      description: 'UI',
+      createdAt: 0,
+      timeouts: { testCase: 60000 },
+      retries: 2,
+      testCases: [
+        {
+          id: 'tc1',
+          name: 'Login works',
+          description: '',
+          steps: [
+            { id: 'step1', description: 'Open', action: 'navigate', selector: '/login' },
+            {
+              id: 'step2',
+              description: 'Type',
+              action: 'fill',
+              selector: '#user',
+              value: "O'Neil",
+            },
+            { id: 'step3', description: 'Check', action: 'assert', selector: '.welcome' },
+            { id: 'step4', description: 'Hover', action: 'hover', selector: '#menu' },
+            { id: 'step5', description: 'Fly', action: 'teleport' },
+            { id: 'step6', description: 'Popup', action: 'switchPage', value: 'url=/checkout/i' },
+            { id: 'step7', description: 'Second tab', action: 'switchPage', value: '1' },
+            { id: 'step9', description: 'URL', action: 'assertURL', value: '/cart?step=1' },
+            { id: 'step10', description: 'Title', action: 'assertTitle', value: '{{shop}} (beta)' },
+            {
+              id: 'step8',
+              description: 'Budget',
+              action: 'assertPerformance',
+              value: 'LCP < 2500ms, requests <= 30',
+            },
+          ],
+        },
+      ],
+    };
+
+    const spec = generatePlaywrightSpec(suite, { baseUrl: 'http://localhost:3000' });
+
+    expect(spec).toContain("import { test, expect } from '@playwright/test';");
+    expect(spec).toContain("test.describe('User\\'s Login', () => {");
+    expect(spec).toContain('test.describe.configure({ retries: 2, timeout: 60000 });');
+    expect(spec).toContain("test.use({ baseURL: 'http://localhost:3000' });");
+    expect(spec).toContain("test('Login works', async ({ page }) => {");
+    expect(spec).toContain("await page.goto('/login');");
+    expect(spec).toContain("await page.locator('#user').fill('O\\'Neil');");
+    expect(spec).toContain("await expect(page.locator('.welcome')).toBeVisible();");
+    expect(spec).toContain("await page.locator('#menu').hover();");
+    // 切换页面后重新绑定 page
+    expect(spec).toContain("if (new RegExp('checkout', 'i').test(candidate.url())) {");
+    expect(spec).toContain('page = switched;');
+    expect(spec).toContain('page = page.context().pages()[1];');
+    // 子串匹配转换为可重试的 web-first 断言
+    expect(spec).toContain("await expect(page).toHaveURL(new RegExp('/cart\\\\?step=1'));");
+    expect(spec).toContain(
+      "await expect(page).toHaveTitle(new RegExp(`${vars['shop']} (beta)`.replace(/[.*+?^${}()|[\\]\\\\]/g, '\\\\$&')));"
+    );
+    // 性能预算在页面中采集指标后逐项断言
+    expect(spec).toContain('const metrics = await page.evaluate(async () => {');
+    expect(spec).toContain("LCP: (await observed('largest-contentful-paint')).pop()?.startTime,");
+    expect(spec).toContain("expect(metrics.LCP, 'LCP < 2500ms').toBeLessThan(2500);");
+    expect(spec).toContain("expect(metrics.requests, 'requests <= 30').toBeLessThanOrEqual(30);");
+    // 无法转换的步骤使整个用例标记为 fixme，而不是静默通过
+    expect(spec).toContain("test.fixme(true, '无法完整导出：不支持的步骤类型 teleport');");
+    expect(spec).toContain('// 无法导出：不支持的步骤类型 teleport');
+  });
+
+  it('应使用 request fixture 转换API步骤并传递提取的变量', () => {
+    const suite: TestSuite = {
+      id: 'suite2',
+      name: 'Users API',
+      description: 'API',
+      createdAt: 0,
+      testCases: [
+        {
+          id: 'tc1',
+          name: 'Create and get user',
+          description: '',
+          steps: [
+            {
+              id: 'step1',
+              description: 'Create user',
+              action: 'request',
+              selector: '/users',
+              value: JSON.stringify({
+                method: 'POST',
+                body: { name: 'a`b${c}' },
+                expectedStatus: 201,
+                extract: [{ name: 'userId', type: 'jsonPath', path: '$.data.id' }],
+              }),
+            },
+            {
+              id: 'step2',
+              description: 'Get user',
+              action: 'request',
+              selector: '/users/{{userId}}',
+              value: JSON.stringify({
+                method: 'GET',
+                assertions: [
+                  { type: 'jsonPath', path: '$.data.id', operator: '=', value: '{{userId}}' },
+                  { type: 'jsonPath', path: '$.data.email', operator: '!=', value: null },
+                  { type: 'header', path: 'Content-Length', operator: '=', value: 123 },
+                ],
+              }),
+            },
+          ],
+        },
+      ],
+    };
+
+    const spec = generatePlaywrightSpec(suite);
+
+    expect(spec).toContain("test('Create and get user', async ({ request }) => {");
+    expect(spec).toContain('const vars: Record<string, unknown> = { ...process.env };');
+    expect(spec).toContain("const response = await request.post('/users', {");
+    expect(spec).toContain("name: 'a`b${c}',");
+    expect(spec).toContain('expect(response.status()).toBe(201);');
+    expect(spec).toContain("vars['userId'] = body?.data?.id;");
+    expect(spec).toContain("await request.get(`/users/${vars['userId']}`);");
+    // 基本类型按字符串比较，与执行器一致
+    expect(spec).toContain("expect(String(body?.data?.id)).toBe(String(vars['userId']));");
+    expect(spec).toContain(
+      "expect(String(response.headers()['content-length'])).toBe(String(123));"
+    );
+    expect(spec).toContain('expect(body?.data?.email).toBeDefined();');
+    expect(spec).toContain('expect(body?.data?.email).not.toBeNull();');
+    expect(spec).not.toContain('test.fixme');
+  });
+
+  it('无法转换的JSONPath和断言操作符应将用例标记为 fixme', () => {
+    const suite: TestSuite = {
+      id: 'suite3',
+      name: 'Orders API',
+      description: 'API',
+      createdAt: 0,
+      testCases: [
+        {
+          id: 'tc1',
+          name: 'List orders',
+          description: '',
+          steps: [
+            {
+              id: 'step1',
+              description: 'List',
+              action: 'request',
+              selector: '/orders',
+              value: JSON.stringify({
+                assertions: [
+                  { type: 'jsonPath', path: '$.items[*].id', operator: 'contains', value: 1 },
+                  { type: 'body', operator: 'between', value: 1 },
+                ],
+                extract: [{ name: 'firstId', type: 'jsonPath', path: '$..id' }],
+              }),
+            },
+          ],
+        },
+      ],
+    };
+
+    const spec = generatePlaywrightSpec(suite);
+
+    expect(spec).toContain(
+      "test.fixme(true, '无法完整导出：断言的 JSONPath $.items[*].id 无法转换为属性访问；不支持的断言操作符 between；提取 firstId 的 JSONPath $..id 无法转换为属性访问');"
+    );
+    expect(spec).not.toContain('TODO');
+  });
+
+  it('应根据套件名称生成文件名', () => {
+    expect(getSpecFileName({ id: 'abc', name: 'User Login' })).toBe('user-login.spec.ts');
+    expect(getSpecFileName({ id: 'abc', name: '登录测试' })).toBe('suite-abc.spec.ts');
+  });
+});
@@ -0,0 +1,541 @@
+/**
+ * @file Playwright spec 生成工具
+ * @description 将测试套件转换为可由 @playwright/test 直接运行的 .spec.ts 源码，
+ * 所有字符串都会转义后再写入，UI步骤使用 web-first 断言，API步骤使用 request fixture
+ */
+
+import type * as core from '../types/core';
+import { ApiRequestData, collectAssertions } from '../services/api-testing-service';
+import { getUiStepDefinition, UiStep } from '../services/ui-step-registry';
+
+/**
+ * spec 生成选项
+ */
+export interface PlaywrightSpecOptions {
+  // 写入 test.use({ baseURL }) 的基础地址，相对路径的 navigate 与 request 步骤基于它解析
+  baseUrl?: string;
+}
+
+type Fixture = 'page' | 'request';
+
+/**
+ * 原样写入源码的表达式
+ */
+class SourceExpression {
+  constructor(readonly code: string) {}
+}
+
+// 测试用例内保存提取变量的对象名
+const VARS = 'vars';
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const REQUEST_SHORTCUTS = ['get', 'post', 'put', 'patch', 'delete', 'head'];
+
+/**
+ * 生成单引号字符串字面量
+ * @param value 原始字符串
+ * @returns 转义后的字面量
+ * @example
+ * quote("it's") // "'it\\'s'"
+ */
+export function quote(value: string): string {
+  const escaped = value.replace(/[\\'\u2028\u2029\p{Cc}]/gu, char => {
+    switch (char) {
+      case '\\':
+        return '\\\\';
+      case "'":
+        return "\\'";
+      case '\n':
+        return '\\n';
+      case '\r':
+        return '\\r';
+      case '\t':
+        return '\\t';
+      default:
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    }
+  });
+  return `'${escaped}'`;
+}
+
+/**
+ * 生成注释文本，避免换行破坏源码
+ */
+function commentText(value: unknown): string {
+  return String(value ?? '').replace(/\s+/g, ' ');
+}
+
+/**
+ * 记录无法导出的内容，在原位置保留说明，所在用例会被标记为 test.fixme
+ */
+function unsupportedLines(reason: string, unsupported: string[]): string[] {
+  unsupported.push(reason);
+  return [`// 无法导出：${commentText(reason)}`];
+}
+
+function varRef(name: string): string {
+  return `${VARS}[${quote(name)}]`;
+}
+
+function escapeTemplate(value: string): string {
+  return quote(value)
+    .slice(1, -1)
+    .replace(/\\'/g, "'")
+    .replace(/`/g, '\\`')
+    .replace(/\$\{/g, '\\${');
+}
+
+/**
+ * 生成字符串表达式，{{name}} 占位符替换为对提取变量的引用
+ */
+function stringExpression(value: string): string {
+  if (!PLACEHOLDER_PATTERN.test(value)) {
+    return quote(value);
+  }
+
+  const parts = value.split(new RegExp(PLACEHOLDER_PATTERN, 'g'));
+  // split 的结果中奇数位为变量名
+  const body = parts
+    .map((part, index) => (index % 2 === 1 ? `\${${varRef(part)}}` : escapeTemplate(part)))
+    .join('');
+  return `\`${body}\``;
+}
+
+/**
+ * 将任意JSON值转换为源码字面量
+ * 与执行器一致，仅包含单个占位符的字符串保留变量的原始类型
+ */
+function literal(value: unknown, indent = ''): string {
+  if (value instanceof SourceExpression) {
+    return value.code;
+  }
+  if (typeof value === 'string') {
+    const single = SINGLE_PLACEHOLDER_PATTERN.exec(value);
+    return single ? varRef(single[1]) : stringExpression(value);
+  }
+  if (value === undefined || typeof value === 'function') {
+    return 'undefined';
+  }
+  if (value === null || typeof value !== 'object') {
+    return String(value);
+  }
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return `[\n${value.map(item => `${inner}${literal(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  const properties = entries.map(([key, item]) => {
+    const name = IDENTIFIER_PATTERN.test(key) ? key : quote(key);
+    return `${inner}${name}: ${literal(item, inner)},`;
+  });
+  return `{\n${properties.join('\n')}\n${indent}}`;
+}
+
+/**
+ * 将简单JSONPath（$、.key、['key']、[0]）转换为可选链访问表达式
+ * @returns 访问表达式，路径包含通配符、过滤等语法时返回null
+ */
+function toAccessor(root: string, path = '$'): string | null {
+  let expression = path.trim();
+  if (expression.startsWith('$')) {
+    expression = expression.slice(1);
+  } else if (expression && !expression.startsWith('.') && !expression.startsWith('[')) {
+    expression = `.${expression}`;
+  }
+
+  let accessor = root;
+  const segmentPattern = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\])/;
+  while (expression) {
+    const match = segmentPattern.exec(expression);
+    if (!match) {
+      return null;
+    }
+    if (match[2] !== undefined) {
+      accessor += `?.[${match[2]}]`;
+    } else {
+      const key = match[1] ?? match[4];
+      accessor += IDENTIFIER_PATTERN.test(key) ? `?.${key}` : `?.[${quote(key)}]`;
+    }
+    expression = expression.slice(match[0].length);
+  }
+  return accessor;
+}
+
+function regExpLiteral(pattern: unknown): string {
+  const value = String(pattern);
+  const match = /^\/(.+)\/([gimsuy]*)$/.exec(value);
+  return match
+    ? `new RegExp(${quote(match[1])}, ${quote(match[2])})`
+    : `new RegExp(${quote(value)})`;
+}
+
+/**
+ * 将单条API断言转换为 expect 语句
+ */
+function assertionLines(assertion: core.ApiAssertion, unsupported: string[]): string[] {
+  let actual: string | null;
+  switch (assertion.type) {
+    case 'status':
+      actual = 'response.status()';
+      break;
+    case 'header':
+      actual = `response.headers()[${quote((assertion.path || '').toLowerCase())}]`;
+      break;
+    case 'responseTime':
+      actual = 'Date.now() - startedAt';
+      break;
+    case 'body':
+      actual = 'body';
+      break;
+    default:
+      actual = toAccessor('body', assertion.path);
+  }
+
+  if (actual === null) {
+    return unsupportedLines(`断言的 JSONPath ${assertion.path} 无法转换为属性访问`, unsupported);
+  }
+
+  const expected = literal(assertion.value);
+  // 与执行器一致，基本类型之间按字符串比较，如请求头中的数值
+  const primitive = ['string', 'number', 'boolean'].includes(typeof assertion.value);
+  // 状态码与响应时间本身是数字
+  const numeric =
+    assertion.type === 'status' || assertion.type === 'responseTime' ? actual : `Number(${actual})`;
+  switch (assertion.operator) {
+    case '=':
+      if (assertion.type === 'status') {
+        return [`expect(${actual}).toBe(${expected});`];
+      }
+      return [
+        primitive
+          ? `expect(String(${actual})).toBe(String(${expected}));`
+          : `expect(${actual}).toEqual(${expected});`,
+      ];
+    case '!=':
+      if (assertion.value === null) {
+        // 缺失的字段同样不满足 != null
+        return [`expect(${actual}).toBeDefined();`, `expect(${actual}).not.toBeNull();`];
+      }
+      return [
+        primitive
+          ? `expect(String(${actual})).not.toBe(String(${expected}));`
+          : `expect(${actual}).not.toEqual(${expected});`,
+      ];
+    case '>':
+      return [`expect(${numeric}).toBeGreaterThan(${expected});`];
+    case '<':
+      return [`expect(${numeric}).toBeLessThan(${expected});`];
+    case '>=':
+      return [`expect(${numeric}).toBeGreaterThanOrEqual(${expected});`];
+    case '<=':
+      return [`expect(${numeric}).toBeLessThanOrEqual(${expected});`];
+    case 'contains':
+      return [
+        assertion.value !== null && typeof assertion.value === 'object'
+          ? `expect(${actual}).toMatchObject(${expected});`
+          : `expect(${actual}).toContain(${expected});`,
+      ];
+    case 'startsWith':
+      return [`expect(String(${actual}).startsWith(${expected})).toBeTruthy();`];
+    case 'endsWith':
+      return [`expect(String(${actual}).endsWith(${expected})).toBeTruthy();`];
+    case 'matches':
+      return [`expect(String(${actual})).toMatch(${regExpLiteral(assertion.value)});`];
+    default:
+      return unsupportedLines(`不支持的断言操作符 ${String(assertion.operator)}`, unsupported);
+  }
+}
+
+/**
+ * 读取API步骤的请求数据，兼容 value 中的JSON与步骤上的字段
+ */
+function parseRequestData(step: UiStep): ApiRequestData {
+  let requestData: ApiRequestData = {};
+  if (step.value) {
+    try {
+      requestData = JSON.parse(step.value) as ApiRequestData;
+    } catch (error) {
+      // value 不是JSON时只使用步骤上的字段
+    }
+  }
+
+  let body: unknown = requestData.body;
+  if (body === undefined && step.body) {
+    try {
+      body = JSON.parse(step.body) as unknown;
+    } catch (error) {
+      body = step.body;
+    }
+  }
+
+  return {
+    ...requestData,
+    method: requestData.method || step.method,
+    headers: requestData.headers || step.headers,
+    body,
+    expectedStatus: requestData.expectedStatus ?? step.expectedStatus,
+    expectedResponse: requestData.expectedResponse ?? step.expectedResponse,
+  };
+}
+
+function requestStepLines(step: UiStep, unsupported: string[]): string[] {
+  const requestData = parseRequestData(step);
+  const method = (requestData.method || 'GET').toUpperCase();
+  const endpoint = step.target || step.selector || step.endpoint || '';
+
+  // 与执行器使用相同的断言
+  const assertions = collectAssertions(step, requestData);
+  const extractions = [...(step.extract || []), ...(requestData.extract || [])];
+
+  const needsBody =
+    assertions.some(assertion => assertion.type === 'body' || assertion.type === 'jsonPath') ||
+    extractions.some(extraction => extraction.type === 'jsonPath');
+  const needsTiming = assertions.some(assertion => assertion.type === 'responseTime');
+
+  const options: Record<string, unknown> = {};
+  // multipart 的 Content-Type 由 Playwright 根据表单生成
+  const headers = Object.entries(requestData.headers || {}).filter(
+    ([name]) => !requestData.formData || name.toLowerCase() !== 'content-type'
+  );
+  if (headers.length > 0) {
+    // 请求头只能是字符串，占位符总是按字符串插值
+    options.headers = Object.fromEntries(
+      headers.map(([name, value]) => [name, new SourceExpression(stringExpression(String(value)))])
+    );
+  }
+  if (requestData.formData) {
+    options.multipart = requestData.formData;
+  } else if (requestData.rawBody !== undefined) {
+    options.data = requestData.rawBody;
+  } else if (requestData.body !== undefined && requestData.body !== null) {
+    options.data = requestData.body;
+  }
+
+  const shortcut = method.toLowerCase();
+  let call: string;
+  if (REQUEST_SHORTCUTS.includes(shortcut)) {
+    call = `request.${shortcut}(${stringExpression(endpoint)}${
+      Object.keys(options).length > 0 ? `, ${literal(options)}` : ''
+    })`;
+  } else {
+    call = `request.fetch(${stringExpression(endpoint)}, ${literal({ method, ...options })})`;
+  }
+
+  const lines: string[] = [];
+  if (needsTiming) {
+    lines.push('const startedAt = Date.now();');
+  }
+  // 没有断言和提取时不需要保留响应
+  const responseUsed = assertions.length > 0 || extractions.length > 0;
+  lines.push(...`${responseUsed ? 'const response = ' : ''}await ${call};`.split('\n'));
+  if (needsBody) {
+    lines.push('const body = await response.json().catch(() => null);');
+  }
+  assertions.forEach(assertion =>
+    lines.push(...assertionLines(assertion, unsupported).join('\n').split('\n'))
+  );
+
+  for (const extraction of extractions) {
+    switch (extraction.type) {
+      case 'header':
+        lines.push(
+          `${varRef(extraction.name)} = response.headers()[${quote((extraction.path || '').toLowerCase())}];`
+        );
+        break;
+      case 'regex':
+        lines.push(
+          `${varRef(extraction.name)} = ${regExpLiteral(extraction.pattern)}.exec(await response.text())?.[${
+            extraction.group ?? 1
+          }];`
+        );
+        break;
+      default: {
+        const accessor = toAccessor('body', extraction.path);
+        lines.push(
+          ...(accessor
+            ? [`${varRef(extraction.name)} = ${accessor};`]
+            : unsupportedLines(
+                `提取 ${extraction.name} 的 JSONPath ${extraction.path} 无法转换为属性访问`,
+                unsupported
+              ))
+        );
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * 将单个步骤转换为源码行，无法导出的内容记录到 unsupported
+ * @returns 源码行与步骤用到的 fixture
+ */
+function stepLines(
+  step: UiStep,
+  testCaseId: string,
+  unsupported: string[]
+): { lines: string[]; fixture?: Fixture } {
+  const lines: string[] = [];
+  let fixture: Fixture | undefined = 'page';
+
+  if (step.action === 'request') {
+    fixture = 'request';
+    lines.push(...requestStepLines(step, unsupported));
+  } else {
+    const definition = getUiStepDefinition(step.action);
+    if (definition) {
+      lines.push(
+        ...definition.toSpec(step, {
+          str: stringExpression,
+          locator: selector => `page.locator(${stringExpression(selector)})`,
+        })
+      );
+    } else {
+      fixture = undefined;
+      lines.push(...unsupportedLines(`不支持的步骤类型 ${step.action}`, unsupported));
+    }
+  }
+
+  if (step.screenshot) {
+    lines.push(
+      `await page.screenshot({ path: test.info().outputPath(${quote(`${testCaseId}_${step.id}.png`)}) });`
+    );
+  }
+
+  return { lines, fixture };
+}
+
+function usesVariables(testCase: core.TestCase): boolean {
+  return testCase.steps.some(step => {
+    const requestData = step.action === 'request' ? parseRequestData(step) : {};
+    return (
+      (step.extract?.length ?? 0) > 0 ||
+      (requestData.extract?.length ?? 0) > 0 ||
+      PLACEHOLDER_PATTERN.test(JSON.stringify(step))
+    );
+  });
+}
+
+function indentLines(lines: string[], indent: string): string[] {
+  return lines.map(line => (line ? `${indent}${line}` : line));
+}
+
+function testCaseLines(testCase: core.TestCase): string[] {
+  const fixtures = new Set<Fixture>();
+  const body: string[] = [];
+  const unsupported: string[] = [];
+
+  if (testCase.timeout) {
+    body.push(`test.setTimeout(${testCase.timeout});`);
+  }
+  if (usesVariables(testCase)) {
+    // 与执行器一致，变量以环境变量为初始值，提取结果在后续步骤中可用
+    body.push(`const ${VARS}: Record<string, unknown> = { ...process.env };`, '');
+  }
+
+  for (const step of testCase.steps as UiStep[]) {
+    const { lines, fixture } = stepLines(step, testCase.id, unsupported);
+    if (fixture) {
+      fixtures.add(fixture);
+    }
+    if (step.screenshot) {
+      fixtures.add('page');
+    }
+
+    body.push(`await test.step(${quote(step.description || step.action)}, async () => {`);
+    body.push(...indentLines(lines, '  '));
+    body.push('});');
+  }
+
+  if (unsupported.length > 0) {
+    // 不完整的用例不能当作通过，标记为 fixme 并说明原因
+    body.unshift(`test.fixme(true, ${quote(`无法完整导出：${unsupported.join('；')}`)});`);
+  }
+
+  const args = fixtures.size > 0 ? `{ ${[...fixtures].sort().join(', ')} }` : '';
+  if (body.length === 0) {
+    return [`test(${quote(testCase.name || testCase.id)}, async (${args}) => {});`];
+  }
+  return [
+    `test(${quote(testCase.name || testCase.id)}, async (${args}) => {`,
+    ...indentLines(body, '  '),
+    '});',
+  ];
+}
+
+/**
+ * 将测试套件转换为 @playwright/test spec 源码
+ * @param testSuite 测试套件
+ * @param options 生成选项
+ * @returns spec 文件内容
+ */
+export function generatePlaywrightSpec(
+  testSuite: core.TestSuite,
+  options: PlaywrightSpecOptions = {}
+): string {
+  const body: string[] = [];
+  const configure: string[] = [];
+  if (testSuite.retries !== undefined) {
+    configure.push(`retries: ${testSuite.retries}`);
+  }
+  if (testSuite.timeouts?.testCase) {
+    configure.push(`timeout: ${testSuite.timeouts.testCase}`);
+  }
+  if (configure.length > 0) {
+    body.push(`test.describe.configure({ ${configure.join(', ')} });`);
+  }
+  if (options.baseUrl) {
+    body.push(`test.use({ baseURL: ${quote(options.baseUrl)} });`);
+  }
+  if (body.length > 0) {
+    body.push('');
+  }
+  testSuite.testCases.forEach((testCase, index) => {
+    if (index > 0) {
+      body.push('');
+    }
+    body.push(...testCaseLines(testCase));
+  });
+
+  const lines = [
+    "import { test, expect } from '@playwright/test';",
+    '',
+    `// Generated from test suite ${commentText(testSuite.id)}`,
+    `test.describe(${quote(testSuite.name || testSuite.id)}, () => {`,
+    ...indentLines(body, '  '),
+    '});',
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * 生成 spec 文件名，名称中没有可用字符时使用套件ID
+ * @param testSuite 测试套件
+ * @returns 文件名
+ * @example
+ * getSpecFileName({ id: 'abc', name: 'User Login' }) // 'user-login.spec.ts'
+ */
+export function getSpecFileName(testSuite: Pick<core.TestSuite, 'id' | 'name'>): string {
+  const slug = (testSuite.name || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const safeId = testSuite.id.replace(/[^A-Za-z0-9_-]+/g, '-');
+  return `${slug || `suite-${safeId}`}.spec.ts`;
+}
+
+export default {
+  generatePlaywrightSpec,
+  getSpecFileName,
+  quote,
+};
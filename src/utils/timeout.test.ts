@@ -0,0 +1,35 @@
+/**
+ * @file 超时工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { isTimeoutError, resolveTimeout, TimeoutError, withTimeout } from './timeout';
+
+describe('超时工具', () => {
+  it('应取第一个正数作为超时', () => {
+    expect(resolveTimeout(undefined, 0, 5000, 30000)).toBe(5000);
+    expect(resolveTimeout(undefined, 0)).toBeUndefined();
+  });
+
+  it('操作在时限内完成时应返回结果', async () => {
+    await expect(withTimeout(Promise.resolve(42), 100, 'timeout')).resolves.toBe(42);
+    await expect(withTimeout(Promise.resolve(42), undefined, 'timeout')).resolves.toBe(42);
+  });
+
+  it('超过时限时应抛出超时错误', async () => {
+    const pending = new Promise(resolve => setTimeout(resolve, 200));
+
+    const error = await withTimeout(pending, 10, 'Step timed out').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as Error).message).toBe('Step timed out');
+    expect(isTimeoutError(error)).toBe(true);
+  });
+
+  it('应识别 Playwright 的超时错误并区分普通错误', () => {
+    const playwrightError = new Error('page.click: Timeout 5000ms exceeded.');
+    playwrightError.name = 'TimeoutError';
+
+    expect(isTimeoutError(playwrightError)).toBe(true);
+    expect(isTimeoutError(new Error('Expected 200, got 500'))).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file 超时工具
+ * @description 为异步操作设置超时，并区分超时与普通失败
+ */
+
+/**
+ * 超时错误，name 与 Playwright 的 TimeoutError 一致，便于统一识别
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 判断错误是否为超时（包括 Playwright 抛出的 TimeoutError）
+ * @param error 捕获的错误
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
+
+/**
+ * 按优先级取第一个有效的超时配置
+ * @param candidates 由具体到通用排列的候选值
+ * @returns 第一个正数，均无效时返回undefined（表示不限制）
+ * @example
+ * resolveTimeout(undefined, 0, 5000) // 5000
+ */
+export function resolveTimeout(...candidates: (number | undefined)[]): number | undefined {
+  return candidates.find(value => typeof value === 'number' && value > 0);
+}
+
+/**
+ * 为Promise设置超时
+ * @param promise 要等待的操作
+ * @param timeout 超时（毫秒），未设置时不限制
+ * @param message 超时错误信息
+ * @returns 操作结果
+ * @throws TimeoutError 超过时限仍未完成时抛出
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number | undefined,
+  message: string
+): Promise<T> {
+  if (timeout === undefined || !Number.isFinite(timeout)) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), Math.max(timeout, 0));
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export default {
+  isTimeoutError,
+  resolveTimeout,
+  withTimeout,
+};
@@ -0,0 +1,46 @@
+/**
+ * @file 图像对比工具测试
+ */
+import { describe, it, expect } from 'vitest';
+import { PNG } from 'pngjs';
+import { compareImages } from './visual-diff';
+
+function createImage(width: number, height: number, changedPixels = 0): Buffer {
+  const png = new PNG({ width, height });
+  for (let i = 0; i < width * height; i++) {
+    const changed = i < changedPixels;
+    png.data[i * 4] = 255;
+    png.data[i * 4 + 1] = changed ? 0 : 255;
+    png.data[i * 4 + 2] = changed ? 0 : 255;
+    png.data[i * 4 + 3] = 255;
+  }
+  return PNG.sync.write(png);
+}
+
+describe('图像对比', () => {
+  it('相同图像应当通过', () => {
+    const result = compareImages(createImage(10, 10), createImage(10, 10));
+
+    expect(result).toMatchObject({ passed: true, diffPixels: 0, sizeMismatch: false });
+    expect(result.diffImage).toBeInstanceOf(Buffer);
+  });
+
+  it('差异像素比例超过阈值时应当失败', () => {
+    const actual = createImage(10, 10, 5);
+    const baseline = createImage(10, 10);
+
+    expect(compareImages(actual, baseline)).toMatchObject({
+      passed: false,
+      diffPixels: 5,
+      diffRatio: 0.05,
+    });
+    expect(compareImages(actual, baseline, { maxDiffPixelRatio: 0.1 }).passed).toBe(true);
+  });
+
+  it('尺寸不同时应当失败且不生成差异图', () => {
+    const result = compareImages(createImage(10, 10), createImage(10, 12));
+
+    expect(result).toMatchObject({ passed: false, sizeMismatch: true });
+    expect(result.diffImage).toBeUndefined();
+  });
+});
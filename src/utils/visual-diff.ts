@@ -0,0 +1,79 @@
+/**
+ * @file 图像对比工具
+ * @description 逐像素比较截图与基线图像，生成高亮差异的图像
+ */
+
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+/**
+ * 对比选项
+ */
+export interface ImageCompareOptions {
+  // 单个像素的颜色差异阈值，0-1，越小越严格，默认 0.1
+  threshold?: number;
+  // 允许的差异像素比例，0-1，默认 0
+  maxDiffPixelRatio?: number;
+}
+
+/**
+ * 对比结果
+ */
+export interface ImageCompareResult {
+  passed: boolean;
+  diffPixels: number;
+  // 差异像素占全部像素的比例
+  diffRatio: number;
+  width: number;
+  height: number;
+  // 尺寸不同时无法逐像素比较，直接视为失败
+  sizeMismatch: boolean;
+  // 差异像素以红色标出的PNG，尺寸不同时为空
+  diffImage?: Buffer;
+}
+
+export const DEFAULT_PIXEL_THRESHOLD = 0.1;
+
+/**
+ * 逐像素对比两张PNG图像
+ * @param actual 新截图
+ * @param baseline 基线图像
+ * @param options 对比选项
+ * @returns 对比结果
+ */
+export function compareImages(
+  actual: Buffer,
+  baseline: Buffer,
+  options: ImageCompareOptions = {}
+): ImageCompareResult {
+  const actualPng = PNG.sync.read(actual);
+  const baselinePng = PNG.sync.read(baseline);
+  const { width, height } = actualPng;
+
+  if (width !== baselinePng.width || height !== baselinePng.height) {
+    return {
+      passed: false,
+      diffPixels: width * height,
+      diffRatio: 1,
+      width,
+      height,
+      sizeMismatch: true,
+    };
+  }
+
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(actualPng.data, baselinePng.data, diff.data, width, height, {
+    threshold: options.threshold ?? DEFAULT_PIXEL_THRESHOLD,
+  });
+  const diffRatio = width * height > 0 ? diffPixels / (width * height) : 0;
+
+  return {
+    passed: diffRatio <= (options.maxDiffPixelRatio ?? 0),
+    diffPixels,
+    diffRatio,
+    width,
+    height,
+    sizeMismatch: false,
+    diffImage: PNG.sync.write(diff),
+  };
+}
@@ -22,7 +22,11 @@ export default defineConfig({
       external: [
         "@modelcontextprotocol/sdk",
         "playwright",
+        "@axe-core/playwright",
+        "pngjs",
+        "pixelmatch",
         "simple-git",
+        "yaml",
         "express",
         "path",
         "fs",